@@ -1,23 +1,114 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { EditMode, ImageState, ProcessingState, FilterType, Adjustments, CropSettings } from './types';
-import { performImageEdit } from './services/geminiService';
+import { EditMode, ImageState, ProcessingState, FilterType, Adjustments, CropSettings, MaskTool, MatteSettings, MatteStrategy, Job, ProjectSummary, FilterPreset, OverlayLayer, PixelLayer, TokenUsage, Notice, NoticeAction, AIConfig, UsageLogEntry } from './types';
+import { listProviders, getActiveProvider, setActiveProvider, RequestControl } from './services/imageEditService';
+import { getErrorTitle, toAIEditError } from './services/aiErrors';
+import { runAIEdit, runAIEditVariations, AIEditParams, AIEditOutcome } from './services/editPipeline';
+import {
+  summarizeUsage, summarizeUsageLog, filterUsageLog, getUsageLog, subscribeUsageLog, setUsageProject, formatCost
+} from './services/usageService';
+import { renderImage, RenderedImage } from './services/renderService';
+import { DEFAULT_ADJUSTMENTS, ADJUSTMENT_CONTROLS, AdjustmentGroup } from './services/adjustments';
+import { importLutFile, resolvePreset } from './services/presetService';
+import {
+  ViewTransform, ViewportLayout, IDENTITY_VIEW, zoomAround, zoomForPixelScale, getVisibleRect, centerOn
+} from './services/viewportService';
+import {
+  canvasToBlob, formatFilename, encodeExport, loadExportSettings, downloadBlob, DEFAULT_EXPORT_SETTINGS
+} from './services/exportService';
+import { createJobQueue, JobQueue } from './services/jobQueue';
+import { createZip, uniqueNames, ZipEntry } from './services/zipService';
+import { loadImage } from './services/imageUtils';
+import { renderMatte } from './services/matteService';
+import { listProjects, loadProject, saveProject, deleteProject, collectGarbage } from './services/projectStore';
+import { putBlob, internImage, getThumbnailUrl, releaseUnused } from './services/blobStore';
+import {
+  appendHistory, restoreHistory, getUndoIndex, getRedoIndex, createHistoryEntry, normalizeHistory, hasUncommittedChanges
+} from './services/historyService';
+import { loadHistoryBudget, saveHistoryBudget, enforceHistoryBudget, getPatchUrls, getReferencedUrls, measureImages } from './services/historyMemory';
+import {
+  DEFAULT_CROP, FULL_RECT, getFrameSize, getOutputSize, fitRectToAspect, rotateRect, flipRect
+} from './services/cropService';
+import PromptPanel from './components/PromptPanel';
+import MaskCanvas from './components/MaskCanvas';
+import CropOverlay from './components/CropOverlay';
+import ImageFrame from './components/ImageFrame';
+import ExportDialog from './components/ExportDialog';
+import BatchPanel from './components/BatchPanel';
+import ProjectList from './components/ProjectList';
+import Thumbnail from './components/Thumbnail';
+import HistoryPanel from './components/HistoryPanel';
+import CompareView, { CompareMode, ComparePane } from './components/CompareView';
+import PanZoomSurface from './components/PanZoomSurface';
+import ViewportControls, { PixelReadout } from './components/ViewportControls';
+import HistogramPanel from './components/HistogramPanel';
+import CurvesEditor from './components/CurvesEditor';
+import LevelsEditor from './components/LevelsEditor';
+import PresetPanel from './components/PresetPanel';
+import OverlayStage from './components/OverlayStage';
+import OverlayPanel, { NewOverlay } from './components/OverlayPanel';
+import { createTextOverlay, createShapeOverlay, createArrowOverlay, createImageOverlay, fitTextBox } from './services/overlayService';
+import LayerStackPanel from './components/LayerStackPanel';
+import BackgroundPicker from './components/BackgroundPicker';
+import VariationPicker from './components/VariationPicker';
+import AISettingsDialog, { AISettingsTab } from './components/AISettingsDialog';
+import { getAIConfig } from './services/aiConfig';
+import { BACKGROUND_OPTIONS, BACKGROUND_CANDIDATES, generateBackgroundCandidates } from './services/backgroundService';
+import { createPixelLayer, compositeLayers, maskFromPaint, invertMask } from './services/layerService';
 import { 
   UploadIcon, MagicWandIcon, TrashIcon, DownloadIcon, SparklesIcon, 
-  UndoIcon, RedoIcon, SlidersIcon, FilterIcon, CropIcon, ShareIcon, AddImageIcon 
+  UndoIcon, RedoIcon, SlidersIcon, FilterIcon, CropIcon, ShareIcon, AddImageIcon, BrushIcon, StackIcon, FolderIcon, HistoryIcon, LayersIcon, CogIcon
 } from './components/Icons';
 
 // --- Default States ---
-const DEFAULT_ADJUSTMENTS: Adjustments = { brightness: 100, contrast: 100, saturation: 100, blur: 0 };
-
-const BACKGROUND_OPTIONS = [
-  { name: 'White', value: '#ffffff' },
-  { name: 'Black', value: '#000000' },
-  { name: 'Red', value: '#ef4444' },
-  { name: 'Blue', value: '#3b82f6' },
-  { name: 'Green', value: '#10b981' },
-  { name: 'Sunset Gradient', value: 'linear-gradient(to top, #fca5a5, #fcd34d)' },
-  { name: 'Midnight Gradient', value: 'linear-gradient(to top, #1e3a8a, #000000)' },
-];
+
+const IDLE_PROCESSING: ProcessingState = { isProcessing: false, mode: null, status: null };
+
+// At most this many notices stack up; info notices close after INFO_NOTICE_MS
+const MAX_NOTICES = 4;
+const INFO_NOTICE_MS = 5000;
+
+// Choices for how many results each AI edit requests; above 1 opens the picker
+const VARIATION_COUNTS = [1, 2, 3, 4];
+
+// Max number of batch jobs talking to the AI backend at once
+const BATCH_CONCURRENCY = 3;
+
+// Autosave waits for edits to settle before writing to IndexedDB
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface VariationSet {
+  imageId: string;
+  label: string;
+  params: AIEditParams;       // Kept for regenerating
+  outcomes: AIEditOutcome[];
+  requested: number;
+  usage: (TokenUsage | null)[]; // Every request for this set, including regenerations
+}
+
+interface ProjectInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const createProjectInfo = (): ProjectInfo => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: `Untitled ${new Date().toLocaleDateString()}`,
+  createdAt: Date.now(),
+});
+
+// History label for an AI edit, e.g. "Anime Style" or "Custom Prompt: make it snow"
+const describeEdit = (mode: EditMode, prompt: string) => {
+  if (mode !== EditMode.CUSTOM && mode !== EditMode.INPAINT) return mode;
+  const text = prompt.trim();
+  return `${mode}: ${text.length > 40 ? `${text.slice(0, 40)}…` : text}`;
+};
+
+// Screen pixels per image pixel from which the pixel grid is drawn
+const PIXEL_GRID_MIN_SCALE = 8;
+
+// Longest edge of the minimap preview render
+const MINIMAP_PREVIEW_SIZE = 256;
 
 const ASPECT_RATIOS = [
   { name: 'Free', value: null },
@@ -27,6 +118,12 @@ const ASPECT_RATIOS = [
   { name: '4:3', value: 4/3 },
 ];
 
+// Shown behind the working image so transparent areas are visible
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#374151 25%, #1f2937 0 50%, #374151 0 75%, #1f2937 0)',
+  backgroundSize: '16px 16px',
+};
+
 // --- Sub-components ---
 
 const Spinner = () => (
@@ -61,7 +158,7 @@ const ToolButton = ({
   </button>
 );
 
-const SliderControl = ({ label, value, min, max, onChange }: { label: string, value: number, min: number, max: number, onChange: (v: number) => void }) => (
+const SliderControl = ({ label, value, min, max, onChange, onChangeEnd }: { label: string, value: number, min: number, max: number, onChange: (v: number) => void, onChangeEnd?: () => void }) => (
   <div className="mb-4">
     <div className="flex justify-between mb-1">
       <label className="text-xs text-gray-400 font-medium">{label}</label>
@@ -73,6 +170,8 @@ const SliderControl = ({ label, value, min, max, onChange }: { label: string, va
       max={max}
       value={value}
       onChange={(e) => onChange(Number(e.target.value))}
+      onPointerUp={onChangeEnd}
+      onKeyUp={onChangeEnd}
       className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
     />
   </div>
@@ -84,263 +183,848 @@ const App = () => {
   const [activeImageId, setActiveImageId] = useState<string | null>(null);
 
   // Global processing state
-  const [processing, setProcessing] = useState<ProcessingState>({
-    isProcessing: false,
-    error: null,
-    mode: null,
-  });
+  const [processing, setProcessing] = useState<ProcessingState>(IDLE_PROCESSING);
+  const requestRef = useRef<AbortController | null>(null); // The in-flight AI request, for Cancel
+  const [notices, setNotices] = useState<Notice[]>([]);
+
+  // AI backend (Gemini or offline mock)
+  const [providerId, setProviderId] = useState<string>(() => getActiveProvider().id);
+  const [aiConfig, setAIConfig] = useState<AIConfig>(() => getAIConfig()); // Prompts, models and custom modes
+  const [aiSettingsTab, setAISettingsTab] = useState<AISettingsTab | null>(null); // Open AI settings dialog
+  const [usageLog, setUsageLog] = useState<UsageLogEntry[]>(() => getUsageLog());
 
   // UI State
-  const [activeToolTab, setActiveToolTab] = useState<'magic' | 'adjust' | 'filters' | 'crop'>('magic');
+  const [activeToolTab, setActiveToolTab] = useState<'magic' | 'inpaint' | 'adjust' | 'filters' | 'crop' | 'layers' | 'batch' | 'history'>('magic');
   const [selectedBgColor, setSelectedBgColor] = useState<string>(BACKGROUND_OPTIONS[0].value);
   const [customBgImage, setCustomBgImage] = useState<string | null>(null);
+  const [backgroundPrompt, setBackgroundPrompt] = useState<string>(''); // Described background; used when no image is chosen
+  const [customPrompt, setCustomPrompt] = useState<string>('');
+  const [matteStrategy, setMatteStrategy] = useState<MatteStrategy>('matte');
+  const [tiledEnhance, setTiledEnhance] = useState(false); // Auto Enhance in overlapping tiles for a bigger upscale
   
-  // Crop UI State
-  const [cropConfig, setCropConfig] = useState<CropSettings>({ aspectRatio: null, active: false });
+  // Inpaint UI State
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(30);
+  const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
+  const [maskKey, setMaskKey] = useState<number>(0); // Bump to clear the mask layer
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Compare: the current render against the original or a chosen history step
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [compareEntryId, setCompareEntryId] = useState<string | null>(null); // null = original upload
+  const [compareSplit, setCompareSplit] = useState<number>(0.5);
+  const [isHoldingOriginal, setIsHoldingOriginal] = useState(false);
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW); // Shared by the viewport and both compare panes
+
+  // Overlay layer selected for editing in the viewport and the Layers tab
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const compositeTokenRef = useRef(0); // Drops composites superseded by a newer layer change
+
+  // Viewport inspection: measured layout and the color under the cursor
+  const [viewLayout, setViewLayout] = useState<ViewportLayout | null>(null);
+  const [pixelReadout, setPixelReadout] = useState<PixelReadout | null>(null);
+  const sampleRef = useRef<{ source: ImageState; pixels: Promise<ImageData> } | null>(null);
+
+  // Export dialog: holds the rendered canvas while open
+  const [exportSource, setExportSource] = useState<RenderedImage | null>(null);
+
+  // AI variations: how many to request per edit, and the set awaiting a pick
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [variations, setVariations] = useState<VariationSet | null>(null);
+
+  // Batch: filmstrip multi-select and the shared job queue
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [zipStatus, setZipStatus] = useState<string | null>(null);
+  const queueRef = useRef<JobQueue | null>(null);
+  if (!queueRef.current) queueRef.current = createJobQueue(BATCH_CONCURRENCY);
+
+  // Projects: everything in `images` is autosaved to IndexedDB
+  const [project, setProject] = useState<ProjectInfo | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [showProjects, setShowProjects] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const loadedRef = useRef<{ images: ImageState[]; project: ProjectInfo } | null>(null); // Skips re-saving a freshly opened project
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+
+  // Undo memory: history is trimmed once stored pixels exceed the budget
+  const [historyBudgetMb, setHistoryBudgetMb] = useState<number>(() => loadHistoryBudget());
+
+  // Jobs run after later renders, so they read images through a ref
+  const imagesRef = useRef<ImageState[]>(images);
+  imagesRef.current = images;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const bgFileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   // Helpers to get active image
   const activeImage = images.find(img => img.id === activeImageId);
+
+  // Compare views need the framed preview, so not while masking or cropping
+  const canCompare = !!imageSize && activeToolTab !== 'inpaint' && activeToolTab !== 'crop';
+  const showingBefore = canCompare && isHoldingOriginal && compareMode === 'off';
+
+  // Zoom expressed in screen pixels per image pixel (1 = 100%)
+  const outputSize = activeImage && imageSize ? getOutputSize(imageSize.width, imageSize.height, activeImage.crop) : { width: 1, height: 1 };
+  const sessionUsage = summarizeUsageLog(filterUsageLog(usageLog, 'session', null));
+  const pixelScale = viewLayout ? view.zoom * viewLayout.contentWidth / outputSize.width : view.zoom;
+  const visibleRect = viewLayout ? getVisibleRect(view, viewLayout) : FULL_RECT;
+
+  useEffect(() => queueRef.current!.subscribe(setJobs), []);
+  useEffect(() => subscribeUsageLog(setUsageLog), []);
+
+  // AI requests are logged against the open project
+  useEffect(() => setUsageProject(project?.id ?? null), [project?.id]);
+
+  // Offer saved projects on startup
+  useEffect(() => {
+    listProjects()
+      .then(list => {
+        setProjects(list);
+        if (list.length > 0) setShowProjects(true);
+      })
+      .catch(() => setSaveStatus('error')); // IndexedDB unavailable (e.g. private mode)
+    collectGarbage().catch(() => {});
+  }, []);
+
+  // Enforce the history budget, then free pixels nothing points at any more
+  useEffect(() => {
+    const trimmed = enforceHistoryBudget(images, historyBudgetMb * 1024 * 1024);
+    if (trimmed !== images) {
+      setImages(trimmed);
+      return;
+    }
+    // Variations awaiting a pick are not in `images` yet
+    const pending = variations ? variations.outcomes.flatMap(outcome => getPatchUrls(outcome.patch)) : [];
+    releaseUnused(getReferencedUrls(images, pending));
+  }, [images, historyBudgetMb, variations]);
+
+  const handleHistoryBudgetChange = (mb: number) => {
+    saveHistoryBudget(mb);
+    setHistoryBudgetMb(mb);
+  };
+
+  // -- Autosave --
+  useEffect(() => {
+    if (images.length === 0) return;
+    if (images === loadedRef.current?.images && project === loadedRef.current.project) return;
+    if (!project) {
+      setProject(createProjectInfo()); // Re-runs this effect with a project to save into
+      return;
+    }
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      setSaveStatus('saving');
+      saveProject({ ...project, images, activeImageId })
+        .then(() => setSaveStatus('saved'))
+        .catch(() => setSaveStatus('error'));
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [images, activeImageId, project]);
+
+  // Don't lose the last second of edits when the tab is closed or hidden
+  useEffect(() => {
+    const flush = () => pendingSaveRef.current?.();
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, []);
+
+  const resetWorkspace = () => {
+    queueRef.current!.cancelAll();
+    queueRef.current!.clearFinished();
+    setSelectedIds([]);
+    setExportSource(null);
+    setProcessing(IDLE_PROCESSING);
+  };
+
+  const openProjectList = async () => {
+    pendingSaveRef.current?.();
+    try {
+      setProjects(await listProjects());
+    } catch {
+      setProjects([]);
+    }
+    setShowProjects(true);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    pendingSaveRef.current?.();
+    try {
+      const data = await loadProject(id);
+      if (!data) throw new Error('Project not found.');
+      resetWorkspace();
+      const info = { id: data.id, name: data.name, createdAt: data.createdAt };
+      const restored = data.images.map(normalizeHistory);
+      loadedRef.current = { images: restored, project: info };
+      setImages(restored);
+      setActiveImageId(data.activeImageId ?? restored[0]?.id ?? null);
+      setProject(info);
+      setSaveStatus('saved');
+      setShowProjects(false);
+    } catch (err: any) {
+      showError(err?.message || 'Failed to open project.');
+    }
+  };
+
+  const handleNewProject = () => {
+    pendingSaveRef.current?.();
+    resetWorkspace();
+    setImages([]);
+    setActiveImageId(null);
+    setProject(null);
+    setSaveStatus('idle');
+    setShowProjects(false);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (id === project?.id) {
+      pendingSaveRef.current = null;
+      handleNewProject();
+      setShowProjects(true);
+    }
+    await deleteProject(id).catch(() => {});
+    setProjects(await listProjects().catch(() => []));
+  };
+
+  const clearMask = () => {
+    setMaskDataUrl(null);
+    setMaskKey(k => k + 1);
+  };
+
+  // A mask only makes sense for the image it was painted on; size is re-read on load
+  useEffect(() => {
+    clearMask();
+    setImageSize(null);
+    setCompareEntryId(null);
+    setView(IDENTITY_VIEW);
+    setSelectedOverlayId(null);
+    setSelectedLayerId(null);
+  }, [activeImageId]);
+
+  // Hold backslash to peek at the comparison image
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === '\\' && !isTyping(e)) setIsHoldingOriginal(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.key === '\\') setIsHoldingOriginal(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
   
   // -- Initialization --
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files && files.length > 0) {
-      const newImages: ImageState[] = [];
-      Array.from(files).forEach((file: File) => {
-        if (file.type.startsWith('image/')) {
-          const reader = new FileReader();
-          reader.onload = (e) => {
-            if (e.target?.result) {
-              const base64 = e.target.result as string;
-              const newImg: ImageState = {
-                id: Math.random().toString(36).substr(2, 9),
-                name: file.name,
-                original: base64,
-                current: base64, // Initially, current is original
-                thumbnail: base64, // Simplification
-                mimeType: file.type,
-                adjustments: { ...DEFAULT_ADJUSTMENTS },
-                filter: FilterType.NONE,
-                history: [{
-                  current: base64,
-                  adjustments: { ...DEFAULT_ADJUSTMENTS },
-                  filter: FilterType.NONE
-                }],
-                historyIndex: 0
-              };
-              setImages(prev => {
-                const updated = [...prev, newImg];
-                if (!activeImageId) setActiveImageId(updated[0].id);
-                return updated;
-              });
-            }
+      Array.from(files).forEach(async (file: File) => {
+        if (!file.type.startsWith('image/')) return;
+        try {
+          // Files are already Blobs: store them as-is, no base64 round trip
+          const url = await putBlob(file);
+          const newImg: ImageState = {
+            id: Math.random().toString(36).substr(2, 9),
+            name: file.name,
+            original: url,
+            current: url, // Initially, current is original
+            layers: [createPixelLayer(url, 'Original')],
+            thumbnail: await getThumbnailUrl(url),
+            mimeType: file.type,
+            adjustments: { ...DEFAULT_ADJUSTMENTS },
+            filter: FilterType.NONE,
+            crop: { ...DEFAULT_CROP },
+            matte: null,
+            overlays: [],
+            history: [],
+            historyIndex: 0,
+            recentPrompts: []
           };
-          reader.readAsDataURL(file);
+          newImg.history = [createHistoryEntry(newImg, 'Original')];
+          setImages(prev => {
+            const updated = [...prev, newImg];
+            if (!activeImageId) setActiveImageId(updated[0].id);
+            return updated;
+          });
+        } catch {
+          showError(`Could not read ${file.name}.`);
         }
       });
     }
   };
 
   // -- History Management --
-  const pushHistory = (newState: Partial<ImageState>, imageId: string) => {
-    setImages(prev => prev.map(img => {
-      if (img.id === imageId) {
-        const newHistoryItem = {
-          current: newState.current ?? img.current,
-          adjustments: { ...(newState.adjustments ?? img.adjustments) },
-          filter: newState.filter ?? img.filter
-        };
-        const newHistory = img.history.slice(0, img.historyIndex + 1);
-        newHistory.push(newHistoryItem);
-        return {
-          ...img,
-          ...newState,
-          history: newHistory,
-          historyIndex: newHistory.length - 1
-        };
-      }
-      return img;
-    }));
+  // History is a tree: edits made after an undo start a new branch (see historyService)
+  const pushHistory = (newState: Partial<ImageState>, imageId: string, label: string) => {
+    setImages(prev => prev.map(img => img.id === imageId ? appendHistory(img, newState, label) : img));
+  };
+
+  const jumpToHistory = (index: number) => {
+    if (!activeImage || index < 0 || index >= activeImage.history.length) return;
+    setImages(prev => prev.map(img => img.id === activeImage.id ? restoreHistory(img, index) : img));
   };
 
   const undo = () => {
-    if (!activeImage || activeImage.historyIndex <= 0) return;
-    const prevIndex = activeImage.historyIndex - 1;
-    const historicalState = activeImage.history[prevIndex];
-    setImages(prev => prev.map(img => img.id === activeImage.id ? {
-      ...img,
-      current: historicalState.current,
-      adjustments: historicalState.adjustments,
-      filter: historicalState.filter,
-      historyIndex: prevIndex
-    } : img));
+    if (activeImage) jumpToHistory(getUndoIndex(activeImage));
   };
 
   const redo = () => {
-    if (!activeImage || activeImage.historyIndex >= activeImage.history.length - 1) return;
-    const nextIndex = activeImage.historyIndex + 1;
-    const historicalState = activeImage.history[nextIndex];
-    setImages(prev => prev.map(img => img.id === activeImage.id ? {
-      ...img,
-      current: historicalState.current,
-      adjustments: historicalState.adjustments,
-      filter: historicalState.filter,
-      historyIndex: nextIndex
-    } : img));
+    if (activeImage) jumpToHistory(getRedoIndex(activeImage));
   };
 
   // -- Editing Functions --
 
   // 1. Client-Side Adjustments (Non-destructive)
-  const updateAdjustment = (key: keyof Adjustments, value: number) => {
+  // Sliders update live while dragging; releasing commits one history step
+  const updateAdjustment = <K extends keyof Adjustments>(key: K, value: Adjustments[K]) => {
     if (!activeImage) return;
-    // We don't push history on every drag, typically we'd debounce or push on mouseUp
-    // For simplicity, we assume 'live' update, and history push logic would be on 'onChangeEnd' ideally.
-    // Here we just update state directly for responsiveness.
     setImages(prev => prev.map(img => img.id === activeImage.id ? {
       ...img,
       adjustments: { ...img.adjustments, [key]: value }
     } : img));
   };
-  
-  // Commit adjustment to history (e.g. when tab changes or specific save)
-  // Simplified: We'll push history when a user selects a filter or completes an AI op.
+
+  const commitAdjustment = (label: string) => {
+    if (!activeImage || !hasUncommittedChanges(activeImage)) return;
+    pushHistory({}, activeImage.id, label);
+  };
+
+  const resetAdjustments = () => {
+    if (!activeImage) return;
+    pushHistory({ adjustments: { ...DEFAULT_ADJUSTMENTS } }, activeImage.id, 'Reset Adjustments');
+  };
 
   const setFilter = (filter: FilterType) => {
     if (!activeImage) return;
-    pushHistory({ filter }, activeImage.id);
+    pushHistory({ filter }, activeImage.id, `Filter: ${filter}`);
+  };
+
+  // -- Notifications --
+  // Errors stay until dismissed; info notices clear themselves
+  const notify = (notice: Pick<Notice, 'tone' | 'title'> & Partial<Omit<Notice, 'id'>>) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    setNotices(prev => [...prev.slice(-(MAX_NOTICES - 1)), { message: null, detail: null, actions: [], ...notice, id }]);
+    if (notice.tone === 'info') setTimeout(() => dismissNotice(id), INFO_NOTICE_MS);
+  };
+
+  const dismissNotice = (id: string) => setNotices(prev => prev.filter(notice => notice.id !== id));
+
+  const showError = (message: string) => notify({ tone: 'error', title: message });
+
+  // -- AI Requests --
+  // One request at a time from the editor; the overlay shows retries and can cancel it
+  const beginRequest = (mode: EditMode): RequestControl => {
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setProcessing({ isProcessing: true, mode, status: null });
+    return {
+      signal: controller.signal,
+      onRetry: ({ attempt, maxAttempts, delayMs, error }) => setProcessing(p => ({
+        ...p,
+        status: `${getErrorTitle(error.kind)}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxAttempts})…`
+      })),
+      onProgress: (message) => setProcessing(p => ({ ...p, status: message })),
+    };
+  };
+
+  const endRequest = () => {
+    requestRef.current = null;
+    setProcessing(IDLE_PROCESSING);
+  };
+
+  // Failures get a notice with a way forward; cancelling only confirms briefly
+  const failRequest = (error: unknown, retry?: () => void) => {
+    endRequest();
+    const err = toAIEditError(error);
+    if (err.kind === 'cancelled') return notify({ tone: 'info', title: 'Request cancelled' });
+    const actions: NoticeAction[] = [];
+    if (err.kind === 'auth') {
+      actions.push(window.aistudio
+        ? { label: 'Select API key', run: () => window.aistudio!.openSelectKey() }
+        : { label: 'Open AI settings', run: () => setAISettingsTab('connection') });
+    }
+    if (retry && err.kind !== 'auth' && err.kind !== 'safety') actions.push({ label: 'Retry', run: retry });
+    notify({ tone: 'error', title: getErrorTitle(err.kind), message: err.message, detail: err.detail, actions });
+  };
+
+  const importLut = async (file: File) => {
+    if (!activeImage) return;
+    const id = activeImage.id;
+    try {
+      const lut = await importLutFile(file);
+      const image = imagesRef.current.find(img => img.id === id);
+      if (image) pushHistory({ adjustments: { ...image.adjustments, lut } }, id, `LUT: ${lut.name}`);
+    } catch (err: any) {
+      showError(err.message || `Could not read ${file.name}.`);
+    }
+  };
+
+  const removeLut = () => {
+    if (!activeImage?.adjustments.lut) return;
+    pushHistory({ adjustments: { ...activeImage.adjustments, lut: null } }, activeImage.id, 'Remove LUT');
+  };
+
+  const applyPreset = async (preset: FilterPreset, scope: 'image' | 'all') => {
+    if (!activeImage) return;
+    const targets = scope === 'all' ? images.map(img => img.id) : [activeImage.id];
+    try {
+      const patch = await resolvePreset(preset);
+      targets.forEach(id => pushHistory({ ...patch }, id, `Preset: ${preset.name}`));
+    } catch (err: any) {
+      showError(err.message || 'Could not apply preset.');
+    }
+  };
+
+  // Crop & transform. Every change is a history step except live straighten drags
+  // (label null), which are committed once the slider is released.
+  const updateCrop = (patch: Partial<CropSettings>, label: string | null) => {
+    if (!activeImage) return;
+    const crop = { ...activeImage.crop, ...patch };
+    if (label) {
+      pushHistory({ crop }, activeImage.id, label);
+    } else {
+      setImages(prev => prev.map(img => img.id === activeImage.id ? { ...img, crop } : img));
+    }
+  };
+
+  const commitCrop = () => {
+    if (!activeImage || !hasUncommittedChanges(activeImage)) return;
+    pushHistory({}, activeImage.id, `Straighten ${activeImage.crop.straighten}°`);
+  };
+
+  const setCropAspect = (aspectRatio: number | null) => {
+    if (!activeImage || !imageSize) return;
+    const frame = getFrameSize(imageSize.width, imageSize.height, activeImage.crop);
+    const name = ASPECT_RATIOS.find(r => r.value === aspectRatio)?.name ?? 'Custom';
+    updateCrop({ aspectRatio, rect: aspectRatio ? fitRectToAspect(frame.width, frame.height, aspectRatio) : null }, `Aspect ${name}`);
+  };
+
+  const rotateCrop = (delta: 90 | -90) => {
+    if (!activeImage) return;
+    const { crop } = activeImage;
+    // A single mirror reverses the on-screen direction of the turn
+    const clockwise = (delta > 0) !== (crop.flipH !== crop.flipV);
+    updateCrop({
+      rotation: (crop.rotation + delta + 360) % 360,
+      rect: crop.rect ? rotateRect(crop.rect, clockwise) : null,
+      aspectRatio: crop.aspectRatio ? 1 / crop.aspectRatio : null
+    }, delta > 0 ? 'Rotate Right' : 'Rotate Left');
+  };
+
+  const flipCrop = (horizontal: boolean) => {
+    if (!activeImage) return;
+    const { crop } = activeImage;
+    updateCrop({
+      flipH: horizontal ? !crop.flipH : crop.flipH,
+      flipV: horizontal ? crop.flipV : !crop.flipV,
+      rect: crop.rect ? flipRect(crop.rect, horizontal) : null
+    }, horizontal ? 'Flip Horizontal' : 'Flip Vertical');
+  };
+
+  // Overlay layers. Drags and typing update live; the change is committed as one
+  // step afterwards. Commits go through setImages so they see the live edit.
+  const commitOverlays = (label: string) => {
+    if (!activeImage) return;
+    const id = activeImage.id;
+    setImages(prev => prev.map(img => img.id === id && hasUncommittedChanges(img) ? appendHistory(img, {}, label) : img));
+  };
+
+  const updateOverlay = (layerId: string, patch: Partial<OverlayLayer>) => {
+    if (!activeImage) return;
+    const { width, height } = outputSize;
+    setImages(prev => prev.map(img => img.id === activeImage.id ? {
+      ...img,
+      overlays: img.overlays.map(layer => {
+        if (layer.id !== layerId) return layer;
+        const next = { ...layer, ...patch } as OverlayLayer;
+        // Text boxes grow and shrink with their content
+        const refit = next.kind === 'text' && ['text', 'fontFamily', 'bold', 'italic', 'strokeWidth'].some(key => key in patch);
+        return refit && next.kind === 'text' ? fitTextBox(next, width, height) : next;
+      })
+    } : img));
+  };
+
+  const addOverlay = (layer: OverlayLayer, label: string) => {
+    if (!activeImage) return;
+    pushHistory({ overlays: [...activeImage.overlays, layer] }, activeImage.id, label);
+    setSelectedOverlayId(layer.id);
+  };
+
+  const addShapeOverlay = (kind: NewOverlay) => {
+    if (!imageSize) return;
+    const { width, height } = outputSize;
+    if (kind === 'text') addOverlay(createTextOverlay(width, height), 'Add Text');
+    if (kind === 'arrow') addOverlay(createArrowOverlay(width, height), 'Add Arrow');
+    if (kind === 'rect' || kind === 'ellipse') {
+      addOverlay(createShapeOverlay(kind, width, height), kind === 'rect' ? 'Add Rectangle' : 'Add Ellipse');
+    }
+  };
+
+  const addImageOverlay = async (file: File, watermark: boolean) => {
+    if (!activeImage || !imageSize) return;
+    try {
+      const src = await putBlob(file);
+      const img = await loadImage(src);
+      const { width, height } = outputSize;
+      addOverlay(
+        createImageOverlay(src, file.name, img.naturalWidth, img.naturalHeight, width, height, watermark),
+        watermark ? 'Add Watermark' : 'Add Sticker'
+      );
+    } catch {
+      showError(`Could not read ${file.name}.`);
+    }
+  };
+
+  const removeOverlay = (layerId: string) => {
+    if (!activeImage) return;
+    pushHistory({ overlays: activeImage.overlays.filter(layer => layer.id !== layerId) }, activeImage.id, 'Delete Layer');
+    if (selectedOverlayId === layerId) setSelectedOverlayId(null);
+  };
+
+  const moveOverlay = (layerId: string, direction: 1 | -1) => {
+    if (!activeImage) return;
+    const overlays = [...activeImage.overlays];
+    const from = overlays.findIndex(layer => layer.id === layerId);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= overlays.length) return;
+    [overlays[from], overlays[to]] = [overlays[to], overlays[from]];
+    pushHistory({ overlays }, activeImage.id, direction > 0 ? 'Bring Forward' : 'Send Backward');
+  };
+
+  // Image layers. Every change recomposites `current`; labelled changes become a
+  // history step, unlabelled ones (opacity drags) are committed on release.
+  const commitLayers = async (layers: PixelLayer[], label: string | null, patch: Partial<ImageState> = {}) => {
+    if (!activeImage) return;
+    const id = activeImage.id;
+    const token = ++compositeTokenRef.current;
+    setImages(prev => prev.map(img => img.id === id ? { ...img, layers } : img));
+    try {
+      const current = await compositeLayers(layers);
+      if (label) pushHistory({ ...patch, layers, current }, id, label);
+      else if (token === compositeTokenRef.current) {
+        setImages(prev => prev.map(img => img.id === id ? { ...img, current } : img));
+      }
+    } catch {
+      showError('Could not composite the layers.');
+    }
+  };
+
+  const updateLayer = (layerId: string, patch: Partial<PixelLayer>, label: string | null) => {
+    if (!activeImage) return;
+    commitLayers(activeImage.layers.map(layer => layer.id === layerId ? { ...layer, ...patch } : layer), label);
+  };
+
+  const commitLayerChange = (label: string) => {
+    if (activeImage && hasUncommittedChanges(activeImage)) commitLayers(activeImage.layers, label);
+  };
+
+  // Reordering or deleting invalidates the matte, which refines the top layer
+  const removeLayer = (layerId: string) => {
+    if (!activeImage || activeImage.layers.length < 2) return;
+    commitLayers(activeImage.layers.filter(layer => layer.id !== layerId), 'Delete Image Layer', { matte: null });
+    if (selectedLayerId === layerId) setSelectedLayerId(null);
+  };
+
+  const moveLayer = (layerId: string, direction: 1 | -1) => {
+    if (!activeImage) return;
+    const layers = [...activeImage.layers];
+    const from = layers.findIndex(layer => layer.id === layerId);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= layers.length) return;
+    [layers[from], layers[to]] = [layers[to], layers[from]];
+    commitLayers(layers, direction > 0 ? 'Raise Image Layer' : 'Lower Image Layer', { matte: null });
+  };
+
+  const maskLayerFromPaint = async (layerId: string) => {
+    if (!maskDataUrl) return;
+    try {
+      updateLayer(layerId, { mask: await maskFromPaint(maskDataUrl) }, 'Layer Mask');
+      clearMask();
+    } catch {
+      showError('Could not create the layer mask.');
+    }
+  };
+
+  const invertLayerMask = async (layerId: string) => {
+    const mask = activeImage?.layers.find(layer => layer.id === layerId)?.mask;
+    if (!mask) return;
+    try {
+      updateLayer(layerId, { mask: await invertMask(mask) }, 'Invert Mask');
+    } catch {
+      showError('Could not invert the layer mask.');
+    }
   };
 
   // 2. AI Processing
-  const handleAIEdit = async (mode: EditMode) => {
+  const handleAIEdit = (mode: EditMode, customModeId?: string) => {
     if (!activeImage || processing.isProcessing) return;
 
-    setProcessing({ isProcessing: true, error: null, mode });
+    // Edits build on the flattened layers (activeImage.current)
+    const customMode = aiConfig.customModes.find(m => m.id === customModeId);
+    const label = customMode ? customMode.name : describeEdit(mode, customPrompt);
+    const params: AIEditParams = {
+      mode,
+      options: {
+        backgroundColor: selectedBgColor,
+        backgroundImage: customBgImage,
+        backgroundPrompt,
+        prompt: customPrompt,
+        customModeId
+      },
+      matteStrategy,
+      inpaintMask: maskDataUrl,
+      layerName: label,
+      tiledEnhance
+    };
+
+    if (variationCount > 1) generateVariations(activeImage.id, params, label, variationCount);
+    else applyAIEdit(activeImage.id, params, label);
+  };
 
+  // Takes the image by id so a Retry from a notice works on its latest state
+  const applyAIEdit = async (imageId: string, params: AIEditParams, label: string) => {
+    const image = imagesRef.current.find(img => img.id === imageId);
+    if (!image || requestRef.current) return;
+    const control = beginRequest(params.mode);
     try {
-      // We always process the 'original' or 'current' AI base?
-      // Usually AI builds on AI. So we use activeImage.current.
-      // However, for background replace, we might need the object.
-      // Let's use activeImage.current as source.
-      
-      const resultBase64 = await performImageEdit(
-        activeImage.current!,
-        activeImage.mimeType,
-        mode,
-        { 
-          backgroundColor: selectedBgColor,
-          backgroundImage: customBgImage
-        }
-      );
+      const { patch } = await runAIEdit(image, { ...params, control });
+      // A result that lands just as the user cancels is dropped
+      if (control.signal!.aborted) return endRequest();
+      pushHistory(patch, imageId, label);
+      endRequest();
+      finishAIEdit(params.mode);
+    } catch (err) {
+      failRequest(err, () => applyAIEdit(imageId, params, label));
+    }
+  };
 
-      pushHistory({ current: resultBase64 }, activeImage.id);
-      setProcessing({ isProcessing: false, error: null, mode: null });
-      setCustomBgImage(null); // Reset after use
+  // Inputs that only apply to one edit are reset once its result is committed
+  const finishAIEdit = (mode: EditMode) => {
+    if (mode === EditMode.INPAINT) clearMask();
+    setCustomBgImage(null);
+  };
+
+  // Variations: several results of one edit, held until the user picks
+  const generateVariations = async (imageId: string, params: AIEditParams, label: string, count: number, previousUsage: (TokenUsage | null)[] = []) => {
+    const image = imagesRef.current.find(img => img.id === imageId);
+    if (!image || requestRef.current) return;
+    const control = beginRequest(params.mode);
+    try {
+      const { outcomes, usage } = await runAIEditVariations(image, { ...params, control }, count);
+      if (control.signal!.aborted) return endRequest();
+      setVariations({ imageId, label, params, outcomes, requested: count, usage: [...previousUsage, ...usage] });
+      endRequest();
+    } catch (err) {
+      failRequest(err, () => generateVariations(imageId, params, label, count, previousUsage));
+    }
+  };
+
+  const regenerateVariations = () => {
+    if (!variations || processing.isProcessing) return;
+    generateVariations(variations.imageId, variations.params, variations.label, variations.requested, variations.usage);
+  };
+
+  const pickVariation = (index: number) => {
+    if (!variations) return;
+    pushHistory(variations.outcomes[index].patch, variations.imageId, variations.label);
+    finishAIEdit(variations.params.mode);
+    setVariations(null);
+  };
+
+  // Each kept variation becomes a copy of the source image with the result applied
+  const keepVariations = (indices: number[]) => {
+    const source = variations && imagesRef.current.find(img => img.id === variations.imageId);
+    if (!variations || !source) return;
+    const copies = indices.map(i => ({
+      ...appendHistory(source, variations.outcomes[i].patch, variations.label),
+      id: Math.random().toString(36).substr(2, 9),
+      name: source.name.replace(/(\.[^.]*)?$/, ext => `-v${i + 1}${ext}`),
+    }));
+    setImages(prev => [...prev, ...copies]);
+    finishAIEdit(variations.params.mode);
+    setVariations(null);
+  };
+
+  // Matte refinement: sliders edit settings live, Apply re-renders the cut-out into history
+  const updateMatteSettings = (patch: Partial<MatteSettings>) => {
+    if (!activeImage?.matte) return;
+    setImages(prev => prev.map(img => img.id === activeImage.id && img.matte ? {
+      ...img,
+      matte: { ...img.matte, settings: { ...img.matte.settings, ...patch } }
+    } : img));
+  };
+
+  const applyMatteRefinement = async () => {
+    if (!activeImage?.matte || processing.isProcessing) return;
+    setProcessing({ isProcessing: true, mode: EditMode.REMOVE_BG, status: null });
+    try {
+      const matte = { ...activeImage.matte };
+      // The cut-out is the top layer until the stack is reordered, which drops the matte
+      const cutout = await internImage(await renderMatte(matte));
+      const top = activeImage.layers.length - 1;
+      const layers = activeImage.layers.map((layer, i) => i === top ? { ...layer, src: cutout } : layer);
+      pushHistory({ layers, current: await compositeLayers(layers), matte }, activeImage.id, 'Refine Edges');
+      setProcessing(IDLE_PROCESSING);
     } catch (err: any) {
-      setProcessing({ 
-        isProcessing: false, 
-        error: err.message || 'Processing failed.', 
-        mode: null 
-      });
+      setProcessing(IDLE_PROCESSING);
+      showError(err.message || 'Refinement failed.');
     }
   };
 
-  // 3. Custom Background Upload
-  const handleBgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        if (ev.target?.result) setCustomBgImage(ev.target.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleProviderChange = (id: string) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  // The mock is only the default for lack of a key, so move off it once one is added
+  const handleAISettingsSave = (config: AIConfig, connected: boolean) => {
+    setAIConfig(config);
+    if (connected && providerId === 'mock' && !process.env.IMAGE_PROVIDER) handleProviderChange('gemini');
+  };
+
+  // 3. Background candidates for Replace Background
+  const generateBackgrounds = async (prompt: string): Promise<string[]> => {
+    if (!activeImage || processing.isProcessing) return [];
+    const control = beginRequest(EditMode.BACKGROUND);
+    try {
+      const candidates = await generateBackgroundCandidates(activeImage, prompt, BACKGROUND_CANDIDATES, control);
+      endRequest();
+      return control.signal!.aborted ? [] : candidates;
+    } catch (err) {
+      // No Retry action: the candidates belong to the picker that asked for them
+      failRequest(err);
+      return [];
     }
   };
 
-  // -- Output Generation (Download/Share) --
-  // This renders the current state (Image + CSS Filters + Adjustments) to a canvas
-  const generateFinalImage = async (): Promise<string | null> => {
-    if (!activeImage || !canvasRef.current) return null;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.onload = () => {
-        // Initial setup
-        let sWidth = img.width;
-        let sHeight = img.height;
-        let sx = 0;
-        let sy = 0;
-
-        // Calculate Crop (Center Crop Logic)
-        if (cropConfig.aspectRatio) {
-           const imgRatio = img.width / img.height;
-           const targetRatio = cropConfig.aspectRatio;
-           
-           if (targetRatio > imgRatio) {
-               // Target is wider than image -> Crop Height (Top/Bottom)
-               sHeight = img.width / targetRatio;
-               sy = (img.height - sHeight) / 2;
-           } else {
-               // Target is taller/equal -> Crop Width (Left/Right)
-               sWidth = img.height * targetRatio;
-               sx = (img.width - sWidth) / 2;
-           }
-        }
+  // 4. Batch Processing
+  const handleThumbnailClick = (e: React.MouseEvent, id: string) => {
+    if (e.shiftKey && activeImageId) {
+      // Range from the active image to the clicked one
+      const ids = images.map(img => img.id);
+      const [a, b] = [ids.indexOf(activeImageId), ids.indexOf(id)].sort((x, y) => x - y);
+      setSelectedIds(Array.from(new Set([...selectedIds, ...ids.slice(a, b + 1)])));
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+      return;
+    }
+    setActiveImageId(id);
+  };
 
-        // Set canvas to the cropped size (or original if no crop)
-        canvas.width = sWidth;
-        canvas.height = sHeight;
-
-        // Apply filters via ctx.filter string
-        const adj = activeImage.adjustments;
-        const filters = [
-          `brightness(${adj.brightness}%)`,
-          `contrast(${adj.contrast}%)`,
-          `saturate(${adj.saturation}%)`,
-          `blur(${adj.blur}px)`
-        ];
-        
-        if (activeImage.filter === FilterType.GRAYSCALE) filters.push('grayscale(100%)');
-        if (activeImage.filter === FilterType.SEPIA) filters.push('sepia(100%)');
-        if (activeImage.filter === FilterType.VINTAGE) filters.push('sepia(50%) contrast(120%) brightness(90%)');
-        
-        ctx.filter = filters.join(' ');
-        
-        // Draw the cropped portion onto the full canvas area (0,0,width,height)
-        ctx.drawImage(img, sx, sy, sWidth, sHeight, 0, 0, canvas.width, canvas.height);
+  const enqueueForSelection = (label: string, build: (image: ImageState, signal: AbortSignal) => Promise<Partial<ImageState>>) => {
+    selectedIds.forEach(id => {
+      queueRef.current!.add(id, label, async (signal) => {
+        const image = imagesRef.current.find(img => img.id === id);
+        if (!image) throw new Error('Image no longer exists.');
+        const patch = await build(image, signal);
+        // A cancelled job may still finish in flight; drop its result
+        if (!signal.aborted) pushHistory(patch, id, label);
+      });
+    });
+  };
 
-        resolve(canvas.toDataURL(activeImage.mimeType));
-      };
-      img.src = activeImage.current!;
+  const batchApplyAI = (mode: EditMode, customModeId?: string) => {
+    const options = { backgroundColor: selectedBgColor, backgroundImage: customBgImage, backgroundPrompt, prompt: customPrompt, customModeId };
+    const customMode = aiConfig.customModes.find(m => m.id === customModeId);
+    const label = customMode ? customMode.name : describeEdit(mode, customPrompt);
+    enqueueForSelection(label, async (image, signal) => (
+      await runAIEdit(image, { mode, options, matteStrategy, layerName: label, tiledEnhance, control: { signal } })
+    ).patch);
+  };
+
+  const batchCopySettings = (what: 'filter' | 'adjustments' | 'crop') => {
+    if (!activeImage) return;
+    const source = activeImage;
+    enqueueForSelection(`Copy ${what[0].toUpperCase()}${what.slice(1)}`, async image => {
+      if (what === 'filter') return { filter: source.filter };
+      if (what === 'adjustments') return { adjustments: { ...source.adjustments } };
+      // A locked ratio must be refit to each image's own frame
+      const crop = { ...source.crop };
+      if (crop.aspectRatio) {
+        const img = await loadImage(image.current!);
+        const frame = getFrameSize(img.naturalWidth, img.naturalHeight, crop);
+        crop.rect = fitRectToAspect(frame.width, frame.height, crop.aspectRatio);
+      }
+      return { crop };
     });
   };
 
-  const handleDownload = async () => {
-    const finalUrl = await generateFinalImage();
-    if (finalUrl) {
-      const link = document.createElement('a');
-      link.href = finalUrl;
-      link.download = `gemini-edit-${Date.now()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const exportSelectedZip = async () => {
+    const targets = images.filter(img => selectedIds.includes(img.id));
+    if (targets.length === 0) return;
+    const settings = loadExportSettings();
+    const entries: ZipEntry[] = [];
+    let keptTransparent = 0;
+    try {
+      for (let i = 0; i < targets.length; i++) {
+        setZipStatus(`Rendering ${i + 1}/${targets.length}...`);
+        const { canvas, hasAlpha } = await renderImage(targets[i]);
+        // JPEG would flatten cut-outs, so those are saved as PNG instead
+        const flatten = hasAlpha && settings.format === 'image/jpeg';
+        const format = flatten ? 'image/png' : settings.format;
+        if (flatten) keptTransparent++;
+        const { blob, width, height } = await encodeExport(canvas, { ...settings, format });
+        entries.push({
+          name: formatFilename(settings.filenameTemplate, { name: targets[i].name, width, height, format }),
+          data: new Uint8Array(await blob.arrayBuffer())
+        });
+      }
+      const names = uniqueNames(entries.map(e => e.name));
+      const zip = createZip(entries.map((e, i) => ({ ...e, name: names[i] })));
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+      downloadBlob(zip, `gemini-lens-${stamp}.zip`);
+      if (keptTransparent > 0) {
+        notify({ tone: 'info', title: `${keptTransparent} transparent image${keptTransparent > 1 ? 's' : ''} saved as PNG`, message: 'JPEG has no transparency.' });
+      }
+    } catch (err: any) {
+      showError(err.message || 'Export failed.');
+    } finally {
+      setZipStatus(null);
     }
   };
 
+  // -- Output Generation (Download/Share) --
+  // This renders the current state (Image + CSS Filters + Adjustments) to a canvas
+  const generateFinalImage = async (): Promise<RenderedImage | null> => {
+    if (!activeImage || !canvasRef.current) return null;
+    return renderImage(activeImage, canvasRef.current);
+  };
+
+  const handleDownload = async () => {
+    const rendered = await generateFinalImage();
+    if (rendered) setExportSource(rendered);
+  };
+
   const handleShare = async () => {
-    const finalUrl = await generateFinalImage();
-    if (finalUrl && navigator.share) {
-      // Convert DataURL to Blob for sharing
-      const res = await fetch(finalUrl);
-      const blob = await res.blob();
-      const file = new File([blob], 'edited-image.png', { type: 'image/png' });
+    const rendered = await generateFinalImage();
+    if (rendered && activeImage && navigator.share) {
+      // Never flatten an alpha channel into a format that can't hold it
+      const format = rendered.hasAlpha || activeImage.mimeType !== 'image/jpeg' ? 'image/png' : 'image/jpeg';
+      const blob = await canvasToBlob(rendered.canvas, format, DEFAULT_EXPORT_SETTINGS.quality);
+      const name = formatFilename(DEFAULT_EXPORT_SETTINGS.filenameTemplate, {
+        name: activeImage.name,
+        width: rendered.canvas.width,
+        height: rendered.canvas.height,
+        format
+      });
+      const file = new File([blob], name, { type: format });
       
       try {
         await navigator.share({
@@ -353,13 +1037,49 @@ const App = () => {
     }
   };
 
-  // -- Render Helper: CSS Filter String --
-  const getCssFilterString = (adj: Adjustments, type: FilterType) => {
-    let s = `brightness(${adj.brightness}%) contrast(${adj.contrast}%) saturate(${adj.saturation}%) blur(${adj.blur}px) `;
-    if (type === FilterType.GRAYSCALE) s += 'grayscale(100%)';
-    if (type === FilterType.SEPIA) s += 'sepia(100%)';
-    if (type === FilterType.VINTAGE) s += 'sepia(50%) contrast(120%) brightness(90%)';
-    return s;
+  // -- Viewport Inspection --
+  // Samples a full-resolution render (cached per image state) so the readout
+  // matches export, including crop, filters and adjustments.
+  const handlePointerInfo = async (point: { x: number; y: number } | null) => {
+    if (!point || !activeImage) {
+      setPixelReadout(null);
+      return;
+    }
+    const source = activeImage;
+    if (sampleRef.current?.source !== source) {
+      sampleRef.current = {
+        source,
+        pixels: renderImage(source).then(({ canvas }) => canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height))
+      };
+    }
+    const pixels = await sampleRef.current.pixels;
+    if (sampleRef.current?.source !== source) return;
+    const x = Math.min(pixels.width - 1, Math.floor(point.x * pixels.width));
+    const y = Math.min(pixels.height - 1, Math.floor(point.y * pixels.height));
+    const i = (y * pixels.width + x) * 4;
+    setPixelReadout({ x, y, r: pixels.data[i], g: pixels.data[i + 1], b: pixels.data[i + 2], a: pixels.data[i + 3] });
+  };
+
+  const setPixelScale = (scale: number) => {
+    if (!activeImage || !imageSize || !viewLayout) return;
+    const { width } = getOutputSize(imageSize.width, imageSize.height, activeImage.crop);
+    setView(zoomAround(view, zoomForPixelScale(scale, viewLayout, width), 0, 0));
+  };
+
+  // -- Render Helper: what the compare views show as "before" --
+  const getCompareBefore = (img: ImageState): ComparePane => {
+    const entry = compareEntryId ? img.history.find(e => e.id === compareEntryId) : undefined;
+    if (entry) {
+      return { src: entry.current!, adjustments: entry.adjustments, filter: entry.filter, label: entry.label };
+    }
+    return { src: img.original!, adjustments: DEFAULT_ADJUSTMENTS, filter: FilterType.NONE, label: 'Original' };
+  };
+
+  // -- Render Helper: locked crop ratio expressed in normalized frame units --
+  const getNormalizedCropRatio = (crop: CropSettings, size: { width: number; height: number }) => {
+    if (!crop.aspectRatio) return null;
+    const frame = getFrameSize(size.width, size.height, crop);
+    return crop.aspectRatio * frame.height / frame.width;
   };
 
   // --- Main Render ---
@@ -375,13 +1095,44 @@ const App = () => {
         <div className="flex items-center space-x-2">
           <div className="text-primary-500"><SparklesIcon /></div>
           <span className="font-bold text-lg tracking-tight bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-400">Gemini Lens</span>
+          <button onClick={openProjectList} className="p-2 ml-2 text-gray-400 hover:text-white" title="Projects"><FolderIcon /></button>
+          {project && (
+            <>
+              <input
+                value={project.name}
+                onChange={(e) => setProject({ ...project, name: e.target.value })}
+                className="w-40 bg-transparent border border-transparent hover:border-gray-700 focus:border-primary-500 rounded px-2 py-1 text-sm text-gray-300 focus:outline-none"
+                title="Project name"
+              />
+              <span className={`text-[10px] ${saveStatus === 'error' ? 'text-red-400' : 'text-gray-500'}`}>
+                {saveStatus === 'saving' ? 'Saving…' : saveStatus === 'saved' ? 'Saved' : saveStatus === 'error' ? 'Not saved' : ''}
+              </span>
+            </>
+          )}
         </div>
 
         <div className="flex items-center space-x-2">
+          <select
+            value={providerId}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            disabled={processing.isProcessing}
+            className="bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 px-2 py-1.5 focus:outline-none focus:border-primary-500"
+            title="AI backend"
+          >
+            {listProviders().map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {sessionUsage.requests > 0 && (
+            <button onClick={() => setAISettingsTab('usage')} className="px-2 text-[10px] text-gray-500 hover:text-gray-300" title="AI usage this session">
+              {formatCost(sessionUsage.cost)}
+            </button>
+          )}
+          <button onClick={() => setAISettingsTab('prompts')} className="p-2 text-gray-400 hover:text-white" title="AI settings"><CogIcon /></button>
           {activeImage && (
             <>
-              <button onClick={undo} disabled={activeImage.historyIndex === 0 || processing.isProcessing} className="p-2 text-gray-400 hover:text-white disabled:opacity-30"><UndoIcon /></button>
-              <button onClick={redo} disabled={activeImage.historyIndex === activeImage.history.length - 1 || processing.isProcessing} className="p-2 text-gray-400 hover:text-white disabled:opacity-30"><RedoIcon /></button>
+              <button onClick={undo} disabled={getUndoIndex(activeImage) < 0 || processing.isProcessing} className="p-2 text-gray-400 hover:text-white disabled:opacity-30"><UndoIcon /></button>
+              <button onClick={redo} disabled={getRedoIndex(activeImage) < 0 || processing.isProcessing} className="p-2 text-gray-400 hover:text-white disabled:opacity-30"><RedoIcon /></button>
               <div className="w-px h-6 bg-gray-700 mx-2"></div>
               <button onClick={handleShare} className="p-2 text-gray-400 hover:text-primary-400"><ShareIcon /></button>
               <button 
@@ -407,6 +1158,12 @@ const App = () => {
             isActive={activeToolTab === 'magic'} 
             onClick={() => setActiveToolTab('magic')} 
           />
+          <ToolButton 
+            icon={<BrushIcon />} 
+            label="Inpaint" 
+            isActive={activeToolTab === 'inpaint'} 
+            onClick={() => setActiveToolTab('inpaint')} 
+          />
           <ToolButton 
             icon={<SlidersIcon />} 
             label="Adjust" 
@@ -425,6 +1182,24 @@ const App = () => {
             isActive={activeToolTab === 'crop'} 
             onClick={() => setActiveToolTab('crop')} 
           />
+          <ToolButton 
+            icon={<LayersIcon />} 
+            label="Layers" 
+            isActive={activeToolTab === 'layers'} 
+            onClick={() => setActiveToolTab('layers')} 
+          />
+          <ToolButton 
+            icon={<StackIcon />} 
+            label="Batch" 
+            isActive={activeToolTab === 'batch'} 
+            onClick={() => setActiveToolTab('batch')} 
+          />
+          <ToolButton 
+            icon={<HistoryIcon />} 
+            label="History" 
+            isActive={activeToolTab === 'history'} 
+            onClick={() => setActiveToolTab('history')} 
+          />
         </aside>
 
         {/* Tools Panel (Sub-sidebar) */}
@@ -433,6 +1208,21 @@ const App = () => {
             
             {activeToolTab === 'magic' && (
               <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-gray-400 font-medium">Results per edit</span>
+                  <div className="flex space-x-1">
+                    {VARIATION_COUNTS.map(count => (
+                      <button
+                        key={count}
+                        onClick={() => setVariationCount(count)}
+                        className={`w-7 py-1 rounded text-xs ${variationCount === count ? 'bg-primary-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 <div>
                   <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">AI Generation</h3>
                   <div className="space-y-2">
@@ -444,9 +1234,13 @@ const App = () => {
                       <SparklesIcon />
                       <div>
                         <div className="font-semibold text-sm">Auto Enhance</div>
-                        <div className="text-xs text-gray-500">4K Upscale & Fix</div>
+                        <div className="text-xs text-gray-500">{tiledEnhance ? 'Tiled Upscale & Fix' : '4K Upscale & Fix'}</div>
                       </div>
                     </button>
+                    <label className="flex items-center space-x-2 px-1 pb-1 text-xs text-gray-400 cursor-pointer" title="Enhances large images in overlapping tiles for up to 4× the resolution. Uses one request per tile.">
+                      <input type="checkbox" checked={tiledEnhance} onChange={(e) => setTiledEnhance(e.target.checked)} className="accent-primary-500" />
+                      <span>Tiled upscale (large images)</span>
+                    </label>
                     <button 
                        onClick={() => handleAIEdit(EditMode.PIXEL_ART)}
                        disabled={processing.isProcessing}
@@ -461,61 +1255,186 @@ const App = () => {
                     >
                       Anime Style
                     </button>
+                    {aiConfig.customModes.map(mode => (
+                      <button
+                        key={mode.id}
+                        onClick={() => handleAIEdit(EditMode.CUSTOM_MODE, mode.id)}
+                        disabled={processing.isProcessing}
+                        className="w-full text-left px-4 py-3 rounded-xl bg-gray-800 hover:bg-gray-750 border border-gray-700 text-sm font-medium truncate"
+                        title={mode.prompt}
+                      >
+                        {mode.name}
+                      </button>
+                    ))}
                   </div>
                 </div>
 
+                <div>
+                  <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Custom Prompt</h3>
+                  <PromptPanel
+                    prompt={customPrompt}
+                    onPromptChange={setCustomPrompt}
+                    onApply={() => handleAIEdit(EditMode.CUSTOM)}
+                    recentPrompts={activeImage.recentPrompts}
+                    disabled={processing.isProcessing}
+                  />
+                </div>
+
                 <div>
                    <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Background</h3>
-                   <button 
-                       onClick={() => handleAIEdit(EditMode.REMOVE_BG)}
-                       disabled={processing.isProcessing}
-                       className="w-full mb-3 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-750 border border-gray-700 text-sm font-medium text-left"
-                    >
-                      Remove Background
-                    </button>
-                    
-                    <div className="p-3 bg-gray-800 rounded-xl border border-gray-700">
-                      <div className="text-xs font-semibold mb-2">Replace Background</div>
-                      <div className="grid grid-cols-5 gap-2 mb-3">
-                        {BACKGROUND_OPTIONS.map(opt => (
+                   <div className="mb-3 p-3 bg-gray-800 rounded-xl border border-gray-700">
+                      <button 
+                         onClick={() => handleAIEdit(EditMode.REMOVE_BG)}
+                         disabled={processing.isProcessing}
+                         className="w-full mb-3 px-4 py-2 rounded-lg bg-gray-750 hover:bg-gray-700 border border-gray-700 text-sm font-medium text-left"
+                      >
+                        Remove Background
+                      </button>
+                      <div className="grid grid-cols-2 gap-2 text-[10px] font-medium uppercase tracking-wide">
+                        {([['matte', 'AI Matte'], ['whiteKey', 'White Key']] as [MatteStrategy, string][]).map(([value, label]) => (
                           <button
-                            key={opt.value}
-                            onClick={() => { setSelectedBgColor(opt.value); setCustomBgImage(null); }}
-                            className={`w-8 h-8 rounded-full border-2 ${selectedBgColor === opt.value && !customBgImage ? 'border-white ring-2 ring-primary-500' : 'border-transparent'}`}
-                            style={{ background: opt.value }}
-                            title={opt.name}
-                          />
+                            key={value}
+                            onClick={() => setMatteStrategy(value)}
+                            className={`py-1.5 rounded-lg border ${matteStrategy === value ? 'bg-primary-600/20 border-primary-500 text-white' : 'border-gray-700 text-gray-400'}`}
+                          >
+                            {label}
+                          </button>
                         ))}
                       </div>
-                      <div className="mb-3">
-                        <label className="block w-full text-center px-3 py-2 border border-dashed border-gray-600 rounded-lg text-xs text-gray-400 hover:bg-gray-700 cursor-pointer">
-                          {customBgImage ? 'Image Selected' : 'Upload Custom BG'}
-                          <input type="file" ref={bgFileInputRef} onChange={handleBgUpload} className="hidden" accept="image/*" />
-                        </label>
-                      </div>
-                      <button 
-                        onClick={() => handleAIEdit(EditMode.REPLACE_BG)}
-                        disabled={processing.isProcessing}
-                        className="w-full py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold uppercase tracking-wide"
+
+                      {activeImage.matte && (
+                        <div className="mt-4 pt-4 border-t border-gray-700">
+                          <div className="text-xs font-semibold mb-3">Refine Edges</div>
+                          <SliderControl label="Feather" value={activeImage.matte.settings.feather} min={0} max={20} onChange={(v) => updateMatteSettings({ feather: v })} />
+                          <SliderControl label="Choke" value={activeImage.matte.settings.choke} min={-10} max={10} onChange={(v) => updateMatteSettings({ choke: v })} />
+                          <label className="flex items-center space-x-2 mb-3 text-xs text-gray-400 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={activeImage.matte.settings.decontaminate}
+                              onChange={(e) => updateMatteSettings({ decontaminate: e.target.checked })}
+                              className="accent-primary-500"
+                            />
+                            <span>Decontaminate edge fringe</span>
+                          </label>
+                          <button
+                            onClick={applyMatteRefinement}
+                            disabled={processing.isProcessing}
+                            className="w-full py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs font-bold uppercase tracking-wide"
+                          >
+                            Apply Refinement
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    
+                    <BackgroundPicker
+                      selectedColor={selectedBgColor}
+                      customImage={customBgImage}
+                      prompt={backgroundPrompt}
+                      disabled={processing.isProcessing}
+                      onSelectColor={(value) => { setSelectedBgColor(value); setCustomBgImage(null); setBackgroundPrompt(''); }}
+                      onSelectImage={setCustomBgImage}
+                      onPromptChange={(text) => { setBackgroundPrompt(text); setCustomBgImage(null); }}
+                      onGenerate={generateBackgrounds}
+                      onApply={() => handleAIEdit(EditMode.REPLACE_BG)}
+                      onError={showError}
+                    />
+                </div>
+              </div>
+            )}
+
+            {activeToolTab === 'inpaint' && (
+              <div className="space-y-6">
+                <div>
+                  <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Mask</h3>
+                  <div className="grid grid-cols-3 gap-2 mb-4">
+                    {(['brush', 'eraser', 'lasso'] as MaskTool[]).map(tool => (
+                      <button
+                        key={tool}
+                        onClick={() => setMaskTool(tool)}
+                        className={`py-2 rounded-lg border text-xs font-medium capitalize
+                          ${maskTool === tool ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-750'}
+                        `}
                       >
-                        Apply Replace
+                        {tool}
                       </button>
-                    </div>
+                    ))}
+                  </div>
+                  {maskTool !== 'lasso' && (
+                    <SliderControl label="Brush Size" value={brushSize} min={5} max={150} onChange={setBrushSize} />
+                  )}
+                  <button
+                    onClick={clearMask}
+                    disabled={!maskDataUrl}
+                    className="w-full py-2 rounded-lg bg-gray-800 hover:bg-gray-750 border border-gray-700 text-xs font-medium disabled:opacity-40"
+                  >
+                    Clear Mask
+                  </button>
+                  <p className="text-xs text-gray-500 mt-3">
+                    {maskDataUrl ? 'Only the painted area will change.' : 'Paint over the region you want to edit.'}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Instruction</h3>
+                  <PromptPanel
+                    prompt={customPrompt}
+                    onPromptChange={setCustomPrompt}
+                    onApply={() => handleAIEdit(EditMode.INPAINT)}
+                    recentPrompts={activeImage.recentPrompts}
+                    disabled={processing.isProcessing || !maskDataUrl}
+                  />
                 </div>
               </div>
             )}
 
             {activeToolTab === 'adjust' && (
               <div className="space-y-6">
-                <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Light & Color</h3>
-                <SliderControl label="Brightness" value={activeImage.adjustments.brightness} min={0} max={200} onChange={(v) => updateAdjustment('brightness', v)} />
-                <SliderControl label="Contrast" value={activeImage.adjustments.contrast} min={0} max={200} onChange={(v) => updateAdjustment('contrast', v)} />
-                <SliderControl label="Saturation" value={activeImage.adjustments.saturation} min={0} max={200} onChange={(v) => updateAdjustment('saturation', v)} />
-                <SliderControl label="Blur" value={activeImage.adjustments.blur} min={0} max={10} onChange={(v) => updateAdjustment('blur', v)} />
+                <HistogramPanel image={activeImage} />
+                {(['Light', 'Color', 'Detail & Effects'] as AdjustmentGroup[]).map(group => (
+                  <div key={group}>
+                    <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">{group}</h3>
+                    {ADJUSTMENT_CONTROLS.filter(control => control.group === group).map(({ key, label, min, max }) => (
+                      <div key={key}>
+                        <SliderControl
+                          label={label}
+                          value={activeImage.adjustments[key]}
+                          min={min}
+                          max={max}
+                          onChange={(v) => updateAdjustment(key, v)}
+                          onChangeEnd={() => commitAdjustment(`${label} ${activeImage.adjustments[key]}`)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                <div>
+                  <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Curves</h3>
+                  <CurvesEditor
+                    curves={activeImage.adjustments.curves}
+                    onChange={(curves) => updateAdjustment('curves', curves)}
+                    onChangeEnd={() => commitAdjustment('Curves')}
+                  />
+                </div>
+                <div>
+                  <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Levels</h3>
+                  <LevelsEditor
+                    levels={activeImage.adjustments.levels}
+                    onChange={(levels) => updateAdjustment('levels', levels)}
+                    onChangeEnd={() => commitAdjustment('Levels')}
+                  />
+                </div>
+                <button
+                  onClick={resetAdjustments}
+                  className="w-full py-2 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+                >
+                  Reset Adjustments
+                </button>
               </div>
             )}
 
             {activeToolTab === 'filters' && (
+              <div className="space-y-6">
                <div className="grid grid-cols-2 gap-3">
                  {Object.values(FilterType).map(f => (
                    <button
@@ -529,26 +1448,124 @@ const App = () => {
                    </button>
                  ))}
                </div>
+               <PresetPanel
+                 image={activeImage}
+                 imageCount={images.length}
+                 onImportLut={importLut}
+                 onRemoveLut={removeLut}
+                 onApply={applyPreset}
+                 onError={showError}
+               />
+              </div>
+            )}
+
+            {activeToolTab === 'layers' && (
+              <div className="space-y-6">
+                <LayerStackPanel
+                  layers={activeImage.layers}
+                  selectedId={selectedLayerId}
+                  hasPaintedMask={!!maskDataUrl}
+                  onSelect={setSelectedLayerId}
+                  onUpdate={updateLayer}
+                  onCommit={commitLayerChange}
+                  onMaskFromPaint={maskLayerFromPaint}
+                  onInvertMask={invertLayerMask}
+                  onRemove={removeLayer}
+                  onMove={moveLayer}
+                />
+                <OverlayPanel
+                  overlays={activeImage.overlays}
+                  selectedId={selectedOverlayId}
+                  onSelect={setSelectedOverlayId}
+                  onAdd={addShapeOverlay}
+                  onAddImage={addImageOverlay}
+                  onChange={updateOverlay}
+                  onCommit={commitOverlays}
+                  onRemove={removeOverlay}
+                  onMove={moveOverlay}
+                />
+              </div>
+            )}
+
+            {activeToolTab === 'batch' && (
+              <BatchPanel
+                selectedCount={selectedIds.length}
+                jobs={jobs}
+                imageNames={Object.fromEntries(images.map(img => [img.id, img.name]))}
+                canUseCustomPrompt={customPrompt.trim().length > 0}
+                customModes={aiConfig.customModes}
+                exportStatus={zipStatus}
+                onApplyAI={batchApplyAI}
+                onCopySettings={batchCopySettings}
+                onExportZip={exportSelectedZip}
+                onCancel={(id) => queueRef.current!.cancel(id)}
+                onCancelAll={() => queueRef.current!.cancelAll()}
+                onRetry={(id) => queueRef.current!.retry(id)}
+                onClearFinished={() => queueRef.current!.clearFinished()}
+              />
+            )}
+
+            {activeToolTab === 'history' && (
+              <HistoryPanel
+                history={activeImage.history}
+                historyIndex={activeImage.historyIndex}
+                disabled={processing.isProcessing}
+                onJump={jumpToHistory}
+              />
             )}
 
             {activeToolTab === 'crop' && (
-              <div>
-                <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Aspect Ratio</h3>
-                <div className="space-y-2">
-                  {ASPECT_RATIOS.map(ratio => (
+              <div className="space-y-6">
+                <div>
+                  <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Aspect Ratio</h3>
+                  <div className="space-y-2">
+                    {ASPECT_RATIOS.map(ratio => (
+                      <button
+                        key={ratio.name}
+                        onClick={() => setCropAspect(ratio.value)}
+                        className={`w-full text-left px-4 py-3 rounded-lg border 
+                          ${activeImage.crop.aspectRatio === ratio.value ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}
+                        `}
+                      >
+                        {ratio.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">Rotate & Flip</h3>
+                  <div className="grid grid-cols-2 gap-2 mb-4">
+                    <button onClick={() => rotateCrop(-90)} className="py-2 rounded-lg bg-gray-800 hover:bg-gray-750 border border-gray-700 text-xs font-medium">⟲ 90°</button>
+                    <button onClick={() => rotateCrop(90)} className="py-2 rounded-lg bg-gray-800 hover:bg-gray-750 border border-gray-700 text-xs font-medium">⟳ 90°</button>
                     <button
-                      key={ratio.name}
-                      onClick={() => setCropConfig({ ...cropConfig, aspectRatio: ratio.value })}
-                      className={`w-full text-left px-4 py-3 rounded-lg border 
-                        ${cropConfig.aspectRatio === ratio.value ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}
-                      `}
+                      onClick={() => flipCrop(true)}
+                      className={`py-2 rounded-lg border text-xs font-medium ${activeImage.crop.flipH ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 hover:bg-gray-750 border-gray-700'}`}
                     >
-                      {ratio.name}
+                      Flip H
                     </button>
-                  ))}
-                  <p className="text-xs text-gray-500 mt-4 text-primary-400">
-                    {cropConfig.aspectRatio ? 'Crop active. Previewing Center Crop.' : 'Original Aspect Ratio'}
-                  </p>
+                    <button
+                      onClick={() => flipCrop(false)}
+                      className={`py-2 rounded-lg border text-xs font-medium ${activeImage.crop.flipV ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 hover:bg-gray-750 border-gray-700'}`}
+                    >
+                      Flip V
+                    </button>
+                  </div>
+                  <SliderControl
+                    label="Straighten"
+                    value={activeImage.crop.straighten}
+                    min={-45}
+                    max={45}
+                    onChange={(v) => updateCrop({ straighten: v }, null)}
+                    onChangeEnd={commitCrop}
+                  />
+                  <button
+                    onClick={() => updateCrop({ ...DEFAULT_CROP }, 'Reset Crop')}
+                    className="w-full py-2 rounded-lg bg-gray-800 hover:bg-gray-750 border border-gray-700 text-xs font-medium"
+                  >
+                    Reset
+                  </button>
+                  <p className="text-xs text-gray-500 mt-4">Drag the handles on the image to crop.</p>
                 </div>
               </div>
             )}
@@ -568,36 +1585,176 @@ const App = () => {
             }}></div>
 
             {activeImage ? (
-              <div className="relative shadow-2xl shadow-black/50 max-h-full max-w-full flex items-center justify-center">
+              <div className="relative w-full h-full flex items-center justify-center">
                 {processing.isProcessing && (
                   <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg">
                     <Spinner />
                     <p className="mt-4 text-white font-medium animate-pulse">Processing...</p>
+                    {processing.status && <p className="mt-2 text-xs text-gray-300">{processing.status}</p>}
+                    {requestRef.current && (
+                      <button
+                        onClick={() => requestRef.current?.abort()}
+                        className="mt-4 px-4 py-1.5 rounded-full border border-gray-500 text-xs text-gray-200 hover:bg-white/10"
+                      >
+                        Cancel
+                      </button>
+                    )}
                   </div>
                 )}
                 
-                {/* Image Container with Crop Preview */}
-                <div 
-                  className="relative overflow-hidden transition-all duration-300 ease-in-out border-2 border-transparent"
-                  style={{
-                    // If crop is active, enforce the aspect ratio on the container
-                    aspectRatio: cropConfig.aspectRatio ? `${cropConfig.aspectRatio}` : 'auto',
-                    // Logic to ensure it fits within the viewport while maintaining aspect ratio
-                    maxHeight: 'calc(100vh - 12rem)',
-                    maxWidth: '100%',
-                    borderColor: cropConfig.aspectRatio ? '#3b82f6' : 'transparent',
-                    boxShadow: cropConfig.aspectRatio ? '0 0 0 1000px rgba(0,0,0,0.5)' : 'none' // Focus effect
-                  }}
-                >
-                  <img 
-                    src={activeImage.current!} 
-                    alt="Work in progress"
-                    className="w-full h-full object-cover" 
-                    style={{
-                      filter: getCssFilterString(activeImage.adjustments, activeImage.filter),
-                    }}
+                {activeToolTab === 'inpaint' || !imageSize ? (
+                  // Untransformed view: masks are painted in source-pixel space
+                  <div 
+                    className="relative overflow-hidden shadow-2xl shadow-black/50"
+                    style={{ ...CHECKERBOARD_STYLE, maxHeight: 'calc(100vh - 12rem)', maxWidth: '100%' }}
+                  >
+                    <img 
+                      src={activeImage.current!} 
+                      alt="Work in progress"
+                      className="w-full h-full object-cover" 
+                      onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                    />
+                    {activeToolTab === 'inpaint' && imageSize && (
+                      <MaskCanvas
+                        resetKey={maskKey}
+                        initialMask={maskDataUrl}
+                        width={imageSize.width}
+                        height={imageSize.height}
+                        tool={maskTool}
+                        brushSize={brushSize}
+                        onChange={setMaskDataUrl}
+                      />
+                    )}
+                  </div>
+                ) : canCompare && compareMode !== 'off' ? (
+                  <CompareView
+                    mode={compareMode}
+                    before={getCompareBefore(activeImage)}
+                    after={{ src: activeImage.current!, adjustments: activeImage.adjustments, filter: activeImage.filter, label: 'Current' }}
+                    imageSize={imageSize}
+                    crop={activeImage.crop}
+                    split={compareSplit}
+                    onSplitChange={setCompareSplit}
+                    view={view}
+                    onViewChange={setView}
+                    frameStyle={CHECKERBOARD_STYLE}
                   />
-                </div>
+                ) : activeToolTab === 'crop' ? (
+                  <ImageFrame
+                    src={activeImage.current!}
+                    imageSize={imageSize}
+                    crop={activeImage.crop}
+                    showFullFrame
+                    adjustments={activeImage.adjustments}
+                    filterType={activeImage.filter}
+                    style={{ ...CHECKERBOARD_STYLE, boxShadow: '0 25px 50px -12px rgba(0,0,0,0.5)' }}
+                    onSize={setImageSize}
+                  >
+                    <CropOverlay
+                      rect={activeImage.crop.rect ?? FULL_RECT}
+                      ratio={getNormalizedCropRatio(activeImage.crop, imageSize)}
+                      onCommit={(rect) => updateCrop({ rect }, 'Crop')}
+                    />
+                  </ImageFrame>
+                ) : (
+                  <>
+                    <PanZoomSurface
+                      view={view}
+                      onViewChange={setView}
+                      onLayout={setViewLayout}
+                      onPointerInfo={handlePointerInfo}
+                      className="w-full h-full"
+                    >
+                      <ImageFrame
+                        src={showingBefore ? getCompareBefore(activeImage).src : activeImage.current!}
+                        imageSize={imageSize}
+                        crop={activeImage.crop}
+                        showFullFrame={false}
+                        adjustments={showingBefore ? getCompareBefore(activeImage).adjustments : activeImage.adjustments}
+                        filterType={showingBefore ? getCompareBefore(activeImage).filter : activeImage.filter}
+                        pixelated={pixelScale >= 1}
+                        style={{ ...CHECKERBOARD_STYLE, boxShadow: '0 25px 50px -12px rgba(0,0,0,0.5)' }}
+                        onSize={(size) => !showingBefore && setImageSize(size)}
+                      >
+                        {!showingBefore && (
+                          <OverlayStage
+                            overlays={activeImage.overlays}
+                            interactive={activeToolTab === 'layers'}
+                            selectedId={selectedOverlayId}
+                            onSelect={setSelectedOverlayId}
+                            onChange={updateOverlay}
+                            onCommit={commitOverlays}
+                          />
+                        )}
+                        {pixelScale >= PIXEL_GRID_MIN_SCALE && (
+                          <div
+                            className="absolute inset-0 pointer-events-none"
+                            style={{
+                              backgroundImage: `linear-gradient(to right, rgba(255,255,255,0.25) ${1 / view.zoom}px, transparent ${1 / view.zoom}px), linear-gradient(to bottom, rgba(255,255,255,0.25) ${1 / view.zoom}px, transparent ${1 / view.zoom}px)`,
+                              backgroundSize: `${100 / outputSize.width}% ${100 / outputSize.height}%`,
+                            }}
+                          />
+                        )}
+                      </ImageFrame>
+                    </PanZoomSurface>
+                    <ViewportControls
+                      pixelScale={pixelScale}
+                      onFit={() => setView(IDENTITY_VIEW)}
+                      onPixelScale={setPixelScale}
+                      readout={pixelReadout}
+                      minimap={viewLayout && (visibleRect.width < 0.999 || visibleRect.height < 0.999) ? {
+                        preview: (
+                          <ImageFrame
+                            src={activeImage.current!}
+                            imageSize={imageSize}
+                            crop={activeImage.crop}
+                            showFullFrame={false}
+                            adjustments={activeImage.adjustments}
+                            filterType={activeImage.filter}
+                            maxSize={MINIMAP_PREVIEW_SIZE}
+                          />
+                        ),
+                        aspect: outputSize.width / outputSize.height,
+                        visible: visibleRect,
+                        onNavigate: (x, y) => setView(centerOn(view, viewLayout, x, y))
+                      } : null}
+                    />
+                  </>
+                )}
+
+                {canCompare && (
+                  <div className="absolute -top-6 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-1 bg-gray-900/90 border border-gray-700 rounded-full px-2 py-1 shadow-lg text-xs">
+                    {([['split', 'Split'], ['sideBySide', 'Side by side']] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setCompareMode(compareMode === mode ? 'off' : mode)}
+                        className={`px-3 py-1 rounded-full ${compareMode === mode ? 'bg-primary-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <select
+                      value={compareEntryId ?? ''}
+                      onChange={(e) => setCompareEntryId(e.target.value || null)}
+                      className="max-w-[10rem] bg-gray-800 border border-gray-700 rounded-full text-gray-300 px-2 py-1 focus:outline-none"
+                      title="Compare against"
+                    >
+                      <option value="">Original</option>
+                      {activeImage.history.map(entry => (
+                        <option key={entry.id} value={entry.id}>{entry.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onPointerDown={() => setIsHoldingOriginal(true)}
+                      onPointerUp={() => setIsHoldingOriginal(false)}
+                      onPointerLeave={() => setIsHoldingOriginal(false)}
+                      className={`px-3 py-1 rounded-full select-none ${showingBefore ? 'bg-white text-black' : 'text-gray-400 hover:text-white'}`}
+                      title="Hold to show the comparison image (or hold the \ key)"
+                    >
+                      Hold
+                    </button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center">
@@ -630,25 +1787,130 @@ const App = () => {
                >
                  <AddImageIcon />
                </div>
-               {images.map(img => (
-                 <div 
-                  key={img.id}
-                  onClick={() => setActiveImageId(img.id)}
-                  className={`relative w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden border-2 cursor-pointer transition-all ${activeImageId === img.id ? 'border-primary-500 ring-2 ring-primary-500/30' : 'border-transparent opacity-60 hover:opacity-100'}`}
-                 >
-                   <img src={img.current!} className="w-full h-full object-cover" alt="thumb" />
-                 </div>
-               ))}
+               {images.map(img => {
+                 const isSelected = selectedIds.includes(img.id);
+                 const imageJobs = jobs.filter(j => j.imageId === img.id);
+                 const isBusy = imageJobs.some(j => j.status === 'queued' || j.status === 'running');
+                 const hasFailed = imageJobs.some(j => j.status === 'failed');
+                 return (
+                   <div 
+                    key={img.id}
+                    onClick={(e) => handleThumbnailClick(e, img.id)}
+                    className={`group relative w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden border-2 cursor-pointer transition-all ${activeImageId === img.id ? 'border-primary-500 ring-2 ring-primary-500/30' : isSelected ? 'border-primary-400/60' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                   >
+                     <Thumbnail src={img.current!} className="w-full h-full object-cover" />
+                     <button
+                       onClick={(e) => {
+                         e.stopPropagation();
+                         setSelectedIds(isSelected ? selectedIds.filter(s => s !== img.id) : [...selectedIds, img.id]);
+                       }}
+                       className={`absolute top-1 left-1 w-4 h-4 rounded border text-[10px] leading-none flex items-center justify-center
+                         ${isSelected ? 'bg-primary-500 border-primary-500 text-white' : 'bg-black/40 border-white/60 opacity-0 group-hover:opacity-100'}
+                       `}
+                     >
+                       {isSelected && '✓'}
+                     </button>
+                     {isBusy && <div className="absolute bottom-1 right-1 w-2.5 h-2.5 rounded-full bg-primary-500 animate-pulse" />}
+                     {!isBusy && hasFailed && <div className="absolute bottom-1 right-1 w-2.5 h-2.5 rounded-full bg-red-500" />}
+                   </div>
+                 );
+               })}
+               {selectedIds.length > 0 ? (
+                 <button onClick={() => setSelectedIds([])} className="flex-shrink-0 text-xs text-gray-400 hover:text-white">
+                   Clear ({selectedIds.length})
+                 </button>
+               ) : images.length > 1 && (
+                 <button onClick={() => setSelectedIds(images.map(img => img.id))} className="flex-shrink-0 text-xs text-gray-400 hover:text-white">
+                   Select all
+                 </button>
+               )}
             </div>
           )}
 
         </main>
       </div>
       
-      {/* Error Toast */}
-      {processing.error && (
-        <div className="fixed bottom-28 left-1/2 transform -translate-x-1/2 bg-red-500 text-white px-6 py-3 rounded-full shadow-xl flex items-center animate-fade-in-up z-50">
-          <span className="mr-2">⚠️</span> {processing.error}
+      {exportSource && activeImage && (
+        <ExportDialog
+          source={exportSource.canvas}
+          imageName={activeImage.name}
+          hasAlpha={exportSource.hasAlpha}
+          onClose={() => setExportSource(null)}
+        />
+      )}
+
+      {aiSettingsTab && (
+        <AISettingsDialog
+          initialTab={aiSettingsTab}
+          projectId={project?.id ?? null}
+          onSave={handleAISettingsSave}
+          onClose={() => setAISettingsTab(null)}
+          onError={showError}
+        />
+      )}
+
+      {variations && (
+        <VariationPicker
+          label={variations.label}
+          outcomes={variations.outcomes}
+          requested={variations.requested}
+          usage={summarizeUsage(variations.usage)}
+          isRegenerating={processing.isProcessing}
+          onPick={pickVariation}
+          onKeep={keepVariations}
+          onRegenerate={regenerateVariations}
+          onClose={() => setVariations(null)}
+        />
+      )}
+
+      {showProjects && (
+        <ProjectList
+          projects={projects}
+          currentProjectId={project?.id ?? null}
+          onOpen={handleOpenProject}
+          onDelete={handleDeleteProject}
+          onNew={handleNewProject}
+          onClose={() => setShowProjects(false)}
+          memoryUsage={measureImages(images)}
+          historyBudgetMb={historyBudgetMb}
+          onHistoryBudgetChange={handleHistoryBudgetChange}
+        />
+      )}
+
+      {/* Notifications */}
+      {notices.length > 0 && (
+        <div className="fixed bottom-28 left-1/2 transform -translate-x-1/2 z-50 w-[28rem] max-w-[90vw] space-y-2">
+          {notices.map(notice => (
+            <div
+              key={notice.id}
+              className={`px-4 py-3 rounded-xl shadow-xl text-white animate-fade-in-up ${notice.tone === 'error' ? 'bg-red-600' : 'bg-gray-800 border border-gray-700'}`}
+            >
+              <div className="flex items-start">
+                {notice.tone === 'error' && <span className="mr-2">⚠️</span>}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-semibold">{notice.title}</div>
+                  {notice.message && <div className="text-xs opacity-90 mt-0.5">{notice.message}</div>}
+                  {notice.detail && (
+                    <div className="text-xs italic opacity-80 mt-1 max-h-24 overflow-y-auto border-l-2 border-white/40 pl-2">{notice.detail}</div>
+                  )}
+                  {notice.actions.length > 0 && (
+                    <div className="flex space-x-2 mt-2">
+                      {notice.actions.map(action => (
+                        <button
+                          key={action.label}
+                          onClick={() => { dismissNotice(notice.id); action.run(); }}
+                          className="px-3 py-1 rounded-full bg-white/20 hover:bg-white/30 text-xs font-medium"
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <button onClick={() => dismissNotice(notice.id)} className="ml-3 text-white/70 hover:text-white" title="Dismiss">✕</button>
+              </div>
+            </div>
+          ))}
         </div>
       )}
 
@@ -0,0 +1,112 @@
+import { createCanvas } from "@napi-rs/canvas";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { EditMode } from "../types";
+import { setActiveProvider } from "../services/imageEditService";
+import { createReport, getExitCode, planBatch, runBatch } from "./batchEdit";
+import { installHeadlessEnvironment } from "./headless";
+import { EditCommand, parseCommand } from "./options";
+
+let dir: string;
+
+const parseEdit = (args: string): EditCommand => {
+  const command = parseCommand(args.split(' '));
+  if (command.kind !== 'edit') throw new Error('Expected an edit command');
+  return command.edit;
+};
+
+const writePng = async (name: string, width = 8, height = 6) => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#3366cc';
+  ctx.fillRect(0, 0, width, height);
+  await writeFile(path.join(dir, 'in', name), await canvas.encode('png'));
+};
+
+beforeAll(() => {
+  installHeadlessEnvironment();
+  setActiveProvider('mock');
+});
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'gemini-lens-'));
+  await mkdir(path.join(dir, 'in'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('planBatch', () => {
+  it('lists the images in name order with their output paths', async () => {
+    await writePng('b.png');
+    await writePng('a.png');
+    await writeFile(path.join(dir, 'in', 'notes.txt'), 'not an image');
+    const plan = await planBatch(parseEdit(`edit ${dir}/in --filter sepia --format webp --out ${dir}/out`), null, 'mock');
+    expect(plan.files.map(f => [path.basename(f.input), path.basename(f.output!)])).toEqual([['a.png', 'a.webp'], ['b.png', 'b.webp']]);
+    expect(plan.files[0]).toMatchObject({ status: 'planned', steps: ['Filter: Sepia'] });
+  });
+
+  it('refuses two inputs that would write the same file', async () => {
+    await writePng('a.png');
+    await writePng('a.jpg');
+    await expect(planBatch(parseEdit(`edit ${dir}/in --filter sepia --out ${dir}/out`), null, 'mock'))
+      .rejects.toThrow('a.jpg and a.png would both be written to');
+  });
+
+  it('refuses to overwrite an input', async () => {
+    await writePng('a.png');
+    await expect(planBatch(parseEdit(`edit ${dir}/in --filter sepia --out ${dir}/in`), null, 'mock'))
+      .rejects.toThrow('would overwrite its input.');
+  });
+
+  it('needs at least one image', async () => {
+    await expect(planBatch(parseEdit(`edit ${dir}/in --filter sepia --out ${dir}/out`), null, 'mock'))
+      .rejects.toThrow('No PNG, JPEG or WebP images');
+  });
+});
+
+describe('reports', () => {
+  it('describes a dry run without touching the output directory', async () => {
+    await writePng('a.png');
+    const plan = await planBatch(parseEdit(`edit ${dir}/in --mode anime --crop 1:1 --dry-run`), { mode: EditMode.ANIME }, 'mock');
+    const report = createReport(plan, plan.files);
+    expect(report).toMatchObject({ dryRun: true, provider: 'mock', outDir: null });
+    expect(report.files[0]).toMatchObject({ output: null, status: 'planned', steps: [`AI: ${EditMode.ANIME}`, 'Crop: 1:1'] });
+    expect(report.summary).toMatchObject({ files: 1, done: 0, failed: 0, cancelled: 0 });
+    expect(getExitCode(report)).toBe(0);
+    expect(await readdir(dir)).toEqual(['in']);
+  });
+
+  it('edits with the mock provider and records each file', async () => {
+    await writePng('a.png', 16, 8);
+    const plan = await planBatch(parseEdit(`edit ${dir}/in --mode anime --crop 1:1 --out ${dir}/out`), { mode: EditMode.ANIME }, 'mock');
+    const files = await runBatch(plan, new AbortController().signal);
+    expect(files[0]).toMatchObject({ status: 'done', width: 8, height: 8, error: null });
+    expect(await readdir(path.join(dir, 'out'))).toEqual(['a.png']);
+    expect(getExitCode(createReport(plan, files))).toBe(0);
+  });
+
+  it('records failures per file and exits 1', async () => {
+    await writePng('a.png');
+    await writeFile(path.join(dir, 'in', 'b.png'), 'not really a PNG');
+    const plan = await planBatch(parseEdit(`edit ${dir}/in --filter grayscale --out ${dir}/out`), null, 'mock');
+    const report = createReport(plan, await runBatch(plan, new AbortController().signal));
+    expect(report.files.map(f => f.status)).toEqual(['done', 'failed']);
+    expect(report.files[1].error).not.toBeNull();
+    expect(report.summary).toMatchObject({ done: 1, failed: 1 });
+    expect(getExitCode(report)).toBe(1);
+  });
+
+  it('marks files as cancelled once the run is aborted', async () => {
+    await writePng('a.png');
+    const plan = await planBatch(parseEdit(`edit ${dir}/in --filter grayscale --out ${dir}/out`), null, 'mock');
+    const controller = new AbortController();
+    controller.abort();
+    const report = createReport(plan, await runBatch(plan, controller.signal));
+    expect(report.summary.cancelled).toBe(1);
+    expect(getExitCode(report)).toBe(1);
+  });
+});
@@ -0,0 +1,230 @@
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { AIErrorKind, EditMode, EditOptions, FilterType, ImageState, NumericAdjustment, TokenUsage } from "../types";
+import { DEFAULT_ADJUSTMENTS } from "../services/adjustments";
+import { toAIEditError } from "../services/aiErrors";
+import { putBlob } from "../services/blobStore";
+import { DEFAULT_CROP, fitRectToAspect } from "../services/cropService";
+import { runAIEdit } from "../services/editPipeline";
+import { DEFAULT_EXPORT_SETTINGS, encodeExport, formatFilename } from "../services/exportService";
+import { loadImage } from "../services/imageUtils";
+import { createPixelLayer } from "../services/layerService";
+import { renderImage } from "../services/renderService";
+import { UsageSummary, estimateCost, summarizeUsage } from "../services/usageService";
+import { CliUsageError, EditCommand, ResolvedMode } from "./options";
+
+// Runs an EditCommand over a folder with the app's own pipeline: runAIEdit,
+// then renderImage (filter, adjustments, crop) and encodeExport, so results
+// match what the editor would export.
+
+export const REPORT_VERSION = 1;
+
+const INPUT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+export type BatchFileStatus = 'planned' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchFileReport {
+  input: string;
+  output: string | null;
+  status: BatchFileStatus;
+  steps: string[];        // e.g. ["AI: Anime Style", "Filter: Sepia", "Crop: 16:9"]
+  width: number | null;   // Output size, once written
+  height: number | null;
+  bytes: number | null;
+  usage: TokenUsage | null;
+  cost: number | null;
+  error: { kind: AIErrorKind; message: string } | null;
+  ms: number;
+}
+
+export interface BatchReport {
+  version: number;
+  dryRun: boolean;
+  provider: string;
+  inputDir: string;
+  outDir: string | null;
+  startedAt: string;
+  finishedAt: string;
+  files: BatchFileReport[];
+  summary: { files: number; done: number; failed: number; cancelled: number; usage: UsageSummary };
+}
+
+export interface BatchPlan {
+  command: EditCommand;
+  mode: ResolvedMode | null;
+  provider: string;
+  startedAt: Date;
+  files: BatchFileReport[];
+}
+
+const describeSteps = (command: EditCommand, mode: ResolvedMode | null): string[] => {
+  const steps: string[] = [];
+  if (mode) {
+    const name = mode.customModeId ? `${mode.mode} (${mode.customModeId})` : mode.mode;
+    steps.push(`AI: ${name}${command.tiledEnhance && mode.mode === EditMode.ENHANCE ? ', tiled' : ''}`);
+  }
+  if (command.filter !== FilterType.NONE) steps.push(`Filter: ${command.filter}`);
+  (Object.entries(command.adjustments) as [NumericAdjustment, number][]).forEach(([key, value]) => {
+    steps.push(`Adjust: ${key} ${value}`);
+  });
+  if (command.crop) steps.push(`Crop: ${command.crop.label}`);
+  return steps;
+};
+
+// Lists the images to edit and where each result goes. Two inputs that would
+// write the same file (a.png and a.jpg), or a result that would overwrite its
+// input, stop the run before anything is processed.
+export const planBatch = async (command: EditCommand, mode: ResolvedMode | null, provider: string): Promise<BatchPlan> => {
+  let names: string[];
+  try {
+    names = (await readdir(command.inputDir, { withFileTypes: true }))
+      .filter(entry => entry.isFile() && INPUT_TYPES[path.extname(entry.name).toLowerCase()])
+      .map(entry => entry.name)
+      .sort();
+  } catch (e: any) {
+    throw new CliUsageError(`Cannot read ${command.inputDir}: ${e.message}`);
+  }
+  if (names.length === 0) throw new CliUsageError(`No PNG, JPEG or WebP images in ${command.inputDir}.`);
+
+  const steps = describeSteps(command, mode);
+  const outputs = new Map<string, string>();
+  const files = names.map(name => {
+    const input = path.join(command.inputDir, name);
+    let output: string | null = null;
+    if (command.outDir) {
+      output = path.join(command.outDir, formatFilename('{name}', { name, width: 0, height: 0, format: command.format }));
+      if (path.resolve(output) === path.resolve(input)) throw new CliUsageError(`${output} would overwrite its input.`);
+      const other = outputs.get(output);
+      if (other) throw new CliUsageError(`${other} and ${name} would both be written to ${output}.`);
+      outputs.set(output, name);
+    }
+    const file: BatchFileReport = {
+      input, output, status: 'planned', steps, width: null, height: null,
+      bytes: null, usage: null, cost: null, error: null, ms: 0,
+    };
+    return file;
+  });
+
+  return { command, mode, provider, startedAt: new Date(), files };
+};
+
+const createImageState = (src: string, name: string, mimeType: string): ImageState => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  original: src,
+  current: src,
+  layers: [createPixelLayer(src, 'Original')],
+  thumbnail: null,
+  mimeType,
+  adjustments: { ...DEFAULT_ADJUSTMENTS },
+  filter: FilterType.NONE,
+  crop: { ...DEFAULT_CROP },
+  matte: null,
+  overlays: [],
+  history: [],
+  historyIndex: 0,
+  recentPrompts: [],
+});
+
+const editFile = async (file: BatchFileReport, plan: BatchPlan, signal: AbortSignal): Promise<Partial<BatchFileReport>> => {
+  const { command, mode } = plan;
+  const name = path.basename(file.input);
+  const mimeType = INPUT_TYPES[path.extname(name).toLowerCase()];
+  const src = await putBlob(new Blob([await readFile(file.input)], { type: mimeType }));
+  let image = createImageState(src, name, mimeType);
+  let usage: TokenUsage | null = null;
+
+  if (mode) {
+    const options: EditOptions = {
+      prompt: command.prompt ?? undefined,
+      backgroundColor: command.backgroundColor ?? undefined,
+      backgroundPrompt: command.backgroundPrompt ?? undefined,
+      customModeId: mode.customModeId,
+    };
+    const outcome = await runAIEdit(image, {
+      mode: mode.mode,
+      options,
+      matteStrategy: 'matte',
+      layerName: mode.mode,
+      control: { signal },
+      tiledEnhance: command.tiledEnhance,
+    });
+    image = { ...image, ...outcome.patch };
+    usage = outcome.usage;
+  }
+
+  // The crop is centered on whatever the AI edit returned
+  const { naturalWidth, naturalHeight } = await loadImage(image.current!);
+  const crop = command.crop
+    ? { ...DEFAULT_CROP, aspectRatio: command.crop.ratio, rect: fitRectToAspect(naturalWidth, naturalHeight, command.crop.ratio) }
+    : DEFAULT_CROP;
+  image = { ...image, filter: command.filter, adjustments: { ...DEFAULT_ADJUSTMENTS, ...command.adjustments }, crop };
+
+  const { canvas } = await renderImage(image);
+  const { blob, width, height } = await encodeExport(canvas, { ...DEFAULT_EXPORT_SETTINGS, format: command.format, quality: command.quality });
+  await writeFile(file.output!, Buffer.from(await blob.arrayBuffer()));
+  return { width, height, bytes: blob.size, usage, cost: usage ? estimateCost(usage) : null };
+};
+
+// Processes the plan `concurrency` files at a time. Failures are recorded in
+// the report and never stop the other files; once `signal` aborts, files not
+// yet started are marked cancelled.
+export const runBatch = async (
+  plan: BatchPlan,
+  signal: AbortSignal,
+  onFileDone: (file: BatchFileReport) => void = () => {}
+): Promise<BatchFileReport[]> => {
+  await mkdir(plan.command.outDir!, { recursive: true });
+  const results = plan.files.map(file => ({ ...file }));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < results.length) {
+      const file = results[next++];
+      const started = Date.now();
+      if (signal.aborted) {
+        file.status = 'cancelled';
+      } else {
+        try {
+          Object.assign(file, await editFile(file, plan, signal), { status: 'done' });
+        } catch (error) {
+          const err = toAIEditError(error);
+          Object.assign(file, { status: err.kind === 'cancelled' ? 'cancelled' : 'failed', error: { kind: err.kind, message: err.message } });
+        }
+      }
+      file.ms = Date.now() - started;
+      onFileDone(file);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(plan.command.concurrency, results.length) }, worker));
+  return results;
+};
+
+export const createReport = (plan: BatchPlan, files: BatchFileReport[]): BatchReport => ({
+  version: REPORT_VERSION,
+  dryRun: plan.command.dryRun,
+  provider: plan.provider,
+  inputDir: plan.command.inputDir,
+  outDir: plan.command.outDir,
+  startedAt: plan.startedAt.toISOString(),
+  finishedAt: new Date().toISOString(),
+  files,
+  summary: {
+    files: files.length,
+    done: files.filter(f => f.status === 'done').length,
+    failed: files.filter(f => f.status === 'failed').length,
+    cancelled: files.filter(f => f.status === 'cancelled').length,
+    usage: summarizeUsage(plan.mode ? files.filter(f => f.status !== 'planned' && f.status !== 'cancelled').map(f => f.usage) : []),
+  },
+});
+
+// 1 when any image failed or was cancelled, so scripts can tell a partial run
+export const getExitCode = (report: BatchReport): number => (
+  report.summary.failed > 0 || report.summary.cancelled > 0 ? 1 : 0
+);
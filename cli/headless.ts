@@ -0,0 +1,121 @@
+import { Canvas, Image as CanvasImage, ImageData as CanvasImageData, createCanvas } from "@napi-rs/canvas";
+import { getBlob } from "../services/blobStore";
+
+// Browser globals the services rely on, backed by @napi-rs/canvas, so the
+// same pipeline (AI edits, layers, adjustments, crop, export) runs in Node.
+// Only what the services actually touch is provided: canvas elements with 2D
+// contexts (WebGL reports as unavailable, so rendering uses the software
+// path), images loaded from stored blob URLs or data URLs, ImageData,
+// FileReader.readAsDataURL and an in-memory localStorage.
+
+const ENCODERS: Record<string, 'png' | 'jpeg' | 'webp' | 'avif'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+const DEFAULT_QUALITY = 0.92; // Browsers' default for lossy toBlob
+
+const srcDescriptor = Object.getOwnPropertyDescriptor(CanvasImage.prototype, 'src')!;
+
+const createCanvasElement = (): Canvas => {
+  const canvas = createCanvas(300, 150);
+  const getContext = canvas.getContext.bind(canvas);
+  Object.assign(canvas, {
+    getContext: (type: string, options?: any) => (type === '2d' ? getContext('2d', options) : null),
+    toBlob: (callback: (blob: Blob | null) => void, type = 'image/png', quality = DEFAULT_QUALITY) => {
+      const mimeType = ENCODERS[type] ? type : 'image/png';
+      const format = ENCODERS[mimeType];
+      const percent = Math.round(quality * 100);
+      const encoded = format === 'png' ? canvas.encode('png')
+        : format === 'avif' ? canvas.encode('avif', { quality: percent })
+        : canvas.encode(format, percent);
+      encoded.then(buffer => callback(new Blob([buffer], { type: mimeType })), () => callback(null));
+    },
+  });
+  return canvas;
+};
+
+// Stored images are referenced by object URL, which only the blob store can resolve
+class HeadlessImage extends CanvasImage {
+  constructor() {
+    super();
+    let src = '';
+    Object.defineProperty(this, 'src', {
+      get: () => src,
+      set: (value: string) => {
+        src = value;
+        this.resolveSource(value).then(
+          data => srcDescriptor.set!.call(this, data),
+          error => this.onerror?.(error)
+        );
+      },
+    });
+  }
+
+  private async resolveSource(url: string): Promise<Buffer | string> {
+    if (!url.startsWith('blob:')) return url;
+    const blob = getBlob(url);
+    if (!blob) throw new Error(`Unknown blob URL: ${url}`);
+    return Buffer.from(await blob.arrayBuffer());
+  }
+}
+
+class HeadlessFileReader {
+  result: string | null = null;
+  error: Error | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(
+      buffer => {
+        this.result = `data:${blob.type || 'application/octet-stream'};base64,${Buffer.from(buffer).toString('base64')}`;
+        this.onload?.();
+      },
+      error => {
+        this.error = error;
+        this.onerror?.();
+      }
+    );
+  }
+}
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+};
+
+let installed = false;
+
+export const installHeadlessEnvironment = () => {
+  if (installed) return;
+  installed = true;
+  Object.assign(globalThis, {
+    window: globalThis,
+    document: {
+      createElement: (tag: string) => {
+        if (tag !== 'canvas') throw new Error(`<${tag}> is not available headless.`);
+        return createCanvasElement();
+      },
+    },
+    Image: HeadlessImage,
+    ImageData: CanvasImageData,
+    FileReader: HeadlessFileReader,
+    localStorage: createMemoryStorage(),
+  });
+};
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getAIConfig, parseAIConfigFile, saveAIConfig } from "../services/aiConfig";
+import { hasConnection, saveConnectionSettings } from "../services/connectionSettings";
+import { getActiveProvider, setActiveProvider } from "../services/imageEditService";
+import { formatUsage } from "../services/usageService";
+import { BatchFileReport, createReport, getExitCode, planBatch, runBatch } from "./batchEdit";
+import { installHeadlessEnvironment } from "./headless";
+import { CliUsageError, EditCommand, USAGE, parseCommand, resolveMode } from "./options";
+
+// gemini-lens: headless batch editing, e.g.
+//   gemini-lens edit ./in --mode anime --filter sepia --crop 16:9 --out ./out
+// Exits 2 on usage errors and 1 when any image failed.
+
+// --provider, then IMAGE_PROVIDER, then Gemini when a key or proxy is set, else the mock
+const selectProvider = (command: EditCommand): string => {
+  saveConnectionSettings({ apiKey: process.env.GEMINI_API_KEY ?? '', proxyUrl: process.env.PROXY_URL ?? '' });
+  const id = command.provider ?? process.env.IMAGE_PROVIDER ?? (hasConnection() ? 'gemini' : 'mock');
+  try {
+    setActiveProvider(id);
+  } catch (e: any) {
+    throw new CliUsageError(e.message);
+  }
+  return id;
+};
+
+const loadConfig = async (configPath: string) => {
+  try {
+    saveAIConfig(parseAIConfigFile(await readFile(configPath, 'utf8')));
+  } catch (e: any) {
+    throw new CliUsageError(`Cannot use ${configPath}: ${e.message}`);
+  }
+};
+
+const formatProgress = (file: BatchFileReport, done: number, total: number) => {
+  const name = path.basename(file.input);
+  const detail = file.status === 'done'
+    ? `-> ${file.output} (${file.width}×${file.height})`
+    : file.error?.message ?? '';
+  return `[${done}/${total}] ${file.status} ${name} ${detail}`.trim();
+};
+
+const runEdit = async (command: EditCommand): Promise<number> => {
+  installHeadlessEnvironment();
+  if (command.configPath) await loadConfig(command.configPath);
+  const mode = command.mode ? resolveMode(command.mode, getAIConfig(), command) : null;
+  const provider = selectProvider(command);
+  const plan = await planBatch(command, mode, provider);
+
+  if (command.dryRun) {
+    const report = JSON.stringify(createReport(plan, plan.files), null, 2);
+    if (command.reportPath) {
+      await writeFile(command.reportPath, report);
+      console.error(`${plan.files.length} image(s) planned; report written to ${command.reportPath}`);
+    } else {
+      console.log(report);
+    }
+    return 0;
+  }
+
+  console.error(`Editing ${plan.files.length} image(s) with ${getActiveProvider().name}: ${plan.files[0].steps.join(', ')}`);
+
+  // First Ctrl+C cancels in-flight requests and still writes the report
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.error('Cancelling… press Ctrl+C again to quit immediately.');
+    controller.abort();
+  };
+  process.on('SIGINT', onInterrupt);
+
+  let finished = 0;
+  const files = await runBatch(plan, controller.signal, file => {
+    console.error(formatProgress(file, ++finished, plan.files.length));
+  });
+  process.off('SIGINT', onInterrupt);
+
+  const report = createReport(plan, files);
+  const reportPath = command.reportPath ?? path.join(command.outDir!, 'report.json');
+  await writeFile(reportPath, JSON.stringify(report, null, 2));
+
+  const { done, failed, cancelled, usage } = report.summary;
+  console.error(`${done} done, ${failed} failed${cancelled ? `, ${cancelled} cancelled` : ''}${mode ? ` · ${formatUsage(usage)}` : ''}. Report: ${reportPath}`);
+  return getExitCode(report);
+};
+
+const main = async (): Promise<number> => {
+  const command = parseCommand(process.argv.slice(2));
+  if (command.kind === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+  return runEdit(command.edit);
+};
+
+main().then(
+  code => process.exit(code),
+  (e: any) => {
+    if (e instanceof CliUsageError) {
+      console.error(`${e.message}\nRun "gemini-lens --help" for usage.`);
+      process.exit(2);
+    }
+    console.error(e?.stack ?? e);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { AIConfig, EditMode, FilterType } from "../types";
+import { DEFAULT_AI_CONFIG } from "../services/aiConfig";
+import { CliUsageError, EditCommand, parseCommand, resolveMode } from "./options";
+
+const parseEdit = (args: string): EditCommand => {
+  const command = parseCommand(args.split(' '));
+  if (command.kind !== 'edit') throw new Error('Expected an edit command');
+  return command.edit;
+};
+
+const config: AIConfig = {
+  ...DEFAULT_AI_CONFIG,
+  customModes: [{ id: 'sticker', name: 'Sticker', prompt: 'Make a sticker', model: 'm', imageConfig: {}, requiresPaidKey: false }],
+};
+
+describe('parseCommand', () => {
+  it('shows help without arguments or with --help', () => {
+    expect(parseCommand([])).toEqual({ kind: 'help' });
+    expect(parseCommand(['edit', './in', '-h'])).toEqual({ kind: 'help' });
+  });
+
+  it('reads every step with defaults for the rest', () => {
+    const edit = parseEdit('edit ./in --mode anime --filter SEPIA --adjust brightness=120,contrast=110 --crop 16:9 --format jpg --out ./out');
+    expect(edit).toMatchObject({
+      inputDir: './in',
+      outDir: './out',
+      mode: 'anime',
+      filter: FilterType.SEPIA,
+      adjustments: { brightness: 120, contrast: 110 },
+      format: 'image/jpeg',
+      quality: 92,
+      concurrency: 2,
+      dryRun: false,
+    });
+    expect(edit.crop).toEqual({ label: '16:9', ratio: 16 / 9 });
+  });
+
+  it('only needs --out when writing images', () => {
+    expect(parseEdit('edit ./in --filter sepia --dry-run').outDir).toBeNull();
+  });
+
+  it.each([
+    ['edit ./in --filter sepia --colour red', 'Unknown option'],
+    ['resize ./in --out ./out', 'Unknown command "resize".'],
+    ['edit', 'Missing the input directory.'],
+    ['edit ./in ./more --filter sepia --out ./out', 'Unexpected argument "./more".'],
+    ['edit ./in --filter sepia', '--out is required (or use --dry-run).'],
+    ['edit ./in --out ./out', 'Nothing to do'],
+    ['edit ./in --filter neon --out ./out', 'Unknown filter "neon".'],
+    ['edit ./in --adjust glow=5 --out ./out', 'Unknown adjustment "glow".'],
+    ['edit ./in --adjust brightness=500 --out ./out', 'brightness must be a number from'],
+    ['edit ./in --crop wide --out ./out', '--crop must be an aspect ratio like 16:9'],
+    ['edit ./in --filter sepia --format gif --out ./out', 'Unknown format "gif".'],
+    ['edit ./in --filter sepia --quality 0 --out ./out', '--quality must be a whole number from 1 to 100.'],
+    ['edit ./in --filter sepia --concurrency 2.5 --out ./out', '--concurrency must be a whole number from 1 to 16.'],
+  ])('rejects "%s"', (args, message) => {
+    expect(() => parseCommand(args.split(' '))).toThrow(CliUsageError);
+    expect(() => parseCommand(args.split(' '))).toThrow(message);
+  });
+});
+
+describe('resolveMode', () => {
+  it('maps built-in names to edit modes', () => {
+    expect(resolveMode('Pixel-Art', config, parseEdit('edit ./in --mode pixel-art --out ./out'))).toEqual({ mode: EditMode.PIXEL_ART });
+  });
+
+  it('falls back to custom modes by id', () => {
+    expect(resolveMode('sticker', config, parseEdit('edit ./in --mode sticker --out ./out')))
+      .toEqual({ mode: EditMode.CUSTOM_MODE, customModeId: 'sticker' });
+  });
+
+  it('lists the known modes for an unknown name', () => {
+    expect(() => resolveMode('noir', config, parseEdit('edit ./in --mode noir --out ./out'))).toThrow(/Unknown mode "noir".*anime.*sticker/);
+  });
+
+  it.each([
+    ['custom', 'edit ./in --mode custom --out ./out', '--mode custom needs --prompt.'],
+    ['replace-bg', 'edit ./in --mode replace-bg --out ./out', '--mode replace-bg needs --background-color or --background-prompt.'],
+    ['remove-bg', 'edit ./in --mode remove-bg --format jpeg --out ./out', 'JPEG would flatten'],
+  ])('checks what --mode %s needs', (name, args, message) => {
+    expect(() => resolveMode(name, config, parseEdit(args))).toThrow(message);
+  });
+});
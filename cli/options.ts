@@ -0,0 +1,220 @@
+import { parseArgs } from "node:util";
+import { AIConfig, EditMode, ExportFormat, FilterType, NumericAdjustment } from "../types";
+import { ADJUSTMENT_CONTROLS } from "../services/adjustments";
+import { FORMAT_OPTIONS } from "../services/exportService";
+
+export const USAGE = `Usage: gemini-lens edit <input-dir> [options]
+
+Edits every PNG, JPEG and WebP image in <input-dir>. Steps run in this order:
+AI edit, filter and adjustments, crop.
+
+Options:
+  --mode <name>          AI edit: anime, pixel-art, remove-bg, replace-bg, enhance,
+                         custom (needs --prompt) or the id of a custom mode
+  --prompt <text>        Instruction for --mode custom
+  --background-color <c> Color for --mode replace-bg, e.g. "#ffffff"
+  --background-prompt <text>
+                         Described background for --mode replace-bg
+  --tiled                Enhance large images tile by tile (--mode enhance)
+  --filter <name>        normal, grayscale, sepia, vintage or blur
+  --adjust <key=value>   Slider adjustments, e.g. brightness=120,contrast=110
+                         (repeatable; keys as in the Adjust panel)
+  --crop <w:h>           Centered crop to an aspect ratio, e.g. 16:9
+  --out <dir>            Output directory (required unless --dry-run)
+  --format <format>      png (default), jpeg, webp or avif; jpeg has no
+                         transparency, so it is refused for remove-bg
+  --quality <1-100>      Quality for lossy formats, default 92
+  --provider <id>        AI backend: gemini, mock or proxy
+  --config <file>        AI configuration file (prompts, models, custom modes)
+  --concurrency <n>      Images processed at once, default 2
+  --report <file>        Write the JSON report here (default <out>/report.json;
+                         printed to stdout on a dry run)
+  --dry-run              Validate and list the planned edits without calling
+                         the AI backend or writing images
+  -h, --help             Show this help
+
+Environment: GEMINI_API_KEY, PROXY_URL, IMAGE_PROVIDER.`;
+
+export interface CropRatio {
+  label: string; // As given, e.g. "16:9"
+  ratio: number; // width / height
+}
+
+export interface EditCommand {
+  inputDir: string;
+  outDir: string | null;
+  mode: string | null; // Resolved against the AI configuration by resolveMode
+  prompt: string | null;
+  backgroundColor: string | null;
+  backgroundPrompt: string | null;
+  tiledEnhance: boolean;
+  filter: FilterType;
+  adjustments: Partial<Record<NumericAdjustment, number>>;
+  crop: CropRatio | null;
+  format: ExportFormat;
+  quality: number;
+  provider: string | null;
+  configPath: string | null;
+  concurrency: number;
+  reportPath: string | null;
+  dryRun: boolean;
+}
+
+export type CliCommand = { kind: 'help' } | { kind: 'edit'; edit: EditCommand };
+
+// Usage errors: reported with the help hint instead of a stack trace
+export class CliUsageError extends Error {}
+
+const MODE_NAMES: Record<string, EditMode> = {
+  'anime': EditMode.ANIME,
+  'pixel-art': EditMode.PIXEL_ART,
+  'remove-bg': EditMode.REMOVE_BG,
+  'replace-bg': EditMode.REPLACE_BG,
+  'enhance': EditMode.ENHANCE,
+  'custom': EditMode.CUSTOM,
+};
+
+const readInteger = (name: string, value: string | undefined, fallback: number, min: number, max: number): number => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new CliUsageError(`--${name} must be a whole number from ${min} to ${max}.`);
+  }
+  return number;
+};
+
+const parseFilter = (value: string | undefined): FilterType => {
+  if (value === undefined) return FilterType.NONE;
+  const filter = Object.values(FilterType).find(f => f.toLowerCase() === value.toLowerCase());
+  if (!filter) {
+    throw new CliUsageError(`Unknown filter "${value}". Use ${Object.values(FilterType).map(f => f.toLowerCase()).join(', ')}.`);
+  }
+  return filter;
+};
+
+// "brightness=120,contrast=110", validated against the slider ranges
+const parseAdjustments = (values: string[]): Partial<Record<NumericAdjustment, number>> => {
+  const adjustments: Partial<Record<NumericAdjustment, number>> = {};
+  values.flatMap(value => value.split(',')).filter(Boolean).forEach(pair => {
+    const [key, raw] = pair.split('=');
+    const control = ADJUSTMENT_CONTROLS.find(c => c.key === key.trim());
+    if (!control) {
+      throw new CliUsageError(`Unknown adjustment "${key}". Use ${ADJUSTMENT_CONTROLS.map(c => c.key).join(', ')}.`);
+    }
+    const number = Number(raw);
+    if (raw === undefined || raw.trim() === '' || !Number.isFinite(number) || number < control.min || number > control.max) {
+      throw new CliUsageError(`${control.key} must be a number from ${control.min} to ${control.max}.`);
+    }
+    adjustments[control.key] = number;
+  });
+  return adjustments;
+};
+
+const parseCrop = (value: string | undefined): CropRatio | null => {
+  if (value === undefined) return null;
+  const match = value.match(/^\s*(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)\s*$/);
+  const width = match ? Number(match[1]) : 0;
+  const height = match ? Number(match[2]) : 0;
+  if (!width || !height) throw new CliUsageError(`--crop must be an aspect ratio like 16:9, got "${value}".`);
+  return { label: `${match![1]}:${match![2]}`, ratio: width / height };
+};
+
+// Accepts the extension or the label, e.g. "jpg" or "jpeg"
+const parseFormat = (value: string | undefined): ExportFormat => {
+  if (value === undefined) return 'image/png';
+  const name = value.toLowerCase();
+  const option = FORMAT_OPTIONS.find(o => o.extension === name || o.label.toLowerCase() === name || o.value === name);
+  if (!option) throw new CliUsageError(`Unknown format "${value}". Use ${FORMAT_OPTIONS.map(o => o.label.toLowerCase()).join(', ')}.`);
+  return option.value;
+};
+
+export const parseCommand = (argv: string[]): CliCommand => {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (e: any) {
+    throw new CliUsageError(e.message);
+  }
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) return { kind: 'help' };
+
+  const [command, inputDir, ...extra] = positionals;
+  if (command !== 'edit') throw new CliUsageError(`Unknown command "${command}".`);
+  if (!inputDir) throw new CliUsageError('Missing the input directory.');
+  if (extra.length > 0) throw new CliUsageError(`Unexpected argument "${extra[0]}".`);
+  if (!values.out && !values['dry-run']) throw new CliUsageError('--out is required (or use --dry-run).');
+
+  const edit: EditCommand = {
+    inputDir,
+    outDir: values.out ?? null,
+    mode: values.mode ?? null,
+    prompt: values.prompt ?? null,
+    backgroundColor: values['background-color'] ?? null,
+    backgroundPrompt: values['background-prompt'] ?? null,
+    tiledEnhance: values.tiled ?? false,
+    filter: parseFilter(values.filter),
+    adjustments: parseAdjustments(values.adjust ?? []),
+    crop: parseCrop(values.crop),
+    format: parseFormat(values.format),
+    quality: readInteger('quality', values.quality, 92, 1, 100),
+    provider: values.provider ?? null,
+    configPath: values.config ?? null,
+    concurrency: readInteger('concurrency', values.concurrency, 2, 1, 16),
+    reportPath: values.report ?? null,
+    dryRun: values['dry-run'] ?? false,
+  };
+  if (!edit.mode && !edit.crop && edit.filter === FilterType.NONE && Object.keys(edit.adjustments).length === 0) {
+    throw new CliUsageError('Nothing to do: pass --mode, --filter, --adjust and/or --crop.');
+  }
+  return { kind: 'edit', edit };
+};
+
+const parseCliArgs = (argv: string[]) => parseArgs({
+  args: argv,
+  allowPositionals: true,
+  options: {
+    'mode': { type: 'string' },
+    'prompt': { type: 'string' },
+    'background-color': { type: 'string' },
+    'background-prompt': { type: 'string' },
+    'tiled': { type: 'boolean' },
+    'filter': { type: 'string' },
+    'adjust': { type: 'string', multiple: true },
+    'crop': { type: 'string' },
+    'out': { type: 'string' },
+    'format': { type: 'string' },
+    'quality': { type: 'string' },
+    'provider': { type: 'string' },
+    'config': { type: 'string' },
+    'concurrency': { type: 'string' },
+    'report': { type: 'string' },
+    'dry-run': { type: 'boolean' },
+    'help': { type: 'boolean', short: 'h' },
+  },
+});
+
+export interface ResolvedMode {
+  mode: EditMode;
+  customModeId?: string;
+}
+
+// Built-in names first, then custom modes from the AI configuration by id
+export const resolveMode = (name: string, config: AIConfig, command: EditCommand): ResolvedMode => {
+  const builtIn = MODE_NAMES[name.toLowerCase()];
+  if (builtIn === EditMode.CUSTOM && !command.prompt?.trim()) {
+    throw new CliUsageError('--mode custom needs --prompt.');
+  }
+  if (builtIn === EditMode.REPLACE_BG && !command.backgroundColor && !command.backgroundPrompt?.trim()) {
+    throw new CliUsageError('--mode replace-bg needs --background-color or --background-prompt.');
+  }
+  if (builtIn === EditMode.REMOVE_BG && command.format === 'image/jpeg') {
+    throw new CliUsageError('--mode remove-bg makes transparent cut-outs, which JPEG would flatten. Use --format png, webp or avif.');
+  }
+  if (builtIn) return { mode: builtIn };
+
+  const custom = config.customModes.find(m => m.id === name);
+  if (custom) return { mode: EditMode.CUSTOM_MODE, customModeId: custom.id };
+
+  const known = [...Object.keys(MODE_NAMES), ...config.customModes.map(m => m.id)];
+  throw new CliUsageError(`Unknown mode "${name}". Use ${known.join(', ')}.`);
+};
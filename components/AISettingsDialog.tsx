@@ -0,0 +1,336 @@
+import React, { useState, useRef } from 'react';
+import { AIConfig, ConnectionSettings, EditMode, ModePromptConfig } from '../types';
+import {
+  CONFIGURABLE_MODES, DEFAULT_AI_CONFIG, IMAGE_SIZE_OPTIONS, MODEL_OPTIONS, VARIANT_LABELS,
+  getAIConfig, saveAIConfig, resolveModeConfig, parseAIConfigFile, exportAIConfig, newCustomModeId
+} from '../services/aiConfig';
+import { MODEL_ASPECT_RATIOS } from '../services/enhanceService';
+import { getConnectionSettings, saveConnectionSettings, hasConnection, maskApiKey } from '../services/connectionSettings';
+import { downloadBlob } from '../services/exportService';
+import { TrashIcon } from './Icons';
+import UsageLogPanel from './UsageLogPanel';
+
+export type AISettingsTab = 'prompts' | 'connection' | 'usage';
+
+interface AISettingsDialogProps {
+  initialTab: AISettingsTab;
+  projectId: string | null;              // Scopes the usage log
+  onSave: (config: AIConfig, connected: boolean) => void; // `connected`: a key or proxy was just added
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+const TABS: { value: AISettingsTab; label: string }[] = [
+  { value: 'prompts', label: 'Prompts & Models' },
+  { value: 'connection', label: 'Connection' },
+  { value: 'usage', label: 'Usage' },
+];
+
+type Selection =
+  | { kind: 'mode'; mode: EditMode; variant: string | null }
+  | { kind: 'custom'; id: string };
+
+const inputClass = 'w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500';
+
+const listItemClass = (selected: boolean) =>
+  `w-full text-left px-2 py-1.5 rounded text-xs truncate ${selected ? 'bg-primary-600/20 text-white' : 'text-gray-400 hover:bg-gray-800'}`;
+
+// Edits copies of the AI configuration and connection; nothing applies until Save
+const AISettingsDialog = ({ initialTab, projectId, onSave, onClose, onError }: AISettingsDialogProps) => {
+  const [tab, setTab] = useState<AISettingsTab>(initialTab);
+  const [draft, setDraft] = useState<AIConfig>(() => getAIConfig());
+  const [connection, setConnection] = useState<ConnectionSettings>(() => getConnectionSettings());
+  const [showKey, setShowKey] = useState(false);
+  const savedKey = getConnectionSettings().apiKey;
+  const [selection, setSelection] = useState<Selection>({ kind: 'mode', mode: CONFIGURABLE_MODES[0], variant: null });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const custom = selection.kind === 'custom' ? draft.customModes.find(m => m.id === selection.id) ?? null : null;
+  const baseMode = selection.kind === 'mode' ? draft.modes[selection.mode] ?? DEFAULT_AI_CONFIG.modes[selection.mode]! : null;
+  const settings: ModePromptConfig = selection.kind === 'mode'
+    ? resolveModeConfig(draft, selection.mode, selection.variant)
+    : custom!;
+
+  const update = (patch: Partial<ModePromptConfig>) => {
+    if (selection.kind === 'custom') {
+      setDraft({ ...draft, customModes: draft.customModes.map(m => m.id === selection.id ? { ...m, ...patch } : m) });
+      return;
+    }
+    const { mode, variant } = selection;
+    const next = variant
+      ? { ...baseMode!, variants: { ...baseMode!.variants, [variant]: { ...baseMode!.variants?.[variant], ...patch } } }
+      : { ...baseMode!, ...patch };
+    setDraft({ ...draft, modes: { ...draft.modes, [mode]: next } });
+  };
+
+  const updateImageConfig = (key: 'aspectRatio' | 'imageSize', value: string) => {
+    const imageConfig = { ...settings.imageConfig };
+    if (value) imageConfig[key] = value;
+    else delete imageConfig[key];
+    update({ imageConfig });
+  };
+
+  // Copying a mode is the quickest way to try a prompt against the original
+  const addCustomMode = (from: ModePromptConfig, name: string) => {
+    const id = newCustomModeId();
+    setDraft({ ...draft, customModes: [...draft.customModes, { ...from, imageConfig: { ...from.imageConfig }, id, name }] });
+    setSelection({ kind: 'custom', id });
+  };
+
+  const removeCustomMode = (id: string) => {
+    setDraft({ ...draft, customModes: draft.customModes.filter(m => m.id !== id) });
+    setSelection({ kind: 'mode', mode: CONFIGURABLE_MODES[0], variant: null });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      setDraft(parseAIConfigFile(await file.text()));
+      setSelection({ kind: 'mode', mode: CONFIGURABLE_MODES[0], variant: null });
+    } catch (e: any) {
+      onError(e.message || 'Could not import the AI configuration.');
+    }
+  };
+
+  const handleSave = () => {
+    let config: AIConfig;
+    try {
+      // Same checks as an imported file
+      config = parseAIConfigFile(JSON.stringify(draft));
+    } catch (e: any) {
+      onError(e.message);
+      return;
+    }
+    if (connection.proxyUrl.trim() && !/^https?:\/\//i.test(connection.proxyUrl.trim())) {
+      onError('The proxy server must be an http(s) URL.');
+      return;
+    }
+    const wasConnected = hasConnection();
+    try {
+      saveAIConfig(config);
+      saveConnectionSettings(connection);
+    } catch {
+      onError('Not enough browser storage for the AI settings.');
+      return;
+    }
+    onSave(config, !wasConnected && hasConnection());
+    onClose();
+  };
+
+  const title = selection.kind === 'mode' ? selection.mode : custom?.name ?? '';
+  const variants = baseMode?.variants ? Object.keys(baseMode.variants) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div className="w-[48rem] max-w-[95vw] h-[36rem] max-h-[90vh] flex flex-col bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-4">
+            <h2 className="text-sm font-bold text-gray-300 uppercase tracking-wider">AI Settings</h2>
+            <div className="flex space-x-2">
+              {TABS.map(t => (
+                <button
+                  key={t.value}
+                  onClick={() => setTab(t.value)}
+                  className={`px-2 py-1 rounded text-xs ${tab === t.value ? 'bg-gray-800 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {tab === 'prompts' && <div className="flex space-x-3 text-xs">
+            <button onClick={() => fileInputRef.current?.click()} className="text-gray-500 hover:text-gray-300">Import</button>
+            <button onClick={() => downloadBlob(exportAIConfig(draft), 'gemini-lens-ai-config.json')} className="text-gray-500 hover:text-gray-300">Export</button>
+            <button onClick={() => setDraft(DEFAULT_AI_CONFIG)} className="text-gray-500 hover:text-red-400" title="Restore the built-in prompts and remove custom modes">Reset</button>
+          </div>}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+
+        {tab === 'prompts' && <div className="flex-1 flex min-h-0 space-x-4">
+          <div className="w-48 shrink-0 overflow-y-auto space-y-4">
+            <div>
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">Modes</div>
+              {CONFIGURABLE_MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setSelection({ kind: 'mode', mode, variant: null })}
+                  className={listItemClass(selection.kind === 'mode' && selection.mode === mode)}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            <div>
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">Custom Modes</div>
+              {draft.customModes.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => setSelection({ kind: 'custom', id: mode.id })}
+                  className={listItemClass(selection.kind === 'custom' && selection.id === mode.id)}
+                >
+                  {mode.name}
+                </button>
+              ))}
+              <button
+                onClick={() => addCustomMode(DEFAULT_AI_CONFIG.modes[EditMode.CUSTOM]!, 'New Mode')}
+                className="w-full mt-1 py-1.5 rounded border border-dashed border-gray-700 text-xs text-gray-400 hover:text-white hover:border-gray-500"
+              >
+                + Add mode
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 min-w-0 overflow-y-auto space-y-4">
+            {custom ? (
+              <div className="flex items-center space-x-2">
+                <input value={custom.name} onChange={(e) => setDraft({ ...draft, customModes: draft.customModes.map(m => m.id === custom.id ? { ...m, name: e.target.value } : m) })} className={inputClass} />
+                <button onClick={() => removeCustomMode(custom.id)} className="text-gray-500 hover:text-red-400" title="Delete mode">
+                  <TrashIcon />
+                </button>
+              </div>
+            ) : (
+              <div className="text-sm font-semibold text-gray-200">{title}</div>
+            )}
+
+            {variants.length > 0 && selection.kind === 'mode' && (
+              <div className="flex flex-wrap gap-2">
+                {[null, ...variants].map(variant => (
+                  <button
+                    key={variant ?? 'default'}
+                    onClick={() => setSelection({ ...selection, variant })}
+                    className={`px-2 py-1 rounded border text-[10px] ${selection.variant === variant ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-750'}`}
+                  >
+                    {variant ? VARIANT_LABELS[variant] ?? variant : 'Default'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <div className="text-xs text-gray-400 font-medium mb-2">Prompt</div>
+              <textarea
+                value={settings.prompt}
+                onChange={(e) => update({ prompt: e.target.value })}
+                rows={6}
+                className={`${inputClass} resize-none`}
+              />
+              <p className="text-[10px] text-gray-500 mt-1">{'{prompt} {backgroundPrompt} {backgroundColor}'}</p>
+            </div>
+
+            <div>
+              <div className="text-xs text-gray-400 font-medium mb-2">Model</div>
+              <input value={settings.model} onChange={(e) => update({ model: e.target.value })} list="ai-model-options" className={inputClass} />
+              <datalist id="ai-model-options">
+                {MODEL_OPTIONS.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <div className="text-xs text-gray-400 font-medium mb-2">Aspect ratio</div>
+                <select value={settings.imageConfig.aspectRatio ?? ''} onChange={(e) => updateImageConfig('aspectRatio', e.target.value)} className={inputClass}>
+                  <option value="">Model default</option>
+                  {MODEL_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                </select>
+              </div>
+              <div>
+                <div className="text-xs text-gray-400 font-medium mb-2">Image size</div>
+                <select value={settings.imageConfig.imageSize ?? ''} onChange={(e) => updateImageConfig('imageSize', e.target.value)} className={inputClass}>
+                  <option value="">Model default</option>
+                  {IMAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={settings.requiresPaidKey} onChange={(e) => update({ requiresPaidKey: e.target.checked })} className="accent-primary-500" />
+              <span>Requires a paid API key</span>
+            </label>
+
+            {!custom && (
+              <button
+                onClick={() => addCustomMode(settings, `${title} (copy)`)}
+                className="text-xs text-gray-500 hover:text-gray-300"
+                title="Copy these settings into a custom mode to compare a different prompt or model"
+              >
+                Duplicate as custom mode
+              </button>
+            )}
+          </div>
+        </div>}
+
+        {tab === 'connection' && (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-5">
+            <div>
+              <div className="text-xs text-gray-400 font-medium mb-2">Gemini API key</div>
+              <div className="flex space-x-2">
+                <input
+                  type={showKey ? 'text' : 'password'}
+                  value={connection.apiKey}
+                  onChange={(e) => setConnection({ ...connection, apiKey: e.target.value })}
+                  placeholder={process.env.API_KEY ? 'Using the development key from .env.local' : 'Paste a key from Google AI Studio'}
+                  autoComplete="off"
+                  className={inputClass}
+                />
+                <button onClick={() => setShowKey(!showKey)} className="px-3 text-xs text-gray-500 hover:text-gray-300">{showKey ? 'Hide' : 'Show'}</button>
+                <button
+                  onClick={() => setConnection({ ...connection, apiKey: '' })}
+                  disabled={!connection.apiKey}
+                  className="px-3 text-xs text-gray-500 hover:text-red-400 disabled:opacity-40"
+                >
+                  Clear
+                </button>
+              </div>
+              <p className="text-[10px] text-gray-500 mt-1">
+                Stored in this browser only and sent straight to Google.
+                {savedKey && ` Saved key: ${maskApiKey(savedKey)}.`}
+              </p>
+            </div>
+
+            <div>
+              <div className="text-xs text-gray-400 font-medium mb-2">Proxy server</div>
+              <input
+                value={connection.proxyUrl}
+                onChange={(e) => setConnection({ ...connection, proxyUrl: e.target.value })}
+                placeholder="http://localhost:8787"
+                className={inputClass}
+              />
+              <p className="text-[10px] text-gray-500 mt-1">
+                When set, Gemini requests go through this proxy, which adds the key server-side, and the key above is not used.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {tab === 'usage' && (
+          <div className="flex-1 min-h-0">
+            <UsageLogPanel projectId={projectId} />
+          </div>
+        )}
+
+        <div className="flex space-x-2 mt-5">
+          <button onClick={onClose} className="flex-1 py-2 rounded-full bg-gray-800 hover:bg-gray-750 text-sm font-medium">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 py-2 bg-white text-black text-sm font-bold rounded-full hover:bg-gray-200 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsDialog;
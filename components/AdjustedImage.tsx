@@ -0,0 +1,72 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Adjustments, FilterType } from '../types';
+import { loadImage } from '../services/imageUtils';
+import { renderAdjusted, PREVIEW_MAX_SIZE_GL, PREVIEW_MAX_SIZE_SOFTWARE } from '../services/renderService';
+import { isWebGLAvailable } from '../services/webglEngine';
+import { Lut3D, loadLut } from '../services/lutService';
+
+interface AdjustedImageProps {
+  src: string;
+  adjustments: Adjustments;
+  filter: FilterType;
+  maxSize?: number; // Longest edge of the rendered preview
+  className?: string;
+  style?: React.CSSProperties;
+  onSize?: (size: { width: number; height: number }) => void; // Natural size of `src`
+}
+
+// Live preview of `src` through the same engine as export. Renders at most once
+// per frame while sliders are dragged.
+const AdjustedImage = ({ src, adjustments, filter, maxSize, className, style, onSize }: AdjustedImageProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const [lut, setLut] = useState<{ src: string; table: Lut3D } | null>(null);
+  const onSizeRef = useRef(onSize);
+  onSizeRef.current = onSize;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then(img => {
+        if (cancelled) return;
+        setSource(img);
+        onSizeRef.current?.({ width: img.naturalWidth, height: img.naturalHeight });
+      })
+      .catch(() => !cancelled && setSource(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const lutSrc = adjustments.lut?.src ?? null;
+  useEffect(() => {
+    if (!lutSrc) return;
+    let cancelled = false;
+    loadLut(lutSrc)
+      .then(table => !cancelled && setLut({ src: lutSrc, table }))
+      .catch(e => console.error('Failed to load LUT', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [lutSrc]);
+
+  useEffect(() => {
+    if (!source) return;
+    // Wait for the table rather than flashing the image without it
+    if (lutSrc && lut?.src !== lutSrc) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const limit = maxSize ?? (isWebGLAvailable() ? PREVIEW_MAX_SIZE_GL : PREVIEW_MAX_SIZE_SOFTWARE);
+      const rendered = renderAdjusted(source, adjustments, filter, lutSrc ? lut!.table : null, limit);
+      canvas.width = rendered.width;
+      canvas.height = rendered.height;
+      canvas.getContext('2d')!.drawImage(rendered, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, adjustments, filter, maxSize, lut]);
+
+  return <canvas ref={canvasRef} className={className} style={style} />;
+};
+
+export default AdjustedImage;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { SavedBackground } from '../types';
+import {
+  BACKGROUND_OPTIONS, BACKGROUND_CANDIDATES, loadBackgroundLibrary, saveBackgroundLibrary, createSavedBackground
+} from '../services/backgroundService';
+
+interface BackgroundPickerProps {
+  selectedColor: string;
+  customImage: string | null; // Uploaded, generated or saved background
+  prompt: string;
+  disabled: boolean;
+  onSelectColor: (value: string) => void;
+  onSelectImage: (dataUrl: string | null) => void;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: (prompt: string) => Promise<string[]>; // Resolves to [] on failure
+  onApply: () => void;
+  onError: (message: string) => void;
+}
+
+const swatchClass = (selected: boolean) =>
+  `w-8 h-8 rounded-full border-2 bg-cover bg-center ${selected ? 'border-white ring-2 ring-primary-500' : 'border-transparent'}`;
+
+// Replace Background source: a swatch, a described scene, a generated candidate
+// or an upload. Favorites are saved to a library shown next to the swatches.
+const BackgroundPicker = ({
+  selectedColor, customImage, prompt, disabled, onSelectColor, onSelectImage, onPromptChange, onGenerate, onApply, onError
+}: BackgroundPickerProps) => {
+  const [library, setLibrary] = useState<SavedBackground[]>(() => loadBackgroundLibrary());
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [candidatePrompt, setCandidatePrompt] = useState<string | null>(null); // Prompt the candidates came from
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [savedSources, setSavedSources] = useState<string[]>([]); // Library copies are downscaled, so track what was saved
+
+  const updateLibrary = (next: SavedBackground[]) => {
+    try {
+      saveBackgroundLibrary(next);
+      setLibrary(next);
+    } catch {
+      onError('Not enough browser storage for this background. Delete unused favorites first.');
+    }
+  };
+
+  const isSaved = customImage !== null && (savedSources.includes(customImage) || library.some(bg => bg.image === customImage));
+
+  const saveFavorite = async () => {
+    if (!customImage || isSaved) return;
+    try {
+      const fromCandidates = candidates.includes(customImage) ? candidatePrompt : null;
+      updateLibrary([await createSavedBackground(customImage, fromCandidates), ...library]);
+      setSavedSources(prev => [...prev, customImage]);
+    } catch {
+      onError('Could not save this background.');
+    }
+  };
+
+  const generate = async () => {
+    const text = prompt.trim();
+    if (!text) return;
+    setIsGenerating(true);
+    const results = await onGenerate(text);
+    setIsGenerating(false);
+    if (results.length > 0) {
+      setCandidates(results);
+      setCandidatePrompt(text);
+    }
+  };
+
+  const handleUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      if (ev.target?.result) onSelectImage(ev.target.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const usingColor = !customImage && !prompt.trim();
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-xl border border-gray-700">
+      <div className="text-xs font-semibold mb-2">Replace Background</div>
+      <div className="grid grid-cols-5 gap-2 mb-3">
+        {BACKGROUND_OPTIONS.map(opt => (
+          <button
+            key={opt.value}
+            onClick={() => onSelectColor(opt.value)}
+            className={swatchClass(usingColor && selectedColor === opt.value)}
+            style={{ background: opt.value }}
+            title={opt.name}
+          />
+        ))}
+        {library.map(bg => (
+          <div key={bg.id} className="relative group">
+            <button
+              onClick={() => onSelectImage(bg.image)}
+              className={swatchClass(customImage === bg.image)}
+              style={{ backgroundImage: `url(${bg.image})` }}
+              title={bg.name}
+            />
+            <button
+              onClick={() => updateLibrary(library.filter(b => b.id !== bg.id))}
+              className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-gray-900 border border-gray-600 text-[10px] leading-none text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100"
+              title="Remove from library"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-2 mb-2">
+        <input
+          value={prompt}
+          onChange={(e) => onPromptChange(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && generate()}
+          placeholder="Describe a background, e.g. studio softbox, grey seamless"
+          className="flex-1 min-w-0 px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500"
+        />
+        <button
+          onClick={generate}
+          disabled={disabled || isGenerating || !prompt.trim()}
+          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-medium disabled:opacity-40"
+          title={`Generate ${BACKGROUND_CANDIDATES} backgrounds to choose from`}
+        >
+          {isGenerating ? '…' : 'Generate'}
+        </button>
+      </div>
+
+      {candidates.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          {candidates.map((src, i) => (
+            <button
+              key={i}
+              onClick={() => onSelectImage(src)}
+              className={`aspect-video rounded-lg border-2 bg-cover bg-center ${customImage === src ? 'border-primary-500' : 'border-transparent hover:border-gray-500'}`}
+              style={{ backgroundImage: `url(${src})` }}
+              title={candidatePrompt ?? undefined}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-2 mb-3">
+        <label className="flex-1 text-center px-3 py-2 border border-dashed border-gray-600 rounded-lg text-xs text-gray-400 hover:bg-gray-700 cursor-pointer">
+          {customImage ? 'Image Selected' : 'Upload Custom BG'}
+          <input
+            type="file"
+            className="hidden"
+            accept="image/*"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleUpload(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {customImage && (
+          <button
+            onClick={saveFavorite}
+            disabled={isSaved}
+            className="px-3 py-2 rounded-lg border border-gray-600 text-xs text-gray-400 hover:text-yellow-300 disabled:text-yellow-300"
+            title={isSaved ? 'In your library' : 'Save to library'}
+          >
+            {isSaved ? '★' : '☆'}
+          </button>
+        )}
+      </div>
+
+      <p className="text-[10px] text-gray-500 mb-3">
+        {customImage ? 'The subject will be composited onto the selected image.'
+          : prompt.trim() ? 'The background will be generated from your description. Generate candidates to preview first.'
+          : 'Pick a color, describe a scene or upload an image.'}
+      </p>
+
+      <button
+        onClick={onApply}
+        disabled={disabled}
+        className="w-full py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold uppercase tracking-wide"
+      >
+        Apply Replace
+      </button>
+    </div>
+  );
+};
+
+export default BackgroundPicker;
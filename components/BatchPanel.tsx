@@ -0,0 +1,136 @@
+import React from 'react';
+import { CustomModeConfig, EditMode, Job, JobStatus } from '../types';
+
+interface BatchPanelProps {
+  selectedCount: number;
+  jobs: Job[];
+  imageNames: Record<string, string>;
+  canUseCustomPrompt: boolean;
+  customModes: CustomModeConfig[]; // From the AI configuration
+  exportStatus: string | null;
+  onApplyAI: (mode: EditMode, customModeId?: string) => void;
+  onCopySettings: (what: 'filter' | 'adjustments' | 'crop') => void;
+  onExportZip: () => void;
+  onCancel: (jobId: string) => void;
+  onCancelAll: () => void;
+  onRetry: (jobId: string) => void;
+  onClearFinished: () => void;
+}
+
+const BATCH_AI_MODES: EditMode[] = [
+  EditMode.ENHANCE,
+  EditMode.PIXEL_ART,
+  EditMode.ANIME,
+  EditMode.REMOVE_BG,
+  EditMode.REPLACE_BG,
+];
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-primary-400 animate-pulse',
+  done: 'text-emerald-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const buttonClass = 'w-full text-left px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-750 border border-gray-700 text-xs font-medium disabled:opacity-40';
+
+const BatchPanel = ({
+  selectedCount, jobs, imageNames, canUseCustomPrompt, customModes, exportStatus,
+  onApplyAI, onCopySettings, onExportZip, onCancel, onCancelAll, onRetry, onClearFinished
+}: BatchPanelProps) => {
+  const finished = jobs.filter(j => j.status === 'done' || j.status === 'failed' || j.status === 'cancelled').length;
+  const active = jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+  const none = selectedCount === 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">Batch</h3>
+        <p className="text-xs text-gray-500">
+          {none ? 'Ctrl/Shift-click images in the filmstrip to select them.' : `${selectedCount} image${selectedCount === 1 ? '' : 's'} selected`}
+        </p>
+      </div>
+
+      <div>
+        <div className="text-xs font-semibold mb-2">Apply AI</div>
+        <div className="space-y-2">
+          {BATCH_AI_MODES.map(mode => (
+            <button key={mode} onClick={() => onApplyAI(mode)} disabled={none} className={buttonClass}>
+              {mode}
+            </button>
+          ))}
+          <button onClick={() => onApplyAI(EditMode.CUSTOM)} disabled={none || !canUseCustomPrompt} className={buttonClass}>
+            Custom Prompt
+          </button>
+          {customModes.map(mode => (
+            <button key={mode.id} onClick={() => onApplyAI(EditMode.CUSTOM_MODE, mode.id)} disabled={none} className={`${buttonClass} truncate`} title={mode.prompt}>
+              {mode.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs font-semibold mb-2">Copy From Active Image</div>
+        <div className="grid grid-cols-3 gap-2">
+          {(['filter', 'adjustments', 'crop'] as const).map(what => (
+            <button
+              key={what}
+              onClick={() => onCopySettings(what)}
+              disabled={none}
+              className="py-2 rounded-lg bg-gray-800 hover:bg-gray-750 border border-gray-700 text-[10px] font-medium uppercase tracking-wide disabled:opacity-40"
+            >
+              {what === 'adjustments' ? 'Adjust' : what}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={onExportZip}
+        disabled={none || exportStatus !== null}
+        className="w-full py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold uppercase tracking-wide disabled:opacity-40"
+      >
+        {exportStatus ?? 'Export Selected as ZIP'}
+      </button>
+
+      {jobs.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs font-semibold">Queue ({finished}/{jobs.length})</div>
+            <div className="space-x-2">
+              {active > 0 && <button onClick={onCancelAll} className="text-[10px] text-red-400 hover:text-red-300 uppercase">Cancel all</button>}
+              {finished > 0 && <button onClick={onClearFinished} className="text-[10px] text-gray-400 hover:text-white uppercase">Clear</button>}
+            </div>
+          </div>
+          <div className="w-full h-1 bg-gray-800 rounded mb-3 overflow-hidden">
+            <div className="h-full bg-primary-500 transition-all" style={{ width: `${(finished / jobs.length) * 100}%` }} />
+          </div>
+          <div className="space-y-1">
+            {jobs.map(job => (
+              <div key={job.id} className="px-2 py-1.5 rounded bg-gray-800/60 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="truncate text-gray-300 mr-2" title={imageNames[job.imageId]}>{imageNames[job.imageId] ?? 'Removed image'}</span>
+                  <span className={`flex-shrink-0 capitalize ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                </div>
+                <div className="flex items-center justify-between mt-0.5">
+                  <span className="text-[10px] text-gray-500 truncate">{job.label}{job.attempts > 1 ? ` · try ${job.attempts}` : ''}</span>
+                  {(job.status === 'queued' || job.status === 'running') && (
+                    <button onClick={() => onCancel(job.id)} className="text-[10px] text-gray-400 hover:text-red-400">Cancel</button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button onClick={() => onRetry(job.id)} className="text-[10px] text-primary-400 hover:text-primary-300">Retry</button>
+                  )}
+                </div>
+                {job.error && <div className="text-[10px] text-red-400 mt-0.5 break-words">{job.error}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
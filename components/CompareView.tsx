@@ -0,0 +1,111 @@
+import React, { useRef } from 'react';
+import { Adjustments, CropSettings, FilterType } from '../types';
+import { ViewTransform } from '../services/viewportService';
+import ImageFrame from './ImageFrame';
+import PanZoomSurface from './PanZoomSurface';
+
+export type CompareMode = 'off' | 'split' | 'sideBySide';
+
+export interface ComparePane {
+  src: string;
+  adjustments: Adjustments;
+  filter: FilterType;
+  label: string;
+}
+
+interface CompareViewProps {
+  mode: Exclude<CompareMode, 'off'>;
+  before: ComparePane;
+  after: ComparePane;
+  imageSize: { width: number; height: number };
+  crop: CropSettings; // Both panes share the current framing so they line up
+  split: number;      // Divider position, 0..1 from the left
+  onSplitChange: (split: number) => void;
+  view: ViewTransform;
+  onViewChange: (view: ViewTransform) => void;
+  frameStyle: React.CSSProperties;
+}
+
+const Badge = ({ text, className }: { text: string; className: string }) => (
+  <span className={`absolute top-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-medium text-white pointer-events-none truncate max-w-[45%] ${className}`}>
+    {text}
+  </span>
+);
+
+const CompareView = ({
+  mode, before, after, imageSize, crop, split, onSplitChange, view, onViewChange, frameStyle
+}: CompareViewProps) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef(false);
+
+  const renderFrame = (pane: ComparePane, style: React.CSSProperties, children?: React.ReactNode) => (
+    <ImageFrame
+      src={pane.src}
+      imageSize={imageSize}
+      crop={crop}
+      showFullFrame={false}
+      adjustments={pane.adjustments}
+      filterType={pane.filter}
+      style={style}
+    >
+      {children}
+    </ImageFrame>
+  );
+
+  if (mode === 'sideBySide') {
+    return (
+      <div className="w-full h-full flex space-x-2">
+        {[before, after].map((pane, i) => (
+          <div key={i} className="relative flex-1 h-full">
+            <PanZoomSurface view={view} onViewChange={onViewChange} className="w-full h-full">
+              {renderFrame(pane, frameStyle)}
+            </PanZoomSurface>
+            <Badge text={pane.label} className="left-2" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // The divider works in frame space, so it stays on the same pixel while zoomed
+  const handleDividerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragging.current = true;
+  };
+
+  const handleDividerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging.current || !frameRef.current) return;
+    const bounds = frameRef.current.getBoundingClientRect();
+    onSplitChange(Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)));
+  };
+
+  return (
+    <PanZoomSurface view={view} onViewChange={onViewChange} className="w-full h-full">
+      {renderFrame(after, frameStyle, (
+        <div ref={frameRef} className="absolute inset-0">
+          <div className="absolute inset-0 flex items-center justify-center" style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}>
+            {renderFrame(before, frameStyle)}
+          </div>
+          <div
+            onPointerDown={handleDividerDown}
+            onPointerMove={handleDividerMove}
+            onPointerUp={() => { dragging.current = false; }}
+            onPointerCancel={() => { dragging.current = false; }}
+            className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center touch-none"
+            style={{ left: `${split * 100}%` }}
+          >
+            <div className="w-0.5 h-full bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)]" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white text-gray-900 text-[10px] font-bold flex items-center justify-center shadow-lg">
+              ⇔
+            </div>
+          </div>
+          <Badge text={before.label} className="left-2" />
+          <Badge text={after.label} className="right-2" />
+        </div>
+      ))}
+    </PanZoomSurface>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,90 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { CropRect } from '../types';
+import { CropHandle, dragCropRect } from '../services/cropService';
+
+interface CropOverlayProps {
+  rect: CropRect;
+  ratio: number | null; // Locked aspect in normalized units (width / height)
+  onCommit: (rect: CropRect) => void;
+}
+
+const HANDLES: { id: CropHandle; className: string }[] = [
+  { id: 'nw', className: '-top-1.5 -left-1.5 cursor-nwse-resize' },
+  { id: 'ne', className: '-top-1.5 -right-1.5 cursor-nesw-resize' },
+  { id: 'sw', className: '-bottom-1.5 -left-1.5 cursor-nesw-resize' },
+  { id: 'se', className: '-bottom-1.5 -right-1.5 cursor-nwse-resize' },
+  { id: 'n', className: '-top-1.5 left-1/2 -translate-x-1/2 cursor-ns-resize' },
+  { id: 's', className: '-bottom-1.5 left-1/2 -translate-x-1/2 cursor-ns-resize' },
+  { id: 'w', className: 'top-1/2 -left-1.5 -translate-y-1/2 cursor-ew-resize' },
+  { id: 'e', className: 'top-1/2 -right-1.5 -translate-y-1/2 cursor-ew-resize' },
+];
+
+// Draggable crop rectangle with rule-of-thirds guides. Dragging is kept local
+// and only committed (into history) when the pointer is released.
+const CropOverlay = ({ rect, ratio, onCommit }: CropOverlayProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<CropRect>(rect);
+  const drag = useRef<{ handle: CropHandle; startX: number; startY: number; startRect: CropRect } | null>(null);
+
+  useEffect(() => {
+    if (!drag.current) setDraft(rect);
+  }, [rect]);
+
+  const handlePointerDown = (handle: CropHandle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    drag.current = { handle, startX: e.clientX, startY: e.clientY, startRect: draft };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag.current || !containerRef.current) return;
+    const bounds = containerRef.current.getBoundingClientRect();
+    const dx = (e.clientX - drag.current.startX) / bounds.width;
+    const dy = (e.clientY - drag.current.startY) / bounds.height;
+    setDraft(dragCropRect(drag.current.startRect, drag.current.handle, dx, dy, ratio));
+  };
+
+  const handlePointerUp = () => {
+    if (!drag.current) return;
+    drag.current = null;
+    onCommit(draft);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className="absolute inset-0 z-10 overflow-hidden touch-none"
+    >
+      <div
+        onPointerDown={handlePointerDown('move')}
+        className="absolute border border-white/80 cursor-move"
+        style={{
+          left: `${draft.x * 100}%`,
+          top: `${draft.y * 100}%`,
+          width: `${draft.width * 100}%`,
+          height: `${draft.height * 100}%`,
+          boxShadow: '0 0 0 9999px rgba(0,0,0,0.55)',
+        }}
+      >
+        {/* Rule of thirds */}
+        <div className="absolute inset-y-0 left-1/3 w-px bg-white/30 pointer-events-none" />
+        <div className="absolute inset-y-0 left-2/3 w-px bg-white/30 pointer-events-none" />
+        <div className="absolute inset-x-0 top-1/3 h-px bg-white/30 pointer-events-none" />
+        <div className="absolute inset-x-0 top-2/3 h-px bg-white/30 pointer-events-none" />
+
+        {HANDLES.map(h => (
+          <div
+            key={h.id}
+            onPointerDown={handlePointerDown(h.id)}
+            className={`absolute w-3 h-3 bg-white rounded-sm shadow ${h.className}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CropOverlay;
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { ChannelCurves, CurvePoint, ToneChannel } from '../types';
+import { TONE_CHANNELS, IDENTITY_CURVE, createCurveSampler } from '../services/toneCurves';
+
+interface CurvesEditorProps {
+  curves: ChannelCurves;
+  onChange: (curves: ChannelCurves) => void; // Live while dragging
+  onChangeEnd: () => void;
+}
+
+export const CHANNEL_LABELS: Record<ToneChannel, string> = { rgb: 'RGB', r: 'Red', g: 'Green', b: 'Blue' };
+export const CHANNEL_COLORS: Record<ToneChannel, string> = { rgb: '#e5e7eb', r: '#ef4444', g: '#22c55e', b: '#3b82f6' };
+
+const MAX_POINTS = 16;
+const HIT_RADIUS = 10; // Curve units
+
+// Click to add a point, drag to move it, double-click to remove it
+const CurvesEditor = ({ curves, onChange, onChangeEnd }: CurvesEditorProps) => {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const points = curves[channel];
+
+  const toCurve = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const bounds = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round(Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)) * 255),
+      y: Math.round(Math.min(1, Math.max(0, 1 - (e.clientY - bounds.top) / bounds.height)) * 255),
+    };
+  };
+
+  const findPoint = (p: CurvePoint) => points.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) <= HIT_RADIUS);
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const p = toCurve(e);
+    let index = findPoint(p);
+    if (index < 0) {
+      if (points.length >= MAX_POINTS || points.some(q => q.x === p.x)) return;
+      const next = [...points, p].sort((a, b) => a.x - b.x);
+      index = next.indexOf(p);
+      setPoints(next);
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  // Points keep their order: x stays strictly between the neighbours
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const p = toCurve(e);
+    const minX = dragIndex > 0 ? points[dragIndex - 1].x + 1 : 0;
+    const maxX = dragIndex < points.length - 1 ? points[dragIndex + 1].x - 1 : 255;
+    setPoints(points.map((q, i) => i === dragIndex ? { x: Math.min(maxX, Math.max(minX, p.x)), y: p.y } : q));
+  };
+
+  const handlePointerUp = () => {
+    if (dragIndex === null) return;
+    setDragIndex(null);
+    onChangeEnd();
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const index = findPoint(toCurve(e));
+    if (index < 0 || points.length <= 2) return;
+    setPoints(points.filter((_, i) => i !== index));
+    onChangeEnd();
+  };
+
+  const sample = createCurveSampler(points);
+  let path = '';
+  for (let x = 0; x <= 255; x += 3) {
+    path += `${x === 0 ? 'M' : ' L'}${x},${255 - Math.min(255, Math.max(0, sample(x)))}`;
+  }
+  path += ` L255,${255 - Math.min(255, Math.max(0, sample(255)))}`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-1">
+        {TONE_CHANNELS.map(c => (
+          <button
+            key={c}
+            onClick={() => setChannel(c)}
+            className={`px-2 py-0.5 rounded text-xs ${channel === c ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {CHANNEL_LABELS[c]}
+          </button>
+        ))}
+        <button
+          onClick={() => { setPoints(IDENTITY_CURVE); onChangeEnd(); }}
+          className="ml-auto text-xs text-gray-500 hover:text-gray-300"
+        >
+          Reset
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox="-4 -4 263 263"
+        className="w-full aspect-square rounded-lg bg-gray-950 border border-gray-800 touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="#1f2937" strokeWidth={1}>
+            <line x1={v} y1={0} x2={v} y2={255} />
+            <line x1={0} y1={v} x2={255} y2={v} />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="#374151" strokeWidth={1} strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={CHANNEL_COLORS[channel]} strokeWidth={2} />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={255 - p.y}
+            r={4}
+            fill={i === dragIndex ? CHANNEL_COLORS[channel] : '#111827'}
+            stroke={CHANNEL_COLORS[channel]}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default CurvesEditor;
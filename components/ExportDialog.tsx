@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ExportFormat, ExportSettings, ResizeMode } from '../types';
+import {
+  FORMAT_OPTIONS, loadExportSettings, saveExportSettings, detectSupportedFormats,
+  getTargetSize, encodeExport, formatFilename, formatBytes, downloadBlob, isLossy
+} from '../services/exportService';
+import { DownloadIcon } from './Icons';
+
+interface ExportDialogProps {
+  source: HTMLCanvasElement; // Fully rendered image (crop, filters, adjustments applied)
+  imageName: string;
+  hasAlpha: boolean;
+  onClose: () => void;
+}
+
+const ESTIMATE_DEBOUNCE_MS = 300;
+
+const inputClass = 'w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500';
+
+const ExportDialog = ({ source, imageName, hasAlpha, onClose }: ExportDialogProps) => {
+  const supportedFormats = useMemo(() => detectSupportedFormats(), []);
+  const [settings, setSettings] = useState<ExportSettings>(() => {
+    const saved = loadExportSettings();
+    return supportedFormats.includes(saved.format) ? saved : { ...saved, format: 'image/png' };
+  });
+  const [estimate, setEstimate] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ExportSettings>) => {
+    setError(null);
+    setSettings(prev => ({ ...prev, ...patch }));
+  };
+
+  const target = getTargetSize(source.width, source.height, settings);
+  const filename = formatFilename(settings.filenameTemplate, { name: imageName, ...target, format: settings.format });
+
+  // Encode in the background to report the real output size
+  useEffect(() => {
+    let cancelled = false;
+    setEstimate(null);
+    const timer = setTimeout(async () => {
+      try {
+        const { blob } = await encodeExport(source, settings);
+        if (!cancelled) setEstimate(blob.size);
+      } catch {
+        if (!cancelled) setEstimate(null);
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source, settings]);
+
+  // Encoding can fail (canvas too large, format unsupported); the dialog stays open to try other settings
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { blob } = await encodeExport(source, settings);
+      saveExportSettings(settings);
+      downloadBlob(blob, filename);
+      onClose();
+    } catch (err: any) {
+      setError(`Export failed: ${err?.message || 'the image could not be encoded'}. Try another format or a smaller size.`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div className="w-96 bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-sm font-bold text-gray-300 uppercase tracking-wider">Export</h2>
+
+        <div>
+          <div className="text-xs text-gray-400 font-medium mb-2">Format</div>
+          <div className="grid grid-cols-4 gap-2">
+            {FORMAT_OPTIONS.filter(f => supportedFormats.includes(f.value)).map(f => (
+              <button
+                key={f.value}
+                onClick={() => update({ format: f.value as ExportFormat })}
+                className={`py-2 rounded-lg border text-xs font-medium
+                  ${settings.format === f.value ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-750'}
+                `}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          {hasAlpha && settings.format === 'image/jpeg' && (
+            <p className="text-xs text-amber-400 mt-2">JPEG has no transparency; it will be flattened onto white.</p>
+          )}
+        </div>
+
+        {isLossy(settings.format) && (
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs text-gray-400 font-medium">Quality</label>
+              <span className="text-xs text-primary-400">{settings.quality}</span>
+            </div>
+            <input
+              type="range"
+              min={1}
+              max={100}
+              value={settings.quality}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+            />
+          </div>
+        )}
+
+        <div>
+          <div className="text-xs text-gray-400 font-medium mb-2">Size</div>
+          <select
+            value={settings.resizeMode}
+            onChange={(e) => update({ resizeMode: e.target.value as ResizeMode })}
+            className={`${inputClass} mb-2`}
+          >
+            <option value="original">Original ({source.width} × {source.height})</option>
+            <option value="dimensions">Width × Height</option>
+            <option value="longEdge">Long edge</option>
+          </select>
+
+          {settings.resizeMode === 'dimensions' && (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <input type="number" min={1} value={settings.width} onChange={(e) => update({ width: Number(e.target.value) })} className={inputClass} />
+                <span className="text-gray-500 text-xs">×</span>
+                <input type="number" min={1} value={settings.height} onChange={(e) => update({ height: Number(e.target.value) })} className={inputClass} />
+              </div>
+              <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer">
+                <input type="checkbox" checked={settings.keepAspect} onChange={(e) => update({ keepAspect: e.target.checked })} className="accent-primary-500" />
+                <span>Fit inside, keep aspect ratio</span>
+              </label>
+            </div>
+          )}
+
+          {settings.resizeMode === 'longEdge' && (
+            <input type="number" min={1} value={settings.longEdge} onChange={(e) => update({ longEdge: Number(e.target.value) })} className={inputClass} />
+          )}
+
+          {settings.resizeMode !== 'original' && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-xs text-gray-400">Resampling</span>
+              <select
+                value={settings.resampling}
+                onChange={(e) => update({ resampling: e.target.value as ImageSmoothingQuality })}
+                className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none"
+              >
+                <option value="low">Fast</option>
+                <option value="medium">Balanced</option>
+                <option value="high">Best</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <div className="text-xs text-gray-400 font-medium mb-2">Filename</div>
+          <input
+            value={settings.filenameTemplate}
+            onChange={(e) => update({ filenameTemplate: e.target.value })}
+            className={inputClass}
+          />
+          <p className="text-[10px] text-gray-500 mt-1">{'{name} {date} {time} {width} {height}'}</p>
+        </div>
+
+        <div className="p-3 bg-gray-800 rounded-xl border border-gray-700 text-xs text-gray-400 space-y-1">
+          <div className="truncate" title={filename}><span className="text-gray-500">File:</span> {filename}</div>
+          <div><span className="text-gray-500">Dimensions:</span> {target.width} × {target.height}</div>
+          <div><span className="text-gray-500">Estimated size:</span> {estimate !== null ? formatBytes(estimate) : '…'}</div>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        <div className="flex space-x-2">
+          <button onClick={onClose} className="flex-1 py-2 rounded-full bg-gray-800 hover:bg-gray-750 text-sm font-medium">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 flex items-center justify-center space-x-2 py-2 bg-white text-black text-sm font-bold rounded-full hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <DownloadIcon />
+            <span>Save</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,54 @@
+import React, { useState, useEffect } from 'react';
+import { ImageState } from '../types';
+import { renderPreview } from '../services/renderService';
+import { Histogram, computeHistogram, getHistogramPeak, getHistogramPath } from '../services/histogramService';
+
+interface HistogramPanelProps {
+  image: ImageState;
+}
+
+const SAMPLE_SIZE = 256;     // Long edge of the analysed render
+const UPDATE_DELAY_MS = 60;  // Coalesces slider drags
+const HEIGHT = 80;
+
+const CHANNELS = [
+  { key: 'r', color: '#ef4444' },
+  { key: 'g', color: '#22c55e' },
+  { key: 'b', color: '#3b82f6' },
+] as const;
+
+// RGB histogram of the rendered output, including crop, filter and adjustments
+const HistogramPanel = ({ image }: HistogramPanelProps) => {
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const canvas = await renderPreview(image, SAMPLE_SIZE);
+        const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+        if (!cancelled) setHistogram(computeHistogram(data));
+      } catch (e) {
+        console.error('Histogram failed', e);
+      }
+    }, UPDATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image.current, image.adjustments, image.filter, image.crop]);
+
+  const peak = histogram ? getHistogramPeak(histogram) : 1;
+
+  return (
+    <div className="rounded-lg bg-gray-950 border border-gray-800 p-2">
+      <svg viewBox={`0 0 255 ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 block">
+        {histogram && CHANNELS.map(({ key, color }) => (
+          <path key={key} d={getHistogramPath(histogram[key], peak, HEIGHT)} fill={color} fillOpacity={0.55} style={{ mixBlendMode: 'screen' }} />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default HistogramPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { buildHistoryRows } from '../services/historyService';
+import Thumbnail from './Thumbnail';
+
+interface HistoryPanelProps {
+  history: HistoryEntry[];
+  historyIndex: number;
+  disabled: boolean;
+  onJump: (index: number) => void;
+}
+
+const INDENT_PX = 14;
+
+const HistoryPanel = ({ history, historyIndex, disabled, onJump }: HistoryPanelProps) => {
+  const rows = buildHistoryRows(history, historyIndex);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-1">History</h3>
+        <p className="text-xs text-gray-500">Click a step to return to it. Editing from an earlier step starts a new branch.</p>
+      </div>
+
+      <div className="space-y-1">
+        {rows.map(({ entry, index, depth, onPath }) => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(index)}
+            disabled={disabled}
+            style={{ marginLeft: depth * INDENT_PX, width: `calc(100% - ${depth * INDENT_PX}px)` }}
+            className={`flex items-center p-1.5 rounded-lg border text-left transition-all disabled:cursor-not-allowed
+              ${index === historyIndex
+                ? 'bg-primary-600/20 border-primary-500 text-white'
+                : `border-transparent hover:bg-gray-800 ${onPath ? 'text-gray-300' : 'text-gray-500'}`}
+            `}
+          >
+            {depth > 0 && <span className="text-gray-600 text-xs mr-1">↳</span>}
+            <Thumbnail
+              src={entry.current!}
+              className="w-9 h-9 flex-shrink-0 rounded object-cover bg-gray-950"
+              adjustments={entry.adjustments}
+              filter={entry.filter}
+            />
+            <span className="ml-2 text-xs truncate" title={entry.label}>{entry.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
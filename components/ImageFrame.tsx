@@ -0,0 +1,69 @@
+import React from 'react';
+import { Adjustments, CropSettings, FilterType } from '../types';
+import { FULL_RECT, getFrameSize, getTransformCss } from '../services/cropService';
+import AdjustedImage from './AdjustedImage';
+
+interface ImageFrameProps {
+  src: string;
+  imageSize: { width: number; height: number };
+  crop: CropSettings;
+  showFullFrame: boolean; // Ignore the crop rect (used while editing it)
+  adjustments: Adjustments;
+  filterType: FilterType;
+  maxSize?: number; // Preview resolution cap, e.g. for the minimap
+  pixelated?: boolean; // Nearest-neighbour scaling for 1:1 inspection at high zoom
+  style?: React.CSSProperties;
+  onSize?: (size: { width: number; height: number }) => void;
+  children?: React.ReactNode;
+}
+
+// CSS preview of drawTransformed: the image is rotated/flipped inside its frame
+// and the frame is offset so only the crop rect is visible.
+const ImageFrame = ({ src, imageSize, crop, showFullFrame, adjustments, filterType, maxSize, pixelated, style, onSize, children }: ImageFrameProps) => {
+  const frame = getFrameSize(imageSize.width, imageSize.height, crop);
+  const rect = showFullFrame ? FULL_RECT : (crop.rect ?? FULL_RECT);
+  const viewWidth = rect.width * frame.width;
+  const viewHeight = rect.height * frame.height;
+  const ratio = viewWidth / viewHeight;
+
+  return (
+    <div
+      className="relative overflow-hidden"
+      style={{
+        ...style,
+        aspectRatio: `${viewWidth} / ${viewHeight}`,
+        width: `min(100%, calc((100vh - 12rem) * ${ratio}), ${viewWidth}px)`,
+      }}
+    >
+      <div
+        className="absolute"
+        style={{
+          left: `${(-rect.x / rect.width) * 100}%`,
+          top: `${(-rect.y / rect.height) * 100}%`,
+          width: `${100 / rect.width}%`,
+          height: `${100 / rect.height}%`,
+        }}
+      >
+        <AdjustedImage
+          src={src}
+          adjustments={adjustments}
+          filter={filterType}
+          maxSize={maxSize}
+          onSize={onSize}
+          className="absolute max-w-none"
+          style={{
+            width: `${(imageSize.width / frame.width) * 100}%`,
+            height: `${(imageSize.height / frame.height) * 100}%`,
+            left: `${((1 - imageSize.width / frame.width) / 2) * 100}%`,
+            top: `${((1 - imageSize.height / frame.height) / 2) * 100}%`,
+            transform: getTransformCss(frame.width, frame.height, crop),
+            imageRendering: pixelated ? 'pixelated' : undefined,
+          }}
+        />
+      </div>
+      {children}
+    </div>
+  );
+};
+
+export default ImageFrame;
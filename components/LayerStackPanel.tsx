@@ -0,0 +1,120 @@
+import React from 'react';
+import { BlendMode, PixelLayer } from '../types';
+import { BLEND_MODES } from '../services/layerService';
+import { TrashIcon } from './Icons';
+
+interface LayerStackPanelProps {
+  layers: PixelLayer[];
+  selectedId: string | null;
+  hasPaintedMask: boolean; // A mask is painted in the Inpaint tab
+  onSelect: (id: string | null) => void;
+  onUpdate: (id: string, patch: Partial<PixelLayer>, label: string | null) => void; // null = live, no history step
+  onCommit: (label: string) => void;
+  onMaskFromPaint: (id: string) => void;
+  onInvertMask: (id: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, direction: 1 | -1) => void; // Up or down the stack
+}
+
+const actionClass = 'flex-1 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40';
+
+// Image layers (the upload and AI results), composited into the edited image
+const LayerStackPanel = ({
+  layers, selectedId, hasPaintedMask, onSelect, onUpdate, onCommit, onMaskFromPaint, onInvertMask, onRemove, onMove
+}: LayerStackPanelProps) => {
+  // Default to the top layer, which is usually the latest AI result
+  const selected = layers.find(layer => layer.id === selectedId) ?? layers[layers.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Image Layers</h3>
+        <div className="space-y-1">
+          {/* Topmost first, like most editors */}
+          {[...layers].reverse().map((layer, i) => (
+            <div
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`group flex items-center px-2 py-1.5 rounded cursor-pointer ${layer.id === selected?.id ? 'bg-primary-600/20 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+            >
+              <button
+                onClick={(e) => { e.stopPropagation(); onUpdate(layer.id, { visible: !layer.visible }, layer.visible ? 'Hide Layer' : 'Show Layer'); }}
+                className={`w-5 text-xs ${layer.visible ? 'text-primary-400' : 'text-gray-600'}`}
+                title={layer.visible ? 'Hide' : 'Show'}
+              >
+                {layer.visible ? '●' : '○'}
+              </button>
+              <img src={layer.src} alt="" className={`w-8 h-8 mr-2 rounded object-cover bg-gray-800 ${layer.visible ? '' : 'opacity-40'}`} />
+              <div className="flex-1 min-w-0">
+                <div className="text-xs truncate">{layer.name}</div>
+                <div className="text-[10px] text-gray-500 truncate">
+                  {Math.round(layer.opacity * 100)}% · {BLEND_MODES.find(m => m.value === layer.blendMode)?.name}{layer.mask ? ' · Mask' : ''}
+                </div>
+              </div>
+              <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, 1); }} disabled={i === 0} className="px-1 text-gray-500 hover:text-white disabled:opacity-30">↑</button>
+              <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, -1); }} disabled={i === layers.length - 1} className="px-1 text-gray-500 hover:text-white disabled:opacity-30">↓</button>
+              {layers.length > 1 && (
+                <button onClick={(e) => { e.stopPropagation(); onRemove(layer.id); }} className="ml-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100">
+                  <TrashIcon />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        {layers.length === 1 && (
+          <p className="text-xs text-gray-500 mt-2">AI edits are added as new layers, so they can be blended over the original.</p>
+        )}
+      </div>
+
+      {selected && (
+        <div className="space-y-3">
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs text-gray-400 font-medium">Opacity</label>
+              <span className="text-xs text-primary-400">{Math.round(selected.opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={selected.opacity}
+              onChange={(e) => onUpdate(selected.id, { opacity: Number(e.target.value) }, null)}
+              onPointerUp={() => onCommit('Layer Opacity')}
+              onKeyUp={() => onCommit('Layer Opacity')}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+            />
+          </div>
+          <label className="flex items-center justify-between text-xs text-gray-400">
+            Blend
+            <select
+              value={selected.blendMode}
+              onChange={(e) => onUpdate(selected.id, { blendMode: e.target.value as BlendMode }, 'Blend Mode')}
+              className="w-36 px-2 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500"
+            >
+              {BLEND_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.name}</option>)}
+            </select>
+          </label>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs text-gray-400 font-medium">Mask</span>
+              {selected.mask && <img src={selected.mask} alt="" className="w-8 h-8 rounded object-cover border border-gray-700" />}
+            </div>
+            <div className="flex space-x-2">
+              <button onClick={() => onMaskFromPaint(selected.id)} disabled={!hasPaintedMask} className={actionClass}>
+                From painted area
+              </button>
+              <button onClick={() => onInvertMask(selected.id)} disabled={!selected.mask} className={actionClass}>Invert</button>
+              <button onClick={() => onUpdate(selected.id, { mask: null }, 'Remove Mask')} disabled={!selected.mask} className={actionClass}>Remove</button>
+            </div>
+            {!hasPaintedMask && !selected.mask && (
+              <p className="text-xs text-gray-500 mt-2">Paint an area in the Inpaint tab to limit this layer to it.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayerStackPanel;
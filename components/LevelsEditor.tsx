@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ChannelLevels, LevelsSettings, ToneChannel } from '../types';
+import { TONE_CHANNELS, DEFAULT_LEVELS } from '../services/toneCurves';
+import { CHANNEL_LABELS } from './CurvesEditor';
+
+interface LevelsEditorProps {
+  levels: ChannelLevels;
+  onChange: (levels: ChannelLevels) => void; // Live while dragging
+  onChangeEnd: () => void;
+}
+
+interface LevelsField {
+  key: keyof LevelsSettings;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const FIELDS: LevelsField[] = [
+  { key: 'inputBlack', label: 'Input Black', min: 0, max: 254, step: 1 },
+  { key: 'gamma', label: 'Midtones', min: 0.1, max: 9.99, step: 0.01 },
+  { key: 'inputWhite', label: 'Input White', min: 1, max: 255, step: 1 },
+  { key: 'outputBlack', label: 'Output Black', min: 0, max: 255, step: 1 },
+  { key: 'outputWhite', label: 'Output White', min: 0, max: 255, step: 1 },
+];
+
+const LevelsEditor = ({ levels, onChange, onChangeEnd }: LevelsEditorProps) => {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const current = levels[channel];
+
+  // Input black stays below input white so the range never collapses
+  const update = (key: keyof LevelsSettings, value: number) => {
+    const next = { ...current, [key]: value };
+    if (key === 'inputBlack') next.inputBlack = Math.min(value, current.inputWhite - 1);
+    if (key === 'inputWhite') next.inputWhite = Math.max(value, current.inputBlack + 1);
+    onChange({ ...levels, [channel]: next });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-1">
+        {TONE_CHANNELS.map(c => (
+          <button
+            key={c}
+            onClick={() => setChannel(c)}
+            className={`px-2 py-0.5 rounded text-xs ${channel === c ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {CHANNEL_LABELS[c]}
+          </button>
+        ))}
+        <button
+          onClick={() => { onChange({ ...levels, [channel]: DEFAULT_LEVELS }); onChangeEnd(); }}
+          className="ml-auto text-xs text-gray-500 hover:text-gray-300"
+        >
+          Reset
+        </button>
+      </div>
+      {FIELDS.map(({ key, label, min, max, step }) => (
+        <div key={key}>
+          <div className="flex justify-between mb-1">
+            <label className="text-xs text-gray-400 font-medium">{label}</label>
+            <span className="text-xs text-primary-400">{key === 'gamma' ? current.gamma.toFixed(2) : current[key]}</span>
+          </div>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={current[key]}
+            onChange={(e) => update(key, Number(e.target.value))}
+            onPointerUp={onChangeEnd}
+            onKeyUp={onChangeEnd}
+            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LevelsEditor;
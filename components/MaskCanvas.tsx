@@ -0,0 +1,146 @@
+import React, { useRef, useEffect } from 'react';
+import { MaskTool } from '../types';
+
+interface MaskCanvasProps {
+  width: number;   // Natural width of the underlying image
+  height: number;  // Natural height of the underlying image
+  tool: MaskTool;
+  brushSize: number; // In screen pixels
+  onChange: (maskDataUrl: string | null) => void;
+  resetKey: number; // Changing this clears the mask
+  initialMask?: string | null; // Restored when the layer remounts (e.g. after switching tabs)
+}
+
+const MASK_COLOR = 'rgba(239, 68, 68, 1)';
+
+// Paint layer rendered at the image's natural resolution and stretched over it,
+// so the exported mask lines up pixel-for-pixel with the source image.
+const MaskCanvas = ({ width, height, tool, brushSize, onChange, resetKey, initialMask }: MaskCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const lassoPoints = useRef<{ x: number; y: number }[]>([]);
+  const snapshot = useRef<ImageData | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // Assigning the size also wipes the bitmap
+    canvas.width = width;
+    canvas.height = height;
+  }, [width, height, resetKey]);
+
+  useEffect(() => {
+    if (!initialMask) return;
+    const img = new Image();
+    img.onload = () => canvasRef.current?.getContext('2d')?.drawImage(img, 0, 0, width, height);
+    img.src = initialMask;
+    // Only on mount: afterwards the canvas itself is the source of truth
+  }, []);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const isEmpty = (ctx: CanvasRenderingContext2D) => {
+    const data = ctx.getImageData(0, 0, width, height).data;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) return false;
+    }
+    return true;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y, scale } = toCanvasPoint(e);
+
+    if (tool === 'lasso') {
+      lassoPoints.current = [{ x, y }];
+      snapshot.current = ctx.getImageData(0, 0, width, height);
+      return;
+    }
+
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.beginPath();
+    ctx.arc(x, y, (brushSize * scale) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    lastPoint.current = { x, y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+
+    if (tool === 'lasso') {
+      lassoPoints.current.push({ x, y });
+      // Redraw the outline on top of the pre-lasso state
+      ctx.putImageData(snapshot.current!, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = 2 * scale;
+      ctx.beginPath();
+      lassoPoints.current.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke();
+      return;
+    }
+
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(lastPoint.current!.x, lastPoint.current!.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPoint.current = { x, y };
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    if (tool === 'lasso') {
+      ctx.putImageData(snapshot.current!, 0, 0);
+      if (lassoPoints.current.length > 2) {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = MASK_COLOR;
+        ctx.beginPath();
+        lassoPoints.current.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.closePath();
+        ctx.fill();
+      }
+      lassoPoints.current = [];
+      snapshot.current = null;
+    }
+
+    onChange(isEmpty(ctx) ? null : canvas.toDataURL('image/png'));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none z-10"
+    />
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,217 @@
+import React, { useRef } from 'react';
+import { OverlayLayer, TextOverlay } from '../types';
+import { FONT_OPTIONS, describeOverlay } from '../services/overlayService';
+import { TrashIcon } from './Icons';
+
+export type NewOverlay = 'text' | 'rect' | 'ellipse' | 'arrow';
+
+interface OverlayPanelProps {
+  overlays: OverlayLayer[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onAdd: (kind: NewOverlay) => void;
+  onAddImage: (file: File, watermark: boolean) => void;
+  onChange: (id: string, patch: Partial<OverlayLayer>) => void; // Live, no history step
+  onCommit: (label: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, direction: 1 | -1) => void; // Up or down the stack
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500';
+const addClass = 'py-2 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 hover:bg-gray-700 hover:text-white';
+
+const Range = ({ label, value, min, max, step, onChange, onCommit }: {
+  label: string, value: number, min: number, max: number, step: number, onChange: (v: number) => void, onCommit: () => void
+}) => (
+  <div>
+    <div className="flex justify-between mb-1">
+      <label className="text-xs text-gray-400 font-medium">{label}</label>
+      <span className="text-xs text-primary-400">{Math.round(value * 100)}%</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      onPointerUp={onCommit}
+      onKeyUp={onCommit}
+      className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+    />
+  </div>
+);
+
+const Color = ({ label, value, onChange, onCommit }: { label: string, value: string, onChange: (v: string) => void, onCommit: () => void }) => (
+  <label className="flex items-center justify-between text-xs text-gray-400">
+    {label}
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onBlur={onCommit}
+      className="w-8 h-6 bg-transparent border border-gray-700 rounded cursor-pointer"
+    />
+  </label>
+);
+
+const OverlayPanel = ({ overlays, selectedId, onSelect, onAdd, onAddImage, onChange, onCommit, onRemove, onMove }: OverlayPanelProps) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const watermarkRef = useRef(false);
+  const selected = overlays.find(layer => layer.id === selectedId);
+
+  const pickImage = (watermark: boolean) => {
+    watermarkRef.current = watermark;
+    fileRef.current?.click();
+  };
+
+  const renderTextProps = (layer: TextOverlay) => {
+    const change = (patch: Partial<TextOverlay>) => onChange(layer.id, patch);
+    return (
+      <>
+        <textarea
+          value={layer.text}
+          onChange={(e) => change({ text: e.target.value })}
+          onBlur={() => onCommit('Edit Text')}
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+        <select
+          value={layer.fontFamily}
+          onChange={(e) => { change({ fontFamily: e.target.value }); onCommit('Font'); }}
+          className={inputClass}
+        >
+          {FONT_OPTIONS.map(f => <option key={f.value} value={f.value}>{f.name}</option>)}
+        </select>
+        <div className="flex space-x-1">
+          {([['bold', 'B'], ['italic', 'I']] as const).map(([key, text]) => (
+            <button
+              key={key}
+              onClick={() => { change({ [key]: !layer[key] }); onCommit(key === 'bold' ? 'Bold' : 'Italic'); }}
+              className={`flex-1 py-1 rounded text-xs ${key === 'italic' ? 'italic' : 'font-bold'} ${layer[key] ? 'bg-primary-600 text-white' : 'bg-gray-800 text-gray-400'}`}
+            >
+              {text}
+            </button>
+          ))}
+          {(['left', 'center', 'right'] as const).map(align => (
+            <button
+              key={align}
+              onClick={() => { change({ align }); onCommit('Align Text'); }}
+              className={`flex-1 py-1 rounded text-[10px] capitalize ${layer.align === align ? 'bg-primary-600 text-white' : 'bg-gray-800 text-gray-400'}`}
+            >
+              {align}
+            </button>
+          ))}
+        </div>
+        <Color label="Color" value={layer.color} onChange={(color) => change({ color })} onCommit={() => onCommit('Text Color')} />
+        <Color label="Stroke" value={layer.strokeColor} onChange={(strokeColor) => change({ strokeColor })} onCommit={() => onCommit('Stroke Color')} />
+        <Range label="Stroke Width" value={layer.strokeWidth} min={0} max={0.3} step={0.01} onChange={(strokeWidth) => change({ strokeWidth })} onCommit={() => onCommit('Stroke Width')} />
+        <Range label="Shadow" value={layer.shadowBlur} min={0} max={1} step={0.01} onChange={(shadowBlur) => change({ shadowBlur })} onCommit={() => onCommit('Text Shadow')} />
+      </>
+    );
+  };
+
+  const renderProps = (layer: OverlayLayer) => (
+    <div className="space-y-3">
+      {layer.kind === 'text' && renderTextProps(layer)}
+      {layer.kind === 'shape' && (
+        <>
+          <Color label="Outline" value={layer.stroke} onChange={(stroke) => onChange(layer.id, { stroke })} onCommit={() => onCommit('Outline Color')} />
+          <Range label="Outline Width" value={layer.strokeWidth} min={0} max={0.25} step={0.01} onChange={(strokeWidth) => onChange(layer.id, { strokeWidth })} onCommit={() => onCommit('Outline Width')} />
+          <label className="flex items-center justify-between text-xs text-gray-400">
+            <span className="flex items-center">
+              <input
+                type="checkbox"
+                checked={layer.fill !== null}
+                onChange={(e) => { onChange(layer.id, { fill: e.target.checked ? layer.stroke : null }); onCommit('Fill'); }}
+                className="mr-2 accent-primary-500"
+              />
+              Fill
+            </span>
+            {layer.fill !== null && (
+              <input
+                type="color"
+                value={layer.fill}
+                onChange={(e) => onChange(layer.id, { fill: e.target.value })}
+                onBlur={() => onCommit('Fill Color')}
+                className="w-8 h-6 bg-transparent border border-gray-700 rounded cursor-pointer"
+              />
+            )}
+          </label>
+        </>
+      )}
+      {layer.kind === 'arrow' && (
+        <Color label="Color" value={layer.color} onChange={(color) => onChange(layer.id, { color })} onCommit={() => onCommit('Arrow Color')} />
+      )}
+      <Range label="Opacity" value={layer.opacity} min={0} max={1} step={0.01} onChange={(opacity) => onChange(layer.id, { opacity })} onCommit={() => onCommit('Layer Opacity')} />
+      <div className="flex justify-between text-xs">
+        <button onClick={() => { onChange(layer.id, { rotation: 0 }); onCommit('Reset Rotation'); }} className="text-gray-500 hover:text-gray-300">
+          Reset rotation
+        </button>
+        <button onClick={() => onRemove(layer.id)} className="text-gray-500 hover:text-red-400">Delete layer</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Add</h3>
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={() => onAdd('text')} className={addClass}>Text</button>
+          <button onClick={() => onAdd('rect')} className={addClass}>Rectangle</button>
+          <button onClick={() => onAdd('ellipse')} className={addClass}>Ellipse</button>
+          <button onClick={() => onAdd('arrow')} className={addClass}>Arrow</button>
+          <button onClick={() => pickImage(false)} className={addClass}>Sticker</button>
+          <button onClick={() => pickImage(true)} className={addClass}>Watermark</button>
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onAddImage(file, watermarkRef.current);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Overlays</h3>
+        {overlays.length === 0 ? (
+          <p className="text-xs text-gray-500">Overlays are drawn over the image and flattened on export. Drag them in the viewport to move; use the handles to resize and rotate.</p>
+        ) : (
+          <div className="space-y-1">
+            {/* Topmost first, like most editors */}
+            {[...overlays].reverse().map((layer, i) => (
+              <div
+                key={layer.id}
+                onClick={() => onSelect(layer.id)}
+                className={`group flex items-center px-2 py-1.5 rounded cursor-pointer ${layer.id === selectedId ? 'bg-primary-600/20 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+              >
+                <span className="text-[10px] uppercase w-10 text-gray-500">{layer.kind}</span>
+                <span className="flex-1 text-xs truncate">{describeOverlay(layer)}</span>
+                <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, 1); }} disabled={i === 0} className="px-1 text-gray-500 hover:text-white disabled:opacity-30">↑</button>
+                <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, -1); }} disabled={i === overlays.length - 1} className="px-1 text-gray-500 hover:text-white disabled:opacity-30">↓</button>
+                <button onClick={(e) => { e.stopPropagation(); onRemove(layer.id); }} className="ml-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100">
+                  <TrashIcon />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div>
+          <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Properties</h3>
+          {renderProps(selected)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OverlayPanel;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { OverlayLayer } from '../types';
+import { drawOverlays, hitTestOverlays, loadOverlayImages } from '../services/overlayService';
+
+interface OverlayStageProps {
+  overlays: OverlayLayer[];
+  interactive: boolean;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (id: string, patch: Partial<OverlayLayer>) => void; // Live while dragging
+  onCommit: (label: string) => void;
+}
+
+type DragMode = 'move' | 'scale' | 'rotate';
+
+interface Drag {
+  mode: DragMode;
+  layer: OverlayLayer;
+  startX: number; // Stage pixels
+  startY: number;
+  width: number;  // Stage size at drag start
+  height: number;
+}
+
+const DRAG_LABELS: Record<DragMode, string> = { move: 'Move Layer', scale: 'Resize Layer', rotate: 'Rotate Layer' };
+
+// Draws overlays over the image frame with the export renderer. When
+// interactive, layers can be selected, moved, scaled and rotated.
+const OverlayStage = ({ overlays, interactive, selectedId, onSelect, onChange, onCommit }: OverlayStageProps) => {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  // offsetWidth ignores the viewport zoom, so the canvas keeps a fixed resolution
+  useEffect(() => {
+    const el = stageRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setSize({ width: el.offsetWidth, height: el.offsetHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadOverlayImages(overlays).then(images => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(size.width * ratio));
+      canvas.height = Math.max(1, Math.round(size.height * ratio));
+      const ctx = canvas.getContext('2d')!;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawOverlays(ctx, overlays, canvas.width, canvas.height, images);
+    }).catch(e => console.error('Failed to draw overlays', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [overlays, size]);
+
+  const toStage = (e: React.PointerEvent) => {
+    const bounds = stageRef.current!.getBoundingClientRect();
+    return { x: e.clientX - bounds.left, y: e.clientY - bounds.top, width: bounds.width, height: bounds.height };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode, layer: OverlayLayer) => {
+    // Keep the viewport from panning
+    e.stopPropagation();
+    stageRef.current!.setPointerCapture(e.pointerId);
+    const p = toStage(e);
+    setDrag({ mode, layer, startX: p.x, startY: p.y, width: p.width, height: p.height });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!interactive || e.button !== 0) return;
+    const p = toStage(e);
+    const hit = hitTestOverlays(overlays, p.x, p.y, p.width, p.height);
+    onSelect(hit?.id ?? null);
+    if (hit) startDrag(e, 'move', hit);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const p = toStage(e);
+    const { layer, width, height } = drag;
+    const cx = layer.x * width;
+    const cy = layer.y * height;
+    if (drag.mode === 'move') {
+      onChange(layer.id, { x: layer.x + (p.x - drag.startX) / width, y: layer.y + (p.y - drag.startY) / height });
+    } else if (drag.mode === 'scale') {
+      // Uniform scale by distance from the center
+      const factor = Math.max(0.05, Math.hypot(p.x - cx, p.y - cy) / Math.max(1, Math.hypot(drag.startX - cx, drag.startY - cy)));
+      onChange(layer.id, { width: layer.width * factor, height: layer.height * factor });
+    } else {
+      // The rotate handle sits above the box, i.e. at -90°
+      let rotation = Math.atan2(p.y - cy, p.x - cx) * 180 / Math.PI + 90;
+      if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+      onChange(layer.id, { rotation: ((rotation + 540) % 360) - 180 });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    onCommit(DRAG_LABELS[drag.mode]);
+  };
+
+  const selected = interactive ? overlays.find(layer => layer.id === selectedId) : undefined;
+
+  return (
+    <div
+      ref={stageRef}
+      className={`absolute inset-0 ${interactive ? '' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      {selected && (
+        <div
+          className="absolute border border-primary-400 pointer-events-none"
+          style={{
+            left: `${(selected.x - selected.width / 2) * 100}%`,
+            top: `${(selected.y - selected.height / 2) * 100}%`,
+            width: `${selected.width * 100}%`,
+            height: `${selected.height * 100}%`,
+            transform: `rotate(${selected.rotation}deg)`,
+          }}
+        >
+          <div
+            onPointerDown={(e) => startDrag(e, 'rotate', selected)}
+            className="absolute left-1/2 -top-6 w-3 h-3 -ml-1.5 rounded-full bg-white border border-primary-500 cursor-grab pointer-events-auto"
+            title="Rotate (hold Shift to snap)"
+          />
+          <div
+            onPointerDown={(e) => startDrag(e, 'scale', selected)}
+            className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border border-primary-500 cursor-nwse-resize pointer-events-auto"
+            title="Resize"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OverlayStage;
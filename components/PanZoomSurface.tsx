@@ -0,0 +1,149 @@
+import React, { useRef, useEffect } from 'react';
+import { ViewTransform, ViewportLayout, IDENTITY_VIEW, zoomAround, getViewTransformCss } from '../services/viewportService';
+
+interface PanZoomSurfaceProps {
+  view: ViewTransform;
+  onViewChange: (view: ViewTransform) => void;
+  onLayout?: (layout: ViewportLayout) => void;
+  // Cursor position in normalized content coordinates, null when outside it
+  onPointerInfo?: (point: { x: number; y: number } | null) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+// Wheel / pinch zooms around the cursor, dragging pans, double-click resets.
+// Several surfaces can share one `view` to stay in sync.
+const PanZoomSurface = ({ view, onViewChange, onLayout, onPointerInfo, className, children }: PanZoomSurfaceProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef<Map<number, Point>>(new Map());
+  const getPoints = (): Point[] => Array.from(pointers.current.values());
+  const gesture = useRef<{ startView: ViewTransform; startX: number; startY: number; startDistance: number } | null>(null);
+
+  // Listeners registered once read the latest props through refs
+  const viewRef = useRef(view);
+  const onViewChangeRef = useRef(onViewChange);
+  const onLayoutRef = useRef(onLayout);
+  viewRef.current = view;
+  onViewChangeRef.current = onViewChange;
+  onLayoutRef.current = onLayout;
+
+  // React registers wheel handlers as passive, which can't block page scrolling
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const bounds = el.getBoundingClientRect();
+      const current = viewRef.current;
+      onViewChangeRef.current(zoomAround(
+        current,
+        current.zoom * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED),
+        e.clientX - bounds.left - bounds.width / 2,
+        e.clientY - bounds.top - bounds.height / 2
+      ));
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // offsetWidth ignores transforms, so this is the size at zoom 1
+  useEffect(() => {
+    const container = containerRef.current;
+    const content = contentRef.current?.firstElementChild as HTMLElement | null;
+    if (!container || !content) return;
+    const measure = () => onLayoutRef.current?.({
+      containerWidth: container.clientWidth,
+      containerHeight: container.clientHeight,
+      contentWidth: content.offsetWidth,
+      contentHeight: content.offsetHeight,
+    });
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    observer.observe(content);
+    measure();
+    return () => observer.disconnect();
+  }, []);
+
+  // One pointer pans; two pointers pinch-zoom around their midpoint
+  const startGesture = () => {
+    const points = getPoints();
+    const bounds = containerRef.current!.getBoundingClientRect();
+    const mid = points.reduce((acc, p) => ({ x: acc.x + p.x / points.length, y: acc.y + p.y / points.length }), { x: 0, y: 0 });
+    gesture.current = {
+      startView: viewRef.current,
+      startX: mid.x - bounds.left - bounds.width / 2,
+      startY: mid.y - bounds.top - bounds.height / 2,
+      startDistance: points.length > 1 ? Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y) : 0,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    containerRef.current?.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    startGesture();
+  };
+
+  const reportPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!onPointerInfo) return;
+    const content = contentRef.current?.firstElementChild as HTMLElement | null;
+    if (!content) return;
+    const bounds = content.getBoundingClientRect();
+    const x = (e.clientX - bounds.left) / bounds.width;
+    const y = (e.clientY - bounds.top) / bounds.height;
+    onPointerInfo(x >= 0 && x < 1 && y >= 0 && y < 1 ? { x, y } : null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    reportPointer(e);
+    if (!pointers.current.has(e.pointerId) || !gesture.current) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const points = getPoints();
+    const bounds = containerRef.current!.getBoundingClientRect();
+    const mid = points.reduce((acc, p) => ({ x: acc.x + p.x / points.length, y: acc.y + p.y / points.length }), { x: 0, y: 0 });
+    const midX = mid.x - bounds.left - bounds.width / 2;
+    const midY = mid.y - bounds.top - bounds.height / 2;
+    const { startView, startX, startY, startDistance } = gesture.current;
+
+    let next = { ...startView, x: startView.x + midX - startX, y: startView.y + midY - startY };
+    if (points.length > 1 && startDistance > 0) {
+      const distance = Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+      next = zoomAround(next, startView.zoom * distance / startDistance, midX, midY);
+    }
+    onViewChange(next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size > 0) startGesture();
+    else gesture.current = null;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => onPointerInfo?.(null)}
+      onDoubleClick={() => onViewChange(IDENTITY_VIEW)}
+      className={`relative overflow-hidden touch-none cursor-grab active:cursor-grabbing ${className ?? ''}`}
+    >
+      <div ref={contentRef} className="w-full h-full flex items-center justify-center" style={{ transform: getViewTransformCss(view) }}>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default PanZoomSurface;
@@ -0,0 +1,171 @@
+import React, { useState, useRef } from 'react';
+import { FilterPreset, ImageState } from '../types';
+import { loadPresets, savePresets, createPreset, exportPresets, parsePresetFile } from '../services/presetService';
+import { downloadBlob } from '../services/exportService';
+import { TrashIcon } from './Icons';
+
+interface PresetPanelProps {
+  image: ImageState;
+  imageCount: number;
+  onImportLut: (file: File) => void;
+  onRemoveLut: () => void;
+  onApply: (preset: FilterPreset, scope: 'image' | 'all') => void;
+  onError: (message: string) => void;
+}
+
+const PresetPanel = ({ image, imageCount, onImportLut, onRemoveLut, onApply, onError }: PresetPanelProps) => {
+  const [presets, setPresets] = useState<FilterPreset[]>(() => loadPresets());
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+
+  const updatePresets = (next: FilterPreset[]) => {
+    try {
+      savePresets(next);
+      setPresets(next);
+    } catch {
+      onError('Not enough browser storage for this preset. Try a smaller LUT or delete unused presets.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!saveName.trim()) return;
+    try {
+      updatePresets([await createPreset(saveName.trim(), image), ...presets]);
+      setSaveName('');
+      setIsSaving(false);
+    } catch (e: any) {
+      onError(e.message || 'Could not save preset.');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      updatePresets([...parsePresetFile(await file.text()), ...presets]);
+    } catch (e: any) {
+      onError(e.message || 'Could not import presets.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">LUT</h3>
+        <div className="flex items-center space-x-2">
+          <div className="flex-1 min-w-0 text-xs text-gray-300 truncate" title={image.adjustments.lut?.name}>
+            {image.adjustments.lut ? image.adjustments.lut.name : <span className="text-gray-500">None</span>}
+          </div>
+          {image.adjustments.lut && (
+            <button onClick={onRemoveLut} className="text-xs text-gray-500 hover:text-red-400">Remove</button>
+          )}
+          <button
+            onClick={() => lutInputRef.current?.click()}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-medium"
+          >
+            Import .cube
+          </button>
+        </div>
+        <input
+          ref={lutInputRef}
+          type="file"
+          accept=".cube"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportLut(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Presets</h3>
+          <div className="flex space-x-2 text-xs">
+            <button onClick={() => presetInputRef.current?.click()} className="text-gray-500 hover:text-gray-300">Import</button>
+            <button
+              onClick={() => downloadBlob(exportPresets(presets), 'gemini-lens-presets.json')}
+              disabled={presets.length === 0}
+              className="text-gray-500 hover:text-gray-300 disabled:opacity-40"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+        <input
+          ref={presetInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+
+        {isSaving ? (
+          <div className="flex space-x-2 mb-3">
+            <input
+              autoFocus
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Preset name"
+              className="flex-1 min-w-0 px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!saveName.trim()}
+              className="px-3 py-1.5 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-medium disabled:opacity-40"
+            >
+              Save
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsSaving(true)}
+            className="w-full mb-3 py-2 rounded-lg border border-dashed border-gray-700 text-xs text-gray-400 hover:text-white hover:border-gray-500"
+          >
+            Save current look as preset
+          </button>
+        )}
+
+        {presets.length === 0 ? (
+          <p className="text-xs text-gray-500">Presets store the filter, adjustments, curves, levels and LUT.</p>
+        ) : (
+          <div className="space-y-1">
+            {presets.map(preset => (
+              <div key={preset.id} className="group flex items-center px-2 py-1.5 rounded hover:bg-gray-800">
+                <button onClick={() => onApply(preset, 'image')} className="flex-1 text-left min-w-0" title="Apply to this image">
+                  <div className="text-xs font-medium text-gray-200 truncate">{preset.name}</div>
+                  <div className="text-[10px] text-gray-500 truncate">
+                    {preset.filter}{preset.lut ? ` · ${preset.lut.name}` : ''}
+                  </div>
+                </button>
+                {imageCount > 1 && (
+                  <button
+                    onClick={() => onApply(preset, 'all')}
+                    className="ml-2 px-2 py-0.5 rounded text-[10px] text-gray-400 bg-gray-900 hover:text-white"
+                    title="Apply to every image in the filmstrip"
+                  >
+                    All {imageCount}
+                  </button>
+                )}
+                <button
+                  onClick={() => updatePresets(presets.filter(p => p.id !== preset.id))}
+                  className="ml-2 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresetPanel;
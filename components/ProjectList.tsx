@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { ProjectSummary } from '../types';
+import { TrashIcon, AddImageIcon } from './Icons';
+import { HISTORY_BUDGET_OPTIONS } from '../services/historyMemory';
+import { formatBytes } from '../services/exportService';
+
+interface ProjectListProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+  memoryUsage: number; // Bytes of image data held by the open project
+  historyBudgetMb: number;
+  onHistoryBudgetChange: (mb: number) => void;
+}
+
+// Object URLs for cover blobs, revoked when the list changes or unmounts
+const useCoverUrls = (projects: ProjectSummary[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    projects.forEach(p => {
+      if (p.cover) next[p.id] = URL.createObjectURL(p.cover);
+    });
+    setUrls(next);
+    return () => Object.values(next).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+  return urls;
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const ProjectList = ({
+  projects, currentProjectId, onOpen, onDelete, onNew, onClose, memoryUsage, historyBudgetMb, onHistoryBudgetChange
+}: ProjectListProps) => {
+  const coverUrls = useCoverUrls(projects);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+      <div className="w-[32rem] max-h-[80vh] flex flex-col bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold text-gray-300 uppercase tracking-wider">Projects</h2>
+          <button
+            onClick={onNew}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-primary-600 hover:bg-primary-500 text-white rounded-full text-xs font-bold"
+          >
+            <AddImageIcon />
+            <span>New Project</span>
+          </button>
+        </div>
+
+        {projects.length === 0 ? (
+          <p className="text-xs text-gray-500 py-8 text-center">No saved projects yet. Projects are saved automatically as you edit.</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                onClick={() => onOpen(project.id)}
+                className={`group flex items-center p-2 rounded-xl border cursor-pointer transition-all
+                  ${project.id === currentProjectId ? 'bg-primary-600/20 border-primary-500' : 'bg-gray-800 border-gray-700 hover:bg-gray-750'}
+                `}
+              >
+                <div className="w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-gray-950">
+                  {coverUrls[project.id] && <img src={coverUrls[project.id]} className="w-full h-full object-cover" alt="" />}
+                </div>
+                <div className="flex-1 min-w-0 ml-3">
+                  <div className="text-sm font-medium truncate">{project.name}</div>
+                  <div className="text-[10px] text-gray-500">
+                    {project.imageCount} image{project.imageCount === 1 ? '' : 's'} · {formatDate(project.updatedAt)}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+                  }}
+                  className="p-2 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  title="Delete project"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-800 text-xs text-gray-400">
+          <span>Undo memory: {formatBytes(memoryUsage)} used</span>
+          <label className="flex items-center space-x-2">
+            <span>Budget</span>
+            <select
+              value={historyBudgetMb}
+              onChange={(e) => onHistoryBudgetChange(Number(e.target.value))}
+              className="px-2 py-1 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none"
+            >
+              {HISTORY_BUDGET_OPTIONS.map(mb => (
+                <option key={mb} value={mb}>{mb >= 1024 ? `${mb / 1024} GB` : `${mb} MB`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { SavedPrompt } from '../types';
+import { loadPromptLibrary, savePromptLibrary, parseTags, filterPrompts } from '../services/promptLibrary';
+import { TrashIcon } from './Icons';
+
+interface PromptPanelProps {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  onApply: () => void;
+  recentPrompts: string[];
+  disabled: boolean;
+}
+
+const PromptPanel = ({ prompt, onPromptChange, onApply, recentPrompts, disabled }: PromptPanelProps) => {
+  const [library, setLibrary] = useState<SavedPrompt[]>(() => loadPromptLibrary());
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveTags, setSaveTags] = useState('');
+  const [query, setQuery] = useState('');
+
+  const updateLibrary = (next: SavedPrompt[]) => {
+    setLibrary(next);
+    savePromptLibrary(next);
+  };
+
+  const handleSave = () => {
+    if (!prompt.trim() || !saveName.trim()) return;
+    updateLibrary([
+      {
+        id: Math.random().toString(36).substr(2, 9),
+        name: saveName.trim(),
+        prompt: prompt.trim(),
+        tags: parseTags(saveTags),
+        createdAt: Date.now(),
+      },
+      ...library,
+    ]);
+    setSaveName('');
+    setSaveTags('');
+    setIsSaving(false);
+  };
+
+  const handleDelete = (id: string) => {
+    updateLibrary(library.filter(p => p.id !== id));
+  };
+
+  const visiblePrompts = filterPrompts(library, query);
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-xl border border-gray-700">
+      <div className="text-xs font-semibold mb-2">Custom Instruction</div>
+      <textarea
+        value={prompt}
+        onChange={(e) => onPromptChange(e.target.value)}
+        placeholder="e.g. Make the sky a dramatic sunset"
+        rows={3}
+        className="w-full mb-2 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-xs text-gray-200 resize-none focus:outline-none focus:border-primary-500"
+      />
+      <div className="flex space-x-2 mb-3">
+        <button
+          onClick={onApply}
+          disabled={disabled || !prompt.trim()}
+          className="flex-1 py-2 bg-primary-600 hover:bg-primary-500 text-white rounded-lg text-xs font-bold uppercase tracking-wide disabled:opacity-40"
+        >
+          Apply
+        </button>
+        <button
+          onClick={() => setIsSaving(!isSaving)}
+          disabled={!prompt.trim()}
+          className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-xs font-medium disabled:opacity-40"
+        >
+          Save
+        </button>
+      </div>
+
+      {isSaving && (
+        <div className="space-y-2 mb-3">
+          <input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Name"
+            className="w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500"
+          />
+          <input
+            value={saveTags}
+            onChange={(e) => setSaveTags(e.target.value)}
+            placeholder="Tags (comma separated)"
+            className="w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!saveName.trim()}
+            className="w-full py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg text-xs font-medium disabled:opacity-40"
+          >
+            Add to Library
+          </button>
+        </div>
+      )}
+
+      {recentPrompts.length > 0 && (
+        <div className="mb-3">
+          <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Recent on this image</div>
+          <div className="space-y-1">
+            {recentPrompts.map(p => (
+              <button
+                key={p}
+                onClick={() => onPromptChange(p)}
+                className="w-full text-left px-2 py-1 rounded text-xs text-gray-400 hover:bg-gray-700 hover:text-gray-200 truncate"
+                title={p}
+              >
+                {p}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {library.length > 0 && (
+        <div>
+          <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">Library</div>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search name or tag"
+            className="w-full mb-2 px-3 py-1.5 bg-gray-900 border border-gray-700 rounded-lg text-xs focus:outline-none focus:border-primary-500"
+          />
+          <div className="space-y-1">
+            {visiblePrompts.map(p => (
+              <div key={p.id} className="group flex items-start px-2 py-1.5 rounded hover:bg-gray-700">
+                <button onClick={() => onPromptChange(p.prompt)} className="flex-1 text-left min-w-0" title={p.prompt}>
+                  <div className="text-xs font-medium text-gray-200 truncate">{p.name}</div>
+                  {p.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {p.tags.map(tag => (
+                        <span key={tag} className="px-1.5 py-0.5 bg-gray-900 rounded text-[10px] text-primary-400">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                </button>
+                <button onClick={() => handleDelete(p.id)} className="ml-2 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100">
+                  <TrashIcon />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptPanel;
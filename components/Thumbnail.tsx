@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { Adjustments, FilterType } from '../types';
+import { getThumbnailUrl } from '../services/blobStore';
+import { isNeutral, normalizeAdjustments } from '../services/adjustments';
+import AdjustedImage from './AdjustedImage';
+
+interface ThumbnailProps {
+  src: string;
+  className?: string;
+  style?: React.CSSProperties;
+  adjustments?: Adjustments; // Rendered through the engine when set
+  filter?: FilterType;
+}
+
+// Renders a cached downscaled copy of `src` instead of the full-size image
+const Thumbnail = ({ src, className, style, adjustments, filter = FilterType.NONE }: ThumbnailProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getThumbnailUrl(src)
+      .then(thumb => !cancelled && setUrl(thumb))
+      .catch(() => !cancelled && setUrl(src));
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  if (!url) return <div className={`${className ?? ''} bg-gray-800`} />;
+  if (adjustments && !isNeutral(normalizeAdjustments(adjustments), filter)) {
+    return <AdjustedImage src={url} adjustments={adjustments} filter={filter} className={className} style={style} />;
+  }
+  return <img src={url} className={className} style={style} alt="" />;
+};
+
+export default Thumbnail;
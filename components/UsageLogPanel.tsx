@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { UsageLogEntry } from '../types';
+import {
+  UsageScope, getUsageLog, subscribeUsageLog, filterUsageLog, summarizeUsageLog, clearUsageLog, exportUsageLog, formatCost, formatUsage
+} from '../services/usageService';
+import { downloadBlob } from '../services/exportService';
+
+interface UsageLogPanelProps {
+  projectId: string | null;
+}
+
+const SCOPES: { value: UsageScope; label: string }[] = [
+  { value: 'session', label: 'This session' },
+  { value: 'project', label: 'This project' },
+  { value: 'all', label: 'All time' },
+];
+
+// Rows shown; the export has everything in scope
+const VISIBLE_ENTRIES = 100;
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay ? date.toLocaleTimeString() : date.toLocaleString();
+};
+
+const UsageLogPanel = ({ projectId }: UsageLogPanelProps) => {
+  const [log, setLog] = useState<UsageLogEntry[]>(() => getUsageLog());
+  const [scope, setScope] = useState<UsageScope>('session');
+
+  useEffect(() => subscribeUsageLog(setLog), []);
+
+  const entries = filterUsageLog(log, scope, projectId);
+  const summary = summarizeUsageLog(entries);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex space-x-2">
+          {SCOPES.map(s => (
+            <button
+              key={s.value}
+              onClick={() => setScope(s.value)}
+              disabled={s.value === 'project' && !projectId}
+              className={`px-2 py-1 rounded border text-[10px] disabled:opacity-40 ${scope === s.value ? 'bg-primary-600/20 border-primary-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-750'}`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex space-x-3 text-xs">
+          <button
+            onClick={() => downloadBlob(exportUsageLog(entries), 'gemini-lens-usage.csv')}
+            disabled={entries.length === 0}
+            className="text-gray-500 hover:text-gray-300 disabled:opacity-40"
+          >
+            Export CSV
+          </button>
+          <button onClick={clearUsageLog} disabled={log.length === 0} className="text-gray-500 hover:text-red-400 disabled:opacity-40">Clear</button>
+        </div>
+      </div>
+
+      <div className="p-3 mb-3 bg-gray-800 rounded-xl border border-gray-700 text-xs text-gray-400">
+        {summary.requests} request{summary.requests === 1 ? '' : 's'} · {formatUsage(summary)}
+        <p className="text-[10px] text-gray-500 mt-1">Costs are estimates from list prices at the time of each request.</p>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500">No AI requests yet.</p>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          <table className="w-full text-[10px] text-gray-400">
+            <thead className="text-gray-500 text-left">
+              <tr>
+                <th className="font-medium pb-1">Time</th>
+                <th className="font-medium pb-1">Mode</th>
+                <th className="font-medium pb-1">Model</th>
+                <th className="font-medium pb-1 text-right">Tokens</th>
+                <th className="font-medium pb-1 text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.slice(0, VISIBLE_ENTRIES).map(entry => (
+                <tr key={entry.id} className="border-t border-gray-800">
+                  <td className="py-1 pr-2 whitespace-nowrap">{formatTime(entry.timestamp)}</td>
+                  <td className="py-1 pr-2">{entry.mode}</td>
+                  <td className="py-1 pr-2 truncate max-w-[10rem]">{entry.usage?.model ?? '—'}</td>
+                  <td className="py-1 pr-2 text-right">{entry.usage ? entry.usage.totalTokens.toLocaleString() : '—'}</td>
+                  <td className={`py-1 text-right ${entry.error ? 'text-red-400' : ''}`}>
+                    {entry.error ? `Failed (${entry.error})` : formatCost(entry.cost)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageLogPanel;
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { AIEditOutcome } from '../services/editPipeline';
+import { UsageSummary, formatUsage } from '../services/usageService';
+
+interface VariationPickerProps {
+  label: string;               // The edit, e.g. "Anime Style"
+  outcomes: AIEditOutcome[];
+  requested: number;           // Variations asked for; failed ones are missing from `outcomes`
+  usage: UsageSummary;         // Every generation of this set, including regenerations
+  isRegenerating: boolean;
+  onPick: (index: number) => void;
+  onKeep: (indices: number[]) => void; // Adds them to the filmstrip as new images
+  onRegenerate: () => void;
+  onClose: () => void;
+}
+
+const VariationPicker = ({ label, outcomes, requested, usage, isRegenerating, onPick, onKeep, onRegenerate, onClose }: VariationPickerProps) => {
+  const [checked, setChecked] = useState<number[]>([]);
+
+  // Regenerating replaces the results, so ticks would point at new images
+  useEffect(() => setChecked([]), [outcomes]);
+
+  const toggle = (index: number) => {
+    setChecked(checked.includes(index) ? checked.filter(i => i !== index) : [...checked, index]);
+  };
+
+  return (
+    // No click-outside close: results are paid for, so discarding takes an explicit click
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center">
+      <div className="w-[44rem] max-w-[95vw] max-h-[90vh] flex flex-col bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl p-6">
+        <div className="flex items-baseline justify-between mb-1">
+          <h2 className="text-sm font-bold text-gray-300 uppercase tracking-wider">{label}</h2>
+          <span className="text-xs text-gray-500">{formatUsage(usage)}</span>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          Click a result to apply it, or tick several to keep them as new images.
+          {outcomes.length < requested && ` ${requested - outcomes.length} of ${requested} failed.`}
+          {usage.requests > requested && ` ${usage.requests} requests so far.`}
+        </p>
+
+        <div className={`grid grid-cols-2 gap-3 overflow-y-auto ${isRegenerating ? 'opacity-40 pointer-events-none' : ''}`}>
+          {outcomes.map((outcome, i) => (
+            <div key={outcome.patch.current ?? i} className="relative group">
+              <button
+                onClick={() => onPick(i)}
+                className="block w-full rounded-lg overflow-hidden border-2 border-transparent hover:border-primary-500 bg-gray-800"
+              >
+                <img src={outcome.patch.current!} alt={`Variation ${i + 1}`} className="w-full h-56 object-contain" />
+              </button>
+              <label className="absolute top-2 left-2 flex items-center space-x-1 px-2 py-1 rounded bg-black/60 text-[10px] text-gray-200 cursor-pointer">
+                <input type="checkbox" checked={checked.includes(i)} onChange={() => toggle(i)} className="accent-primary-500" />
+                <span>#{i + 1}</span>
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mt-5">
+          <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-300">Discard all</button>
+          <div className="flex space-x-2">
+            <button
+              onClick={onRegenerate}
+              disabled={isRegenerating}
+              className="px-4 py-2 rounded-lg bg-gray-800 border border-gray-700 text-xs text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+            >
+              {isRegenerating ? 'Generating…' : 'Regenerate'}
+            </button>
+            <button
+              onClick={() => onKeep(checked)}
+              disabled={checked.length === 0 || isRegenerating}
+              className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-500 text-white text-xs font-bold disabled:opacity-40"
+            >
+              Keep {checked.length || ''} as new image{checked.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariationPicker;
@@ -0,0 +1,91 @@
+import React, { useRef } from 'react';
+
+export interface PixelReadout {
+  x: number; // Image pixel coordinates
+  y: number;
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface ViewportControlsProps {
+  pixelScale: number; // Screen pixels per image pixel
+  onFit: () => void;
+  onPixelScale: (scale: number) => void;
+  minimap: {
+    preview: React.ReactNode; // The framed image, drawn to fill the minimap
+    aspect: number;           // width / height of the framed image
+    visible: { x: number; y: number; width: number; height: number };
+    onNavigate: (x: number, y: number) => void;
+  } | null; // Hidden while the whole image is visible
+  readout: PixelReadout | null;
+}
+
+const MINIMAP_WIDTH = 160;
+
+const toHex = (r: number, g: number, b: number) => `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+
+const presetClass = 'px-2 py-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-800';
+
+const ViewportControls = ({ pixelScale, onFit, onPixelScale, minimap, readout }: ViewportControlsProps) => {
+  const minimapRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef(false);
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!minimap || !minimapRef.current) return;
+    const bounds = minimapRef.current.getBoundingClientRect();
+    minimap.onNavigate(
+      Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height))
+    );
+  };
+
+  return (
+    <>
+      <div className="absolute bottom-2 left-2 z-40 flex items-center space-x-1 bg-gray-900/90 border border-gray-700 rounded-full px-2 py-1 shadow-lg text-xs">
+        <button onClick={onFit} className={presetClass}>Fit</button>
+        <button onClick={() => onPixelScale(1)} className={presetClass}>100%</button>
+        <button onClick={() => onPixelScale(2)} className={presetClass}>200%</button>
+        <span className="w-12 text-right text-primary-400 tabular-nums">{Math.round(pixelScale * 100)}%</span>
+      </div>
+
+      {readout && (
+        <div className="absolute bottom-2 right-2 z-40 flex items-center space-x-2 bg-gray-900/90 border border-gray-700 rounded-full px-3 py-1 shadow-lg text-[11px] text-gray-300 tabular-nums">
+          <span className="w-3 h-3 rounded-sm border border-gray-600" style={{ backgroundColor: `rgba(${readout.r}, ${readout.g}, ${readout.b}, ${readout.a / 255})` }} />
+          <span>{readout.x}, {readout.y}</span>
+          <span>RGB {readout.r} {readout.g} {readout.b}{readout.a < 255 ? ` α${readout.a}` : ''}</span>
+          <span className="text-primary-400">{toHex(readout.r, readout.g, readout.b)}</span>
+        </div>
+      )}
+
+      {minimap && (
+        <div
+          ref={minimapRef}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragging.current = true;
+            navigate(e);
+          }}
+          onPointerMove={(e) => dragging.current && navigate(e)}
+          onPointerUp={() => { dragging.current = false; }}
+          className="absolute top-2 right-2 z-40 rounded-lg overflow-hidden border border-gray-700 shadow-lg bg-gray-900 cursor-crosshair touch-none"
+          style={{ width: MINIMAP_WIDTH, height: MINIMAP_WIDTH / minimap.aspect }}
+        >
+          <div className="w-full h-full pointer-events-none">{minimap.preview}</div>
+          <div
+            className="absolute border-2 border-primary-400 bg-primary-400/10 pointer-events-none"
+            style={{
+              left: `${minimap.visible.x * 100}%`,
+              top: `${minimap.visible.y * 100}%`,
+              width: `${minimap.visible.width * 100}%`,
+              height: `${minimap.visible.height * 100}%`,
+            }}
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ViewportControls;
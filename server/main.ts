@@ -0,0 +1,61 @@
+import { readFileSync } from "node:fs";
+import { parseAIConfigFile, DEFAULT_AI_CONFIG } from "../services/aiConfig";
+import { createProxyServer } from "./proxyServer";
+import { createRateLimiter } from "./rateLimiter";
+import { createResponseCache } from "./responseCache";
+import { createGeminiUpstream, createStubUpstream } from "./upstream";
+
+// Starts the Lens proxy. Configured through the environment:
+//   GEMINI_API_KEY         Key used for upstream calls
+//   PROXY_UPSTREAM=stub    Echo images back instead of calling Gemini (no key needed)
+//   PROXY_PORT             Default 8787
+//   PROXY_HOST             Default 127.0.0.1
+//   AI_CONFIG              Path to an AI configuration file for /edit
+//   RATE_LIMIT_PER_MINUTE  Upstream calls per user, default 30
+//   CACHE_MAX_MB           Default 256; 0 disables the cache
+//   CORS_ORIGIN            Default *
+//   TRUST_PROXY=1          Behind a gateway: identify users by X-Lens-User or X-Forwarded-For
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) throw new Error(`${name} must be a non-negative number.`);
+  return number;
+};
+
+const main = () => {
+  const useStub = process.env.PROXY_UPSTREAM === 'stub';
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!useStub && !apiKey) {
+    throw new Error('Set GEMINI_API_KEY, or PROXY_UPSTREAM=stub to run without Gemini.');
+  }
+
+  const configPath = process.env.AI_CONFIG;
+  const aiConfig = configPath ? parseAIConfigFile(readFileSync(configPath, 'utf8')) : DEFAULT_AI_CONFIG;
+  const perMinute = readNumber('RATE_LIMIT_PER_MINUTE', 30);
+  const cacheMb = readNumber('CACHE_MAX_MB', 256);
+
+  const server = createProxyServer({
+    upstream: useStub ? createStubUpstream() : createGeminiUpstream(apiKey!),
+    aiConfig,
+    cache: cacheMb > 0 ? createResponseCache(cacheMb * 1024 * 1024) : null,
+    rateLimiter: perMinute > 0 ? createRateLimiter(perMinute) : null,
+    log: entry => console.log(JSON.stringify(entry)),
+    corsOrigin: process.env.CORS_ORIGIN || '*',
+    trustProxy: process.env.TRUST_PROXY === '1',
+  });
+
+  const port = readNumber('PROXY_PORT', 8787);
+  const host = process.env.PROXY_HOST || '127.0.0.1';
+  server.listen(port, host, () => {
+    console.log(`Lens proxy listening on http://${host}:${port} (${useStub ? 'stub upstream' : 'Gemini'}${configPath ? `, config ${configPath}` : ''})`);
+  });
+};
+
+try {
+  main();
+} catch (e: any) {
+  console.error(e.message);
+  process.exit(1);
+}
@@ -0,0 +1,146 @@
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { afterEach, describe, expect, it } from "vitest";
+import { EditMode } from "../types";
+import { DEFAULT_AI_CONFIG } from "../services/aiConfig";
+import { buildGeminiRequest } from "../services/geminiService";
+import { ProxyLogEntry, ProxyServerOptions, createProxyServer } from "./proxyServer";
+import { createRateLimiter } from "./rateLimiter";
+import { createResponseCache } from "./responseCache";
+import { Upstream, createStubUpstream } from "./upstream";
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUg==';
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve) ?? resolve(null));
+  server = null;
+});
+
+// Starts the proxy on a free port with a stub upstream that counts its calls
+const startProxy = async (options: Partial<ProxyServerOptions> = {}) => {
+  const stub = createStubUpstream();
+  const calls = { count: 0 };
+  const upstream: Upstream = (request, signal) => {
+    calls.count++;
+    return stub(request, signal);
+  };
+  const log: ProxyLogEntry[] = [];
+  server = createProxyServer({ upstream, log: entry => log.push(entry), ...options });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const post = async (path: string, body: unknown, headers: Record<string, string> = {}) => {
+    const res = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    return { status: res.status, headers: res.headers, body: await res.json() };
+  };
+  return { post, calls, log };
+};
+
+const editBody = (options: object = {}) => ({ image: IMAGE, mimeType: 'image/png', mode: EditMode.ANIME, options });
+
+describe('POST /edit', () => {
+  it('returns the edited image and usage', async () => {
+    const { post, calls } = await startProxy();
+    const res = await post('/edit', editBody());
+    expect(res.status).toBe(200);
+    expect(res.body.image).toBe(IMAGE);
+    expect(res.body.usage).toMatchObject({ model: 'gemini-2.5-flash-image', totalTokens: 2580 });
+    expect(calls.count).toBe(1);
+  });
+
+  it('answers repeated requests from the cache without calling upstream', async () => {
+    const { post, calls, log } = await startProxy({ cache: createResponseCache(1024 * 1024) });
+    await post('/edit', editBody());
+    const res = await post('/edit', editBody());
+    expect(res.status).toBe(200);
+    expect(res.body.image).toBe(IMAGE);
+    expect(res.body.usage).toBeNull();
+    expect(calls.count).toBe(1);
+    expect(log.map(entry => entry.cache)).toEqual(['miss', 'hit']);
+  });
+
+  it('responds 429 once the bucket is empty', async () => {
+    const { post, calls } = await startProxy({ rateLimiter: createRateLimiter(2) });
+    expect((await post('/edit', editBody({ seed: 1 }))).status).toBe(200);
+    expect((await post('/edit', editBody({ seed: 2 }))).status).toBe(200);
+    const limited = await post('/edit', editBody({ seed: 3 }));
+    expect(limited.status).toBe(429);
+    expect(limited.body.error.status).toBe('quota');
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(calls.count).toBe(2);
+  });
+
+  it('ignores the user header unless the proxy is trusted', async () => {
+    const untrusted = await startProxy({ rateLimiter: createRateLimiter(1) });
+    await untrusted.post('/edit', editBody({ seed: 1 }));
+    expect((await untrusted.post('/edit', editBody({ seed: 2 }), { 'X-Lens-User': 'other' })).status).toBe(429);
+    await new Promise(resolve => server!.close(resolve));
+
+    const trusted = await startProxy({ rateLimiter: createRateLimiter(1), trustProxy: true });
+    await trusted.post('/edit', editBody({ seed: 1 }), { 'X-Lens-User': 'alice' });
+    expect((await trusted.post('/edit', editBody({ seed: 2 }), { 'X-Lens-User': 'bob' })).status).toBe(200);
+    expect((await trusted.post('/edit', editBody({ seed: 3 }), { 'X-Lens-User': 'alice' })).status).toBe(429);
+  });
+
+  it.each([
+    ['invalid JSON', '{', 'Request body is not valid JSON.'],
+    ['a missing image', { ...editBody(), image: 'not a data url' }, 'image must be an image data URL.'],
+    ['an unknown mode', { ...editBody(), mode: 'Nope' }, 'Unknown mode.'],
+    ['a non-string option', editBody({ prompt: 5 }), 'options.prompt must be a string.'],
+    ['a non-data-URL background', editBody({ backgroundImage: 5 }), 'options.backgroundImage must be an image data URL.'],
+    ['a malformed aspect ratio', { ...editBody({ aspectRatio: 'wide; drop' }), mode: EditMode.ENHANCE }, 'options.aspectRatio must look like "16:9".'],
+    ['a mask without data', { ...editBody({ mask: 'data:image/png' }), mode: EditMode.INPAINT }, 'options.mask must be an image data URL.'],
+    ['a missing prompt', { ...editBody(), mode: EditMode.CUSTOM }, 'Please enter an instruction for the custom edit.'],
+  ])('responds 400 to %s without calling upstream', async (_, body, message) => {
+    const { post, calls } = await startProxy();
+    const res = await post('/edit', body);
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe(message);
+    expect(calls.count).toBe(0);
+  });
+});
+
+describe('POST /generate', () => {
+  const request = buildGeminiRequest(editBody(), DEFAULT_AI_CONFIG).request;
+
+  it('forwards the requests the app builds', async () => {
+    const { post, calls } = await startProxy();
+    const res = await post('/generate', request);
+    expect(res.status).toBe(200);
+    expect(res.body.candidates[0].content.parts[0].inlineData.data).toBe(IMAGE.split(',')[1]);
+    expect(calls.count).toBe(1);
+  });
+
+  it.each([
+    ['an unknown model', { ...request, model: 'some-text-model' }, 'This model is not available through the proxy.'],
+    ['text-only contents', { ...request, contents: { parts: [{ text: 'Write an essay' }] } }, 'contents must be one turn with 1-3 images and one text part.'],
+    ['several text parts', { ...request, contents: { parts: [...(request.contents as any).parts, { text: 'More' }] } }, 'contents must be one turn with 1-3 images and one text part.'],
+    ['a multi-turn chat', { ...request, contents: [request.contents, request.contents] }, 'contents must be one turn with 1-3 images and one text part.'],
+  ])('rejects %s', async (_, body, message) => {
+    const { post, calls } = await startProxy();
+    const res = await post('/generate', body);
+    expect(res.status).toBe(400);
+    expect(res.body.error.message).toBe(message);
+    expect(calls.count).toBe(0);
+  });
+
+  it('allows models named by the AI configuration', async () => {
+    const aiConfig = { ...DEFAULT_AI_CONFIG, customModes: [{ id: 'x', name: 'X', prompt: 'p', model: 'my-image-model', imageConfig: {}, requiresPaidKey: false }] };
+    const { post } = await startProxy({ aiConfig });
+    expect((await post('/generate', { ...request, model: 'my-image-model' })).status).toBe(200);
+  });
+});
+
+describe('CORS', () => {
+  it('does not let browsers send the user header', async () => {
+    const { post } = await startProxy();
+    const res = await post('/edit', editBody());
+    expect(res.headers.get('access-control-allow-headers')).toBe('Content-Type');
+  });
+});
@@ -0,0 +1,329 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { AIConfig, AIErrorKind, EditMode, EditOptions, ImageEditRequest } from "../types";
+import { DEFAULT_AI_CONFIG, MODEL_OPTIONS } from "../services/aiConfig";
+import { AIEditError, toAIEditError } from "../services/aiErrors";
+import { buildGeminiRequest, parseGeminiResponse } from "../services/geminiService";
+import { ResponseCache, hashRequest } from "./responseCache";
+import { RateLimiter } from "./rateLimiter";
+import { Upstream } from "./upstream";
+
+// HTTP proxy between the app and Gemini. The key stays on the server, and
+// identical requests are answered from the cache.
+//
+//   POST /edit      { image, mimeType, mode, options } -> { image, usage }
+//                   Same inputs as performImageEdit; prompts come from `aiConfig`.
+//   POST /generate  A generateContent request -> the model's response.
+//                   Used by the Gemini backend when a proxy is configured.
+//                   Limited to known models and one turn of images plus a prompt.
+//   GET  /health    Cache statistics
+//
+// Errors are { error: { code, message, status, detail } } where status is an
+// AIErrorKind. Cache hits report no usage, since nothing was billed.
+
+export interface ProxyLogEntry {
+  time: string;
+  user: string;
+  route: string;
+  mode: EditMode | null;
+  model: string | null;
+  status: number;
+  cache: 'hit' | 'miss' | null;
+  ms: number;
+  tokens: number | null;
+  error: AIErrorKind | null;
+}
+
+export interface ProxyServerOptions {
+  upstream: Upstream;
+  aiConfig?: AIConfig;               // Prompts and models for /edit
+  cache?: ResponseCache | null;
+  rateLimiter?: RateLimiter | null;  // Applied to upstream calls only; cache hits are free
+  log?: (entry: ProxyLogEntry) => void;
+  corsOrigin?: string;
+  maxBodyBytes?: number;
+  trustProxy?: boolean;              // Identify users by gateway headers instead of the connection address
+}
+
+const DEFAULT_MAX_BODY_BYTES = 50 * 1024 * 1024; // Two large images as base64
+
+// Set by a trusted gateway in front of the proxy. Only read with `trustProxy`,
+// since any client could send it to get a fresh rate-limit bucket.
+const USER_HEADER = 'x-lens-user';
+
+// Source image plus a background image or a mask
+const MAX_IMAGE_PARTS = 3;
+
+const KIND_STATUS: Record<AIErrorKind, number> = {
+  cancelled: 499,
+  timeout: 504,
+  safety: 422,
+  quota: 429,
+  auth: 502,
+  'no-image': 502,
+  network: 502,
+  server: 503,
+  unknown: 500,
+};
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+const parseJson = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+const isImageDataUrl = (value: unknown): value is string => (
+  typeof value === 'string' && /^data:image\/[\w.+-]+;base64,./.test(value.slice(0, 100))
+);
+
+const STRING_OPTIONS = ['prompt', 'backgroundPrompt', 'backgroundColor', 'customModeId'] as const;
+const IMAGE_OPTIONS = ['mask', 'backgroundImage'] as const;
+
+// Copies the known options after checking their types; anything else is dropped
+const readEditOptions = (value: any): EditOptions => {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new HttpError(400, 'options must be an object.');
+  const options: EditOptions = {};
+  STRING_OPTIONS.forEach(key => {
+    if (value[key] === undefined || value[key] === null) return;
+    if (typeof value[key] !== 'string') throw new HttpError(400, `options.${key} must be a string.`);
+    options[key] = value[key];
+  });
+  IMAGE_OPTIONS.forEach(key => {
+    if (value[key] === undefined || value[key] === null) return;
+    if (!isImageDataUrl(value[key])) throw new HttpError(400, `options.${key} must be an image data URL.`);
+    options[key] = value[key];
+  });
+  if (value.aspectRatio !== undefined && value.aspectRatio !== null) {
+    if (typeof value.aspectRatio !== 'string' || !/^\d+:\d+$/.test(value.aspectRatio)) {
+      throw new HttpError(400, 'options.aspectRatio must look like "16:9".');
+    }
+    options.aspectRatio = value.aspectRatio;
+  }
+  if (value.seed !== undefined && value.seed !== null) {
+    if (!Number.isInteger(value.seed)) throw new HttpError(400, 'options.seed must be an integer.');
+    options.seed = value.seed;
+  }
+  return options;
+};
+
+const readEditRequest = (body: any): Omit<ImageEditRequest, 'signal'> => {
+  if (!body || !isImageDataUrl(body.image)) throw new HttpError(400, 'image must be an image data URL.');
+  if (typeof body.mimeType !== 'string') throw new HttpError(400, 'mimeType is required.');
+  if (!Object.values(EditMode).includes(body.mode)) throw new HttpError(400, 'Unknown mode.');
+  return { image: body.image, mimeType: body.mimeType, mode: body.mode, options: readEditOptions(body.options) };
+};
+
+// The built-in models and any the configuration names
+const listAllowedModels = (config: AIConfig): Set<string> => {
+  const modes = Object.values(config.modes).flatMap(mode => [mode!, ...Object.values(mode!.variants ?? {})]);
+  const models = [...modes, ...config.customModes].map(mode => mode.model);
+  return new Set([...MODEL_OPTIONS, ...models].filter((model): model is string => Boolean(model)));
+};
+
+const isImagePart = (part: any) => (
+  part && typeof part.inlineData?.mimeType === 'string' && part.inlineData.mimeType.startsWith('image/')
+  && typeof part.inlineData.data === 'string' && part.inlineData.data.length > 0
+);
+
+const isTextPart = (part: any) => part && typeof part.text === 'string' && part.inlineData === undefined;
+
+const readGenerateRequest = (body: any, models: Set<string>): GenerateContentParameters => {
+  if (!body || typeof body.model !== 'string' || !body.contents) {
+    throw new HttpError(400, 'A generateContent request needs model and contents.');
+  }
+  if (!models.has(body.model)) throw new HttpError(400, 'This model is not available through the proxy.');
+
+  // One user turn, as the app sends it: image parts and a single prompt
+  const content = Array.isArray(body.contents) ? (body.contents.length === 1 ? body.contents[0] : null) : body.contents;
+  const parts: any[] | null = Array.isArray(content?.parts) && (content.role === undefined || content.role === 'user') ? content.parts : null;
+  const images = parts?.filter(isImagePart) ?? [];
+  const texts = parts?.filter(isTextPart) ?? [];
+  if (!parts || images.length + texts.length !== parts.length || texts.length !== 1 || images.length === 0 || images.length > MAX_IMAGE_PARTS) {
+    throw new HttpError(400, `contents must be one turn with 1-${MAX_IMAGE_PARTS} images and one text part.`);
+  }
+
+  // Only what the app sends; anything else (tools, system instructions) stays out
+  const imageConfig = body.config?.imageConfig;
+  const readString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return {
+    model: body.model,
+    contents: {
+      parts: parts.map(part => (isTextPart(part)
+        ? { text: part.text }
+        : { inlineData: { mimeType: part.inlineData.mimeType, data: part.inlineData.data } })),
+    },
+    config: {
+      imageConfig: imageConfig ? { aspectRatio: readString(imageConfig.aspectRatio), imageSize: readString(imageConfig.imageSize) } : undefined,
+      seed: Number.isInteger(body.config?.seed) ? body.config.seed : undefined,
+    },
+  };
+};
+
+// The parts of a response worth sending back; SDK objects carry HTTP details too
+const toResponseBody = (response: GenerateContentResponse, includeUsage: boolean) => ({
+  candidates: response.candidates,
+  promptFeedback: response.promptFeedback,
+  modelVersion: response.modelVersion,
+  usageMetadata: includeUsage ? response.usageMetadata : undefined,
+});
+
+export const createProxyServer = (options: ProxyServerOptions): Server => {
+  const {
+    upstream, aiConfig = DEFAULT_AI_CONFIG, cache = null, rateLimiter = null,
+    log = () => {}, corsOrigin = '*', maxBodyBytes = DEFAULT_MAX_BODY_BYTES, trustProxy = false,
+  } = options;
+  const allowedModels = listAllowedModels(aiConfig);
+
+  // Behind a trusted gateway its user header, then the forwarded client address;
+  // otherwise only the connection's address, which clients cannot choose
+  const identifyUser = (req: IncomingMessage): string => {
+    if (trustProxy) {
+      const user = req.headers[USER_HEADER];
+      if (typeof user === 'string' && user) return user;
+      const forwarded = req.headers['x-forwarded-for'];
+      if (typeof forwarded === 'string' && forwarded) return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': corsOrigin,
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      ...headers,
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const sendError = (res: ServerResponse, status: number, kind: AIErrorKind, message: string, detail: string | null = null, headers?: Record<string, string>) => {
+    send(res, status, { error: { code: status, message, status: kind, detail } }, headers);
+  };
+
+  // Cached response or a fresh one from upstream; only usable results are cached
+  const generate = async (
+    request: GenerateContentParameters,
+    user: string,
+    signal: AbortSignal
+  ): Promise<{ response: GenerateContentResponse; hit: boolean }> => {
+    const key = hashRequest(request);
+    const cached = cache?.get(key);
+    if (cached) return { response: cached, hit: true };
+
+    const limit = rateLimiter?.take(user);
+    if (limit && !limit.allowed) {
+      throw Object.assign(new AIEditError('quota', 'Rate limit reached. Try again shortly.', { status: 429 }), { retryAfterMs: limit.retryAfterMs });
+    }
+    const response = await upstream(request, signal);
+    try {
+      parseGeminiResponse(response, request.model);
+      cache?.set(key, toResponseBody(response, true) as GenerateContentResponse);
+    } catch {
+      // Blocked or imageless answers are passed on but never cached
+    }
+    return { response, hit: false };
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const started = Date.now();
+    const route = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const user = identifyUser(req);
+    const entry: ProxyLogEntry = {
+      time: new Date(started).toISOString(), user, route, mode: null, model: null,
+      status: 200, cache: null, ms: 0, tokens: null, error: null,
+    };
+
+    if (req.method === 'OPTIONS') return send(res, 204, undefined);
+    if (req.method === 'GET' && route === '/health') return send(res, 200, { ok: true, cache: cache?.stats() ?? null });
+    if (req.method !== 'POST' || (route !== '/edit' && route !== '/generate')) {
+      return sendError(res, 404, 'unknown', 'Not found.');
+    }
+
+    // Stop paying for a result nobody will receive
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const body = parseJson(await readBody(req, maxBodyBytes));
+      if (route === '/edit') {
+        const editRequest = readEditRequest(body);
+        entry.mode = editRequest.mode;
+        let built: ReturnType<typeof buildGeminiRequest>;
+        try {
+          built = buildGeminiRequest(editRequest, aiConfig);
+        } catch (e: any) {
+          // Our own messages (missing prompt, unknown custom mode); never internal errors
+          throw new HttpError(400, e instanceof TypeError ? 'Invalid edit request.' : e.message);
+        }
+        entry.model = built.settings.model;
+        const { response, hit } = await generate(built.request, user, controller.signal);
+        entry.cache = hit ? 'hit' : 'miss';
+        const result = parseGeminiResponse(response, built.settings.model);
+        entry.tokens = hit ? null : result.usage?.totalTokens ?? null;
+        send(res, 200, { image: result.image, usage: hit ? null : result.usage });
+      } else {
+        const request = readGenerateRequest(body, allowedModels);
+        entry.model = request.model;
+        const { response, hit } = await generate(request, user, controller.signal);
+        entry.cache = hit ? 'hit' : 'miss';
+        entry.tokens = hit ? null : response.usageMetadata?.totalTokenCount ?? null;
+        send(res, 200, toResponseBody(response, !hit));
+      }
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        entry.status = error.status;
+        entry.error = 'unknown';
+        sendError(res, error.status, 'unknown', error.message);
+      } else {
+        const err = controller.signal.aborted ? new AIEditError('cancelled', 'The request was cancelled.') : toAIEditError(error);
+        entry.status = err.status ?? KIND_STATUS[err.kind];
+        entry.error = err.kind;
+        const retryAfter = typeof error.retryAfterMs === 'number' ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } : undefined;
+        const message = err.kind === 'auth' ? 'The proxy\'s Gemini API key was rejected.' : err.message;
+        if (!res.writableEnded && !res.destroyed) sendError(res, entry.status, err.kind, message, err.detail, retryAfter);
+      }
+    } finally {
+      entry.ms = Date.now() - started;
+      log(entry);
+    }
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(() => {
+      if (!res.headersSent) sendError(res, 500, 'unknown', 'Internal proxy error.');
+    });
+  });
+};
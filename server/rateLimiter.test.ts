@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+describe('createRateLimiter', () => {
+  it('allows a burst of `perMinute` requests per user, then refills over time', () => {
+    let time = 0;
+    const limiter = createRateLimiter(2, () => time);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 30_000 });
+    expect(limiter.take('b').allowed).toBe(true);
+
+    time += 30_000;
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+// Per-user token buckets: each user may burst up to `perMinute` requests,
+// refilled continuously at the same rate.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take: (user: string) => RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets untouched this long are full again and can be dropped
+const IDLE_BUCKET_MS = 10 * 60_000;
+
+export const createRateLimiter = (perMinute: number, now: () => number = Date.now): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60_000;
+  let lastSweep = now();
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < IDLE_BUCKET_MS) return;
+    lastSweep = time;
+    buckets.forEach((bucket, user) => {
+      if (time - bucket.updatedAt > IDLE_BUCKET_MS) buckets.delete(user);
+    });
+  };
+
+  const take = (user: string): RateLimitResult => {
+    const time = now();
+    sweep(time);
+    const bucket = buckets.get(user) ?? { tokens: perMinute, updatedAt: time };
+    bucket.tokens = Math.min(perMinute, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = time;
+    buckets.set(user, bucket);
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { take };
+};
@@ -0,0 +1,61 @@
+import { createHash } from "node:crypto";
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+
+// In-memory cache of model responses keyed by a hash of the full request
+// (images, prompt, model, output settings and seed). Least recently used
+// entries are evicted once the total size exceeds `maxBytes`.
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+}
+
+export interface ResponseCache {
+  get: (key: string) => GenerateContentResponse | null;
+  set: (key: string, response: GenerateContentResponse) => void;
+  stats: () => CacheStats;
+}
+
+export const hashRequest = (request: GenerateContentParameters): string =>
+  createHash('sha256').update(JSON.stringify(request)).digest('hex');
+
+export const createResponseCache = (maxBytes: number): ResponseCache => {
+  // Map order doubles as recency: entries are re-inserted on every hit
+  const entries = new Map<string, string>();
+  let bytes = 0;
+  let hits = 0;
+  let misses = 0;
+
+  const get = (key: string) => {
+    const json = entries.get(key);
+    if (json === undefined) {
+      misses++;
+      return null;
+    }
+    hits++;
+    entries.delete(key);
+    entries.set(key, json);
+    return JSON.parse(json) as GenerateContentResponse;
+  };
+
+  const set = (key: string, response: GenerateContentResponse) => {
+    const json = JSON.stringify(response);
+    if (json.length > maxBytes) return;
+    const previous = entries.get(key);
+    if (previous !== undefined) {
+      bytes -= previous.length;
+      entries.delete(key);
+    }
+    entries.set(key, json);
+    bytes += json.length;
+    for (const [oldest, value] of entries) {
+      if (bytes <= maxBytes) break;
+      entries.delete(oldest);
+      bytes -= value.length;
+    }
+  };
+
+  return { get, set, stats: () => ({ entries: entries.size, bytes, hits, misses }) };
+};
@@ -0,0 +1,26 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { wait } from "../services/aiErrors";
+
+// Where the proxy sends generateContent requests. Injected so the server can
+// run against a stub, without a key or network.
+export type Upstream = (request: GenerateContentParameters, signal: AbortSignal) => Promise<GenerateContentResponse>;
+
+export const createGeminiUpstream = (apiKey: string): Upstream => {
+  const ai = new GoogleGenAI({ apiKey });
+  return (request, signal) => ai.models.generateContent({ ...request, config: { ...request.config, abortSignal: signal } });
+};
+
+// Answers with the first input image and fixed token counts
+export const createStubUpstream = (latencyMs = 0): Upstream => async (request, signal) => {
+  await wait(latencyMs, signal);
+  const parts: any[] = (request.contents as any)?.parts ?? [];
+  const image = parts.find(part => part.inlineData?.data)?.inlineData;
+  const response = {
+    candidates: [{
+      content: { role: 'model', parts: image ? [{ inlineData: image }] : [{ text: 'No image to edit.' }] },
+      finishReason: FinishReason.STOP,
+    }],
+    usageMetadata: { promptTokenCount: 1290, candidatesTokenCount: 1290, totalTokenCount: 2580 },
+  };
+  return response as unknown as GenerateContentResponse;
+};
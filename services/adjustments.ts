@@ -0,0 +1,359 @@
+import { Adjustments, FilterType, NumericAdjustment } from "../types";
+import { PixelBuffer, createPixelBuffer } from "./imageUtils";
+import { Lut3D, sampleLut } from "./lutService";
+import { DEFAULT_CURVES, DEFAULT_CHANNEL_LEVELS, buildToneLut, isIdentityTone, sampleToneLut } from "./toneCurves";
+
+// Tone and color pipeline shared by the live preview and export. The math is
+// defined once here (ToneParams + applyAdjustments); webglEngine.ts mirrors it in
+// GLSL and this file is the software fallback. Keep the two in step.
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  blur: 0,
+  exposure: 0,
+  highlights: 0,
+  shadows: 0,
+  whites: 0,
+  blacks: 0,
+  temperature: 0,
+  tint: 0,
+  vibrance: 0,
+  hue: 0,
+  sharpen: 0,
+  clarity: 0,
+  vignette: 0,
+  grain: 0,
+  curves: DEFAULT_CURVES,
+  levels: DEFAULT_CHANNEL_LEVELS,
+  lut: null,
+};
+
+export type AdjustmentGroup = 'Light' | 'Color' | 'Detail & Effects';
+
+export interface AdjustmentControl {
+  key: NumericAdjustment;
+  label: string;
+  min: number;
+  max: number;
+  group: AdjustmentGroup;
+}
+
+export const ADJUSTMENT_CONTROLS: AdjustmentControl[] = [
+  { key: 'exposure', label: 'Exposure', min: -100, max: 100, group: 'Light' },
+  { key: 'brightness', label: 'Brightness', min: 0, max: 200, group: 'Light' },
+  { key: 'contrast', label: 'Contrast', min: 0, max: 200, group: 'Light' },
+  { key: 'highlights', label: 'Highlights', min: -100, max: 100, group: 'Light' },
+  { key: 'shadows', label: 'Shadows', min: -100, max: 100, group: 'Light' },
+  { key: 'whites', label: 'Whites', min: -100, max: 100, group: 'Light' },
+  { key: 'blacks', label: 'Blacks', min: -100, max: 100, group: 'Light' },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, group: 'Color' },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, group: 'Color' },
+  { key: 'vibrance', label: 'Vibrance', min: -100, max: 100, group: 'Color' },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 200, group: 'Color' },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, group: 'Color' },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, group: 'Detail & Effects' },
+  { key: 'clarity', label: 'Clarity', min: -100, max: 100, group: 'Detail & Effects' },
+  { key: 'blur', label: 'Blur', min: 0, max: 10, group: 'Detail & Effects' },
+  { key: 'vignette', label: 'Vignette', min: -100, max: 100, group: 'Detail & Effects' },
+  { key: 'grain', label: 'Grain', min: 0, max: 100, group: 'Detail & Effects' },
+];
+
+// Older saves only have the original four sliders
+export const normalizeAdjustments = (adj: Partial<Adjustments>): Adjustments => ({
+  ...DEFAULT_ADJUSTMENTS,
+  ...adj,
+  curves: { ...DEFAULT_CURVES, ...adj.curves },
+  levels: { ...DEFAULT_CHANNEL_LEVELS, ...adj.levels },
+});
+
+export const isNeutral = (adj: Adjustments, filter: FilterType): boolean => {
+  return filter === FilterType.NONE
+    && ADJUSTMENT_CONTROLS.every(({ key }) => adj[key] === DEFAULT_ADJUSTMENTS[key])
+    && isIdentityTone(adj.curves, adj.levels)
+    && !adj.lut;
+};
+
+// -- Parameters --
+
+type Mat3 = number[]; // Row-major 3x3
+
+const LUMA = [0.2126, 0.7152, 0.0722];
+const IDENTITY: Mat3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+const FILTER_BLUR_PX = 4;                // Extra blur added by the Blur preset
+const CLARITY_RADIUS = 0.01;             // Fraction of the long edge
+export const MAX_BLUR_RADIUS = 32;       // Kernel half-width cap, in render pixels
+
+const multiply = (a: Mat3, b: Mat3): Mat3 => {
+  const out = new Array(9).fill(0);
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      for (let k = 0; k < 3; k++) out[r * 3 + c] += a[r * 3 + k] * b[k * 3 + c];
+    }
+  }
+  return out;
+};
+
+// Same matrices as the CSS filter functions, so old edits keep their look
+const hueRotateMatrix = (degrees: number): Mat3 => {
+  const rad = degrees * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+};
+
+const sepiaMatrix = (amount: number): Mat3 => {
+  const a = 1 - amount;
+  return [
+    0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a,
+    0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a,
+    0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a,
+  ];
+};
+
+const GRAYSCALE_MATRIX: Mat3 = [
+  0.2126, 0.7152, 0.0722,
+  0.2126, 0.7152, 0.0722,
+  0.2126, 0.7152, 0.0722,
+];
+
+// Everything the per-pixel stage needs, already converted from slider units
+export interface ToneParams {
+  blurSigma: number;     // Render pixels
+  sharpen: number;
+  clarity: number;
+  clarityRadius: number; // Render pixels
+  gain: number;          // Exposure x brightness
+  contrast: number;
+  blackPoint: number;
+  whitePoint: number;
+  shadows: number;
+  highlights: number;
+  temperature: number;
+  tint: number;
+  saturation: number;
+  vibrance: number;
+  colorMatrix: Mat3;     // Hue rotation, then the filter preset
+  postContrast: number;  // Preset contrast/brightness (Vintage)
+  postBrightness: number;
+  lut: Lut3D | null;          // Imported look, applied before Curves/Levels
+  toneLut: Uint8Array | null; // Curves and Levels, see toneCurves.ts
+  vignette: number;
+  grain: number;
+  scale: number;         // Render pixels per source pixel
+}
+
+// `scale` is render size / source size; spatial effects are defined in source
+// pixels so a downscaled preview matches the full-resolution export. `lut` is
+// the parsed table for adj.lut (see lutService.loadLut).
+export const getToneParams = (
+  adj: Adjustments,
+  filter: FilterType,
+  width: number,
+  height: number,
+  scale: number,
+  lut: Lut3D | null
+): ToneParams => {
+  let preset = IDENTITY;
+  let postContrast = 1;
+  let postBrightness = 1;
+  if (filter === FilterType.GRAYSCALE) preset = GRAYSCALE_MATRIX;
+  if (filter === FilterType.SEPIA) preset = sepiaMatrix(1);
+  if (filter === FilterType.VINTAGE) {
+    preset = sepiaMatrix(0.5);
+    postContrast = 1.2;
+    postBrightness = 0.9;
+  }
+  const blur = adj.blur + (filter === FilterType.BLUR ? FILTER_BLUR_PX : 0);
+
+  return {
+    blurSigma: blur * scale,
+    sharpen: adj.sharpen / 100 * 1.5,
+    clarity: adj.clarity / 100 * 1.5,
+    clarityRadius: Math.max(1, CLARITY_RADIUS * Math.max(width, height)),
+    gain: Math.pow(2, adj.exposure / 50) * adj.brightness / 100,
+    contrast: adj.contrast / 100,
+    blackPoint: adj.blacks / -500,
+    whitePoint: 1 - adj.whites / 500,
+    shadows: adj.shadows / 100 * 0.35,
+    highlights: adj.highlights / 100 * 0.35,
+    temperature: adj.temperature / 100 * 0.1,
+    tint: adj.tint / 100 * 0.1,
+    saturation: adj.saturation / 100,
+    vibrance: adj.vibrance / 100,
+    colorMatrix: multiply(preset, adj.hue ? hueRotateMatrix(adj.hue) : IDENTITY),
+    postContrast,
+    postBrightness,
+    lut,
+    toneLut: buildToneLut(adj.curves, adj.levels),
+    vignette: adj.vignette / 100,
+    grain: adj.grain / 100 * 0.25,
+    scale,
+  };
+};
+
+export const getBlurRadius = (sigma: number) => Math.min(MAX_BLUR_RADIUS, Math.ceil(sigma * 3));
+
+// -- Software fallback --
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = clamp01((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+};
+
+// Deterministic per-pixel noise; the shader uses the same formula
+export const grainNoise = (x: number, y: number) => {
+  const v = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453;
+  return v - Math.floor(v) - 0.5;
+};
+
+// Gaussian blur on float RGBA, separable, edges clamped
+const gaussianBlur = (src: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const radius = getBlurRadius(sigma);
+  if (radius < 1) return src;
+  const weights: number[] = [];
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    weights.push(w);
+    sum += w;
+  }
+  const pass = (input: Float32Array, dx: number, dy: number) => {
+    const out = new Float32Array(input.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0, g = 0, b = 0, a = 0;
+        for (let i = -radius; i <= radius; i++) {
+          const sx = Math.min(width - 1, Math.max(0, x + i * dx));
+          const sy = Math.min(height - 1, Math.max(0, y + i * dy));
+          const j = (sy * width + sx) * 4;
+          const w = weights[i + radius];
+          r += input[j] * w; g += input[j + 1] * w; b += input[j + 2] * w; a += input[j + 3] * w;
+        }
+        const k = (y * width + x) * 4;
+        out[k] = r / sum; out[k + 1] = g / sum; out[k + 2] = b / sum; out[k + 3] = a / sum;
+      }
+    }
+    return out;
+  };
+  return pass(pass(src, 1, 0), 0, 1);
+};
+
+// Applies the full pipeline to a buffer rendered at `params.scale` of the source
+export const applyAdjustments = (buffer: PixelBuffer, params: ToneParams): PixelBuffer => {
+  const { width, height } = buffer;
+  let src = new Float32Array(buffer.data.length);
+  for (let i = 0; i < src.length; i++) src[i] = buffer.data[i] / 255;
+  if (params.blurSigma >= 0.3) src = gaussianBlur(src, width, height, params.blurSigma);
+
+  const out = createPixelBuffer(width, height);
+  const at = (x: number, y: number, c: number) => {
+    const sx = Math.min(width - 1, Math.max(0, Math.round(x)));
+    const sy = Math.min(height - 1, Math.max(0, Math.round(y)));
+    return src[(sy * width + sx) * 4 + c];
+  };
+  const lumaAt = (x: number, y: number) => LUMA[0] * at(x, y, 0) + LUMA[1] * at(x, y, 1) + LUMA[2] * at(x, y, 2);
+  const clarityRadius = Math.max(1, params.clarityRadius * params.scale);
+  const m = params.colorMatrix;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let r = src[i], g = src[i + 1], b = src[i + 2];
+
+      if (params.sharpen > 0) {
+        for (let c = 0; c < 3; c++) {
+          const center = src[i + c];
+          const neighbours = (at(x - 1, y, c) + at(x + 1, y, c) + at(x, y - 1, c) + at(x, y + 1, c)) / 4;
+          const sharpened = center + (center - neighbours) * params.sharpen;
+          if (c === 0) r = sharpened; else if (c === 1) g = sharpened; else b = sharpened;
+        }
+      }
+
+      if (params.clarity !== 0) {
+        let local = 0;
+        for (let k = 0; k < 8; k++) {
+          const angle = k * Math.PI / 4;
+          const dx = Math.cos(angle), dy = Math.sin(angle);
+          local += lumaAt(x + dx * clarityRadius, y + dy * clarityRadius) + lumaAt(x + dx * clarityRadius * 0.5, y + dy * clarityRadius * 0.5);
+        }
+        local /= 16;
+        const l = LUMA[0] * r + LUMA[1] * g + LUMA[2] * b;
+        const midtones = Math.max(0, 1 - (2 * l - 1) * (2 * l - 1));
+        const detail = (l - local) * params.clarity * midtones;
+        r += detail; g += detail; b += detail;
+      }
+
+      r *= params.gain; g *= params.gain; b *= params.gain;
+      r = (r - 0.5) * params.contrast + 0.5;
+      g = (g - 0.5) * params.contrast + 0.5;
+      b = (b - 0.5) * params.contrast + 0.5;
+
+      const range = params.whitePoint - params.blackPoint;
+      r = (r - params.blackPoint) / range;
+      g = (g - params.blackPoint) / range;
+      b = (b - params.blackPoint) / range;
+
+      let l = clamp01(LUMA[0] * r + LUMA[1] * g + LUMA[2] * b);
+      const tone = params.shadows * (1 - l) * (1 - l) + params.highlights * l * l;
+      r += tone; g += tone; b += tone;
+
+      r += params.temperature + params.tint * 0.5;
+      g -= params.tint;
+      b += -params.temperature + params.tint * 0.5;
+
+      l = LUMA[0] * r + LUMA[1] * g + LUMA[2] * b;
+      r = l + (r - l) * params.saturation;
+      g = l + (g - l) * params.saturation;
+      b = l + (b - l) * params.saturation;
+
+      const sat = clamp01(Math.max(r, g, b) - Math.min(r, g, b));
+      const vib = 1 + params.vibrance * (1 - sat);
+      r = l + (r - l) * vib;
+      g = l + (g - l) * vib;
+      b = l + (b - l) * vib;
+
+      const mr = m[0] * r + m[1] * g + m[2] * b;
+      const mg = m[3] * r + m[4] * g + m[5] * b;
+      const mb = m[6] * r + m[7] * g + m[8] * b;
+      r = ((mr - 0.5) * params.postContrast + 0.5) * params.postBrightness;
+      g = ((mg - 0.5) * params.postContrast + 0.5) * params.postBrightness;
+      b = ((mb - 0.5) * params.postContrast + 0.5) * params.postBrightness;
+
+      if (params.lut) {
+        [r, g, b] = sampleLut(params.lut, r, g, b);
+      }
+
+      if (params.toneLut) {
+        r = sampleToneLut(params.toneLut, r, 0);
+        g = sampleToneLut(params.toneLut, g, 1);
+        b = sampleToneLut(params.toneLut, b, 2);
+      }
+
+      if (params.vignette !== 0) {
+        const u = (x + 0.5) / width - 0.5;
+        const v = (y + 0.5) / height - 0.5;
+        const falloff = 1 - params.vignette * smoothstep(0.25, 1, Math.sqrt(u * u + v * v) * Math.SQRT2);
+        r *= falloff; g *= falloff; b *= falloff;
+      }
+
+      if (params.grain > 0) {
+        const n = grainNoise(Math.floor((x + 0.5) / params.scale), Math.floor((y + 0.5) / params.scale)) * params.grain;
+        r += n; g += n; b += n;
+      }
+
+      out.data[i] = clamp01(r) * 255;
+      out.data[i + 1] = clamp01(g) * 255;
+      out.data[i + 2] = clamp01(b) * 255;
+      out.data[i + 3] = src[i + 3] * 255;
+    }
+  }
+  return out;
+};
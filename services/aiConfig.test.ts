@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { EditMode } from "../types";
+import { AI_CONFIG_VERSION, DEFAULT_AI_CONFIG, parseAIConfigFile, renderPrompt, resolveModeConfig } from "./aiConfig";
+
+const configFile = (value: object) => JSON.stringify({ version: AI_CONFIG_VERSION, ...value });
+
+describe('renderPrompt', () => {
+  it('fills known placeholders with trimmed values', () => {
+    expect(renderPrompt('Paint {prompt} on {backgroundColor}', { prompt: ' a cat ', backgroundColor: '#fff' })).toBe('Paint a cat on #fff');
+  });
+
+  it('leaves unknown placeholders as written', () => {
+    expect(renderPrompt('Keep {style} intact', {})).toBe('Keep {style} intact');
+  });
+
+  it('explains which value is missing', () => {
+    expect(() => renderPrompt('{prompt}', { prompt: '  ' })).toThrow('Please enter an instruction for the custom edit.');
+    expect(() => renderPrompt('{backgroundPrompt}', {})).toThrow('Describe the background you want first.');
+  });
+});
+
+describe('resolveModeConfig', () => {
+  it('applies variant overrides on top of the base settings', () => {
+    const base = resolveModeConfig(DEFAULT_AI_CONFIG, EditMode.REPLACE_BG);
+    const color = resolveModeConfig(DEFAULT_AI_CONFIG, EditMode.REPLACE_BG, 'color');
+    expect(color.prompt).toContain('{backgroundColor}');
+    expect(color.model).toBe(base.model);
+    expect(resolveModeConfig(DEFAULT_AI_CONFIG, EditMode.REPLACE_BG, 'unknown')).toEqual(base);
+  });
+
+  it('looks custom modes up by id', () => {
+    const config = parseAIConfigFile(configFile({ customModes: [{ id: 'sticker', name: 'Sticker', prompt: 'Make a sticker', model: 'm' }] }));
+    expect(resolveModeConfig(config, EditMode.CUSTOM_MODE, null, 'sticker').prompt).toBe('Make a sticker');
+    expect(() => resolveModeConfig(config, EditMode.CUSTOM_MODE, null, 'gone')).toThrow('no longer exists');
+  });
+});
+
+describe('parseAIConfigFile', () => {
+  it('keeps defaults for modes the file leaves out', () => {
+    const config = parseAIConfigFile(configFile({ modes: { [EditMode.ANIME]: { prompt: 'Watercolor', model: ' custom-model ' } } }));
+    expect(config.modes[EditMode.ANIME]).toEqual({ prompt: 'Watercolor', model: 'custom-model', imageConfig: {}, requiresPaidKey: false });
+    expect(config.modes[EditMode.PIXEL_ART]).toEqual(DEFAULT_AI_CONFIG.modes[EditMode.PIXEL_ART]);
+  });
+
+  it('round-trips the default configuration', () => {
+    expect(parseAIConfigFile(JSON.stringify(DEFAULT_AI_CONFIG))).toEqual(DEFAULT_AI_CONFIG);
+  });
+
+  it('gives custom modes without an id a new one', () => {
+    const config = parseAIConfigFile(configFile({ customModes: [{ name: ' Noir ', prompt: 'Film noir', model: 'm' }] }));
+    expect(config.customModes[0].name).toBe('Noir');
+    expect(config.customModes[0].id).toMatch(/^\w+$/);
+  });
+
+  it.each([
+    ['not json', 'AI configuration is not valid JSON.'],
+    ['{"modes":{}}', 'Not a Gemini Lens AI configuration file.'],
+    [configFile({ version: AI_CONFIG_VERSION + 1 }), 'newer version'],
+    [configFile({ modes: { Nope: { prompt: 'x', model: 'm' } } }), 'Unknown mode "Nope".'],
+    [configFile({ modes: { [EditMode.ANIME]: { prompt: '', model: 'm' } } }), 'prompt is required'],
+    [configFile({ modes: { [EditMode.ANIME]: { prompt: 'x', model: 'm', imageConfig: { aspectRatio: 'wide' } } } }), 'aspectRatio must look like "16:9"'],
+    [configFile({ customModes: {} }), 'customModes must be a list.'],
+    [configFile({ customModes: [{ prompt: 'x', model: 'm' }] }), 'Custom mode 1: name is required.'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseAIConfigFile(text)).toThrow(message);
+  });
+});
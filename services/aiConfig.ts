@@ -0,0 +1,219 @@
+import { AIConfig, CustomModeConfig, EditMode, ImageOutputConfig, ModeConfig, ModePromptConfig } from "../types";
+
+// Prompts, models and output settings for every AI edit. The defaults below
+// can be replaced by a JSON file or edited in the AI settings dialog, so
+// prompts can be tuned and new modes added without a code change.
+
+const STORAGE_KEY = 'gemini-lens:ai-config';
+
+// Bumped when the file layout changes; files from newer versions are rejected
+export const AI_CONFIG_VERSION = 1;
+
+const FAST_MODEL = 'gemini-2.5-flash-image'; // Stylistic edits (speed/cost)
+const PRO_MODEL = 'gemini-3-pro-image-preview'; // Compositing and upscaling
+
+export const MODEL_OPTIONS = [FAST_MODEL, PRO_MODEL];
+
+export const IMAGE_SIZE_OPTIONS = ['1K', '2K', '4K'];
+
+// Everything except the placeholder NONE and user-defined modes
+export const CONFIGURABLE_MODES: EditMode[] = Object.values(EditMode).filter(mode => mode !== EditMode.NONE && mode !== EditMode.CUSTOM_MODE);
+
+export const VARIANT_LABELS: Record<string, string> = {
+  image: 'With a background image',
+  prompt: 'With a described background',
+  color: 'With a color',
+};
+
+const defineMode = (prompt: string, model = FAST_MODEL, extra: Partial<ModeConfig> = {}): ModeConfig => ({
+  prompt,
+  model,
+  imageConfig: {},
+  requiresPaidKey: false,
+  ...extra,
+});
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  version: AI_CONFIG_VERSION,
+  modes: {
+    [EditMode.PIXEL_ART]: defineMode('Convert this image into a pixel art style. Maintain the original subject and composition but render it with clear pixelation and vibrant colors appropriate for pixel art video games.'),
+    [EditMode.ANIME]: defineMode('Transform this image into a high-quality anime style illustration. Use distinct line work, shading, and anime aesthetic while keeping the subject recognizable.'),
+    // Pure white is the most reliable flat background when the output has no alpha
+    [EditMode.REMOVE_BG]: defineMode('Isolate the main subject of this image and place it on a pure solid white background. Ensure the edges are clean and precise.'),
+    [EditMode.MATTE]: defineMode('Produce a segmentation matte for this image: render the main subject in pure white and everything else in pure black, with the exact same framing and dimensions. Keep soft edges such as hair as intermediate grey values.'),
+    [EditMode.REPLACE_BG]: defineMode('Place the subject of this image into a scenic outdoor environment.', FAST_MODEL, {
+      requiresPaidKey: true,
+      variants: {
+        image: {
+          prompt: 'Composite the subject from the first image onto the background provided in the second image. Adjust lighting and shadows of the subject to match the new environment realistically.',
+          model: PRO_MODEL,
+        },
+        prompt: {
+          prompt: 'Isolate the main subject of this image and place it in the following setting: {backgroundPrompt}. Match the lighting, perspective and shadows of the subject to the new background realistically.',
+          model: PRO_MODEL,
+        },
+        color: {
+          prompt: 'Isolate the main subject of this image and place it on a background with the color/style: {backgroundColor}. Ensure realistic integration.',
+        },
+      },
+    }),
+    [EditMode.BACKGROUND]: defineMode('Using this image only as a reference for framing, camera angle and aspect ratio, create a new empty background plate with no people or main subject, showing: {backgroundPrompt}. Keep the exact same dimensions.'),
+    [EditMode.ENHANCE]: defineMode('Recreate this image in ultra-high resolution (4K). Enhance fine details, textures, and lighting clarity significantly. Fix any blurriness or noise. Keep the exact framing and composition. Make it look like a professional photograph.', PRO_MODEL, {
+      // The enhance pipeline overrides the ratio per request
+      imageConfig: { imageSize: '4K', aspectRatio: '1:1' },
+      requiresPaidKey: true,
+    }),
+    [EditMode.CUSTOM]: defineMode('Edit this image according to the following instruction: {prompt}'),
+    [EditMode.INPAINT]: defineMode('The second image is a mask for the first image. Apply the following edit ONLY inside the white region of the mask and leave every pixel in the black region exactly unchanged: {prompt}'),
+  },
+  customModes: [],
+};
+
+export const newCustomModeId = () => Math.random().toString(36).substr(2, 9);
+
+// -- Templates --
+
+// Shown when a template needs a value the user has not provided
+const MISSING_VALUE: Record<string, string> = {
+  prompt: 'Please enter an instruction for the custom edit.',
+  backgroundPrompt: 'Describe the background you want first.',
+  backgroundColor: 'Pick a background color first.',
+};
+
+// Fills {name} placeholders. Unknown placeholders are left as written.
+export const renderPrompt = (template: string, values: Record<string, string | null | undefined>): string => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in MISSING_VALUE)) return placeholder;
+    const value = values[name]?.trim();
+    if (!value) throw new Error(MISSING_VALUE[name]);
+    return value;
+  });
+};
+
+// The settings for one request. `variant` picks overrides such as 'image' for
+// Replace Background; unknown variants fall back to the mode's base settings.
+export const resolveModeConfig = (config: AIConfig, editMode: EditMode, variant: string | null = null, customModeId?: string): ModePromptConfig => {
+  if (editMode === EditMode.CUSTOM_MODE) {
+    const custom = config.customModes.find(m => m.id === customModeId);
+    if (!custom) throw new Error('This custom mode no longer exists. Check the AI settings.');
+    return custom;
+  }
+  const base = config.modes[editMode] ?? DEFAULT_AI_CONFIG.modes[editMode];
+  if (!base) throw new Error(`No AI settings for ${editMode}.`);
+  const { variants, ...settings } = base;
+  const override = variant ? variants?.[variant] : undefined;
+  return override ? { ...settings, ...override, imageConfig: { ...settings.imageConfig, ...override.imageConfig } } : settings;
+};
+
+// -- Validation --
+
+const isEditMode = (value: string): value is EditMode => CONFIGURABLE_MODES.includes(value as EditMode);
+
+const readImageConfig = (value: any, where: string): ImageOutputConfig => {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object') throw new Error(`${where}: imageConfig must be an object.`);
+  const config: ImageOutputConfig = {};
+  if (value.aspectRatio !== undefined) {
+    if (typeof value.aspectRatio !== 'string' || !/^\d+:\d+$/.test(value.aspectRatio)) throw new Error(`${where}: aspectRatio must look like "16:9".`);
+    config.aspectRatio = value.aspectRatio;
+  }
+  if (value.imageSize !== undefined) {
+    if (typeof value.imageSize !== 'string') throw new Error(`${where}: imageSize must be a string such as "2K".`);
+    config.imageSize = value.imageSize;
+  }
+  return config;
+};
+
+const readPromptConfig = (value: any, where: string): ModePromptConfig => {
+  if (!value || typeof value !== 'object') throw new Error(`${where} is invalid.`);
+  if (typeof value.prompt !== 'string' || !value.prompt.trim()) throw new Error(`${where}: prompt is required.`);
+  if (typeof value.model !== 'string' || !value.model.trim()) throw new Error(`${where}: model is required.`);
+  return {
+    prompt: value.prompt,
+    model: value.model.trim(),
+    imageConfig: readImageConfig(value.imageConfig, where),
+    requiresPaidKey: value.requiresPaidKey === true,
+  };
+};
+
+// Variants only list what they change
+const readVariant = (value: any, where: string): Partial<ModePromptConfig> => {
+  if (!value || typeof value !== 'object') throw new Error(`${where} is invalid.`);
+  const variant: Partial<ModePromptConfig> = {};
+  if (value.prompt !== undefined) variant.prompt = String(value.prompt);
+  if (value.model !== undefined) variant.model = String(value.model).trim();
+  if (value.imageConfig !== undefined) variant.imageConfig = readImageConfig(value.imageConfig, where);
+  if (value.requiresPaidKey !== undefined) variant.requiresPaidKey = value.requiresPaidKey === true;
+  return variant;
+};
+
+const readModeConfig = (value: any, where: string): ModeConfig => {
+  const config: ModeConfig = readPromptConfig(value, where);
+  if (value.variants !== undefined) {
+    if (!value.variants || typeof value.variants !== 'object') throw new Error(`${where}: variants must be an object.`);
+    config.variants = Object.fromEntries(Object.entries(value.variants).map(([name, v]) => [name, readVariant(v, `${where} (${name})`)]));
+  }
+  return config;
+};
+
+const readCustomMode = (value: any, index: number): CustomModeConfig => {
+  const where = `Custom mode ${index + 1}`;
+  if (!value || typeof value.name !== 'string' || !value.name.trim()) throw new Error(`${where}: name is required.`);
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : newCustomModeId(),
+    name: value.name.trim(),
+    ...readPromptConfig(value, `${where} "${value.name.trim()}"`),
+  };
+};
+
+// Validates a configuration file. Modes the file leaves out keep their defaults.
+export const parseAIConfigFile = (text: string): AIConfig => {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('AI configuration is not valid JSON.');
+  }
+  if (!file || typeof file.version !== 'number' || (file.modes !== undefined && typeof file.modes !== 'object')) {
+    throw new Error('Not a Gemini Lens AI configuration file.');
+  }
+  if (file.version > AI_CONFIG_VERSION) {
+    throw new Error('This AI configuration was made by a newer version of Gemini Lens.');
+  }
+  const modes: AIConfig['modes'] = { ...DEFAULT_AI_CONFIG.modes };
+  Object.entries(file.modes ?? {}).forEach(([name, value]) => {
+    if (!isEditMode(name)) throw new Error(`Unknown mode "${name}".`);
+    modes[name] = readModeConfig(value, name);
+  });
+  if (file.customModes !== undefined && !Array.isArray(file.customModes)) {
+    throw new Error('customModes must be a list.');
+  }
+  const customModes = (file.customModes ?? []).map(readCustomMode);
+  return { version: AI_CONFIG_VERSION, modes, customModes };
+};
+
+export const exportAIConfig = (config: AIConfig): Blob => {
+  return new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+};
+
+// -- Storage --
+
+const loadAIConfig = (): AIConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseAIConfigFile(raw) : DEFAULT_AI_CONFIG;
+  } catch {
+    return DEFAULT_AI_CONFIG;
+  }
+};
+
+let activeConfig = loadAIConfig();
+
+// Read at request time, so saved changes apply to the next edit
+export const getAIConfig = (): AIConfig => activeConfig;
+
+export const saveAIConfig = (config: AIConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  activeConfig = config;
+};
+
@@ -0,0 +1,89 @@
+import { AIErrorKind } from "../types";
+
+// Structured failures for AI requests, so the UI can say what went wrong and
+// offer the right next step instead of echoing a raw API message.
+
+export class AIEditError extends Error {
+  readonly kind: AIErrorKind;
+  readonly status: number | null;
+  readonly detail: string | null; // e.g. the model's text reply when no image came back
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number | null; detail?: string | null } = {}) {
+    super(message);
+    this.name = 'AIEditError';
+    this.kind = kind;
+    this.status = options.status ?? null;
+    this.detail = options.detail ?? null;
+  }
+
+  // Rate limits, server hiccups and dropped connections are worth another try
+  get retryable(): boolean {
+    return this.kind === 'quota' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+const TITLES: Record<AIErrorKind, string> = {
+  cancelled: 'Cancelled',
+  timeout: 'The request timed out',
+  safety: 'Blocked by safety filters',
+  quota: 'Quota or rate limit reached',
+  auth: 'API key problem',
+  'no-image': 'No image returned',
+  network: 'Network error',
+  server: 'The AI service is unavailable',
+  unknown: 'Processing failed',
+};
+
+export const getErrorTitle = (kind: AIErrorKind): string => TITLES[kind];
+
+const readStatus = (error: any): number | null => {
+  if (typeof error?.status === 'number') return error.status;
+  // API errors embed the JSON body, e.g. {"error":{"code":429,...}}
+  const match = String(error?.message ?? '').match(/"code"\s*:\s*(\d{3})/);
+  return match ? Number(match[1]) : null;
+};
+
+// Maps anything thrown by a provider or the SDK onto an AIEditError
+export const toAIEditError = (error: unknown): AIEditError => {
+  if (error instanceof AIEditError) return error;
+  const err = error as any;
+  const message: string = err?.message || 'Failed to process image';
+  const status = readStatus(err);
+
+  if (err?.name === 'AbortError') return new AIEditError('cancelled', 'The request was cancelled.');
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AIEditError('auth', 'The API key was rejected. Check that it is valid and has access to this model.', { status });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AIEditError('quota', 'Too many requests or the quota is used up. Try again shortly.', { status });
+  }
+  if ((status !== null && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded/i.test(message)) {
+    return new AIEditError('server', 'The AI service had a problem handling the request.', { status });
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT/i.test(message)) {
+    return new AIEditError('safety', 'The request was blocked by the model\'s safety filters. Try a different image or instruction.', { status });
+  }
+  if (err instanceof TypeError && /fetch|network/i.test(message)) {
+    return new AIEditError('network', 'Could not reach the AI service. Check your connection.');
+  }
+  return new AIEditError('unknown', message, { status });
+};
+
+// Resolves after `ms`, or rejects with a cancelled error once `signal` aborts
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AIEditError('cancelled', 'The request was cancelled.'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIEditError('cancelled', 'The request was cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,73 @@
+import { EditMode, ImageState, SavedBackground } from "../types";
+import { toDataUrl } from "./blobStore";
+import { RequestControl, performImageEdit } from "./imageEditService";
+import { createCanvas, loadImage } from "./imageUtils";
+
+const STORAGE_KEY = 'gemini-lens:background-library';
+
+export const BACKGROUND_OPTIONS = [
+  { name: 'White', value: '#ffffff' },
+  { name: 'Black', value: '#000000' },
+  { name: 'Red', value: '#ef4444' },
+  { name: 'Blue', value: '#3b82f6' },
+  { name: 'Green', value: '#10b981' },
+  { name: 'Sunset Gradient', value: 'linear-gradient(to top, #fca5a5, #fcd34d)' },
+  { name: 'Midnight Gradient', value: 'linear-gradient(to top, #1e3a8a, #000000)' },
+];
+
+// Candidates generated per request
+export const BACKGROUND_CANDIDATES = 4;
+
+// Library entries are downscaled so several fit in localStorage
+const LIBRARY_MAX_SIZE = 1024;
+const LIBRARY_JPEG_QUALITY = 0.85;
+
+const newBackgroundId = () => Math.random().toString(36).substr(2, 9);
+
+export const loadBackgroundLibrary = (): SavedBackground[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Throws when the browser's storage quota is exceeded
+export const saveBackgroundLibrary = (backgrounds: SavedBackground[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(backgrounds));
+};
+
+export const createSavedBackground = async (image: string, prompt: string | null): Promise<SavedBackground> => {
+  const img = await loadImage(image);
+  const scale = Math.min(1, LIBRARY_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const text = prompt?.trim() || null;
+  return {
+    id: newBackgroundId(),
+    name: text ?? 'Uploaded background',
+    image: canvas.toDataURL('image/jpeg', LIBRARY_JPEG_QUALITY),
+    prompt: text,
+    createdAt: Date.now(),
+  };
+};
+
+// Generates empty background plates framed like `image`. Each call starts from
+// a random seed so generating again gives new options. Failed candidates are
+// dropped; the request only fails when none succeed.
+export const generateBackgroundCandidates = async (
+  image: ImageState,
+  prompt: string,
+  count = BACKGROUND_CANDIDATES,
+  control: RequestControl = {}
+): Promise<string[]> => {
+  const source = await toDataUrl(image.current!);
+  const baseSeed = Math.floor(Math.random() * 1_000_000);
+  const results = await Promise.allSettled(Array.from({ length: count }, (_, i) => (
+    performImageEdit(source, image.mimeType, EditMode.BACKGROUND, { backgroundPrompt: prompt, seed: baseSeed + i }, control)
+  )));
+  const candidates = results.flatMap(r => (r.status === 'fulfilled' ? [r.value.image] : []));
+  if (candidates.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  return candidates;
+};
@@ -0,0 +1,107 @@
+import { createThumbnail } from "./imageUtils";
+
+// Content-addressed store for image pixels. Image state references images by
+// object URL instead of base64 data URLs; identical content always maps to the
+// same URL, so history steps that don't change pixels cost nothing extra.
+
+interface StoredBlob {
+  url: string;
+  blob: Blob;
+  hash: string;
+  createdAt: number;
+}
+
+// Blobs stored moments ago may not have reached React state yet (e.g. a model
+// result between interning and pushHistory), so releasing skips them.
+const RELEASE_GRACE_MS = 10000;
+
+const byHash = new Map<string, StoredBlob>();
+const byUrl = new Map<string, StoredBlob>();
+const thumbnails = new Map<string, Promise<string>>(); // source URL -> thumbnail URL
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.split(':')[1].split(';')[0];
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Stores a blob and returns its object URL. `hash` may be passed when already known.
+export const putBlob = async (blob: Blob, hash?: string): Promise<string> => {
+  const key = hash ?? await hashBlob(blob);
+  const existing = byHash.get(key);
+  if (existing) {
+    existing.createdAt = Date.now();
+    return existing.url;
+  }
+  const entry: StoredBlob = { url: URL.createObjectURL(blob), blob, hash: key, createdAt: Date.now() };
+  byHash.set(key, entry);
+  byUrl.set(entry.url, entry);
+  return entry.url;
+};
+
+// Normalizes any image URL into the store: data URLs are converted, stored URLs pass through
+export const internImage = async (url: string): Promise<string> => {
+  if (byUrl.has(url)) return url;
+  if (url.startsWith('data:')) return putBlob(dataUrlToBlob(url));
+  return putBlob(await (await fetch(url)).blob());
+};
+
+export const getBlob = (url: string): Blob | undefined => byUrl.get(url)?.blob;
+
+export const getBlobHash = (url: string): string | undefined => byUrl.get(url)?.hash;
+
+export const getBlobSize = (url: string): number => {
+  const entry = byUrl.get(url);
+  if (entry) return entry.blob.size;
+  return url.startsWith('data:') ? Math.round(url.length * 0.75) : 0;
+};
+
+// Model APIs take base64; stored URLs are read back only when needed
+export const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const blob = getBlob(url) ?? await (await fetch(url)).blob();
+  return blobToDataUrl(blob);
+};
+
+export const getThumbnailUrl = (src: string): Promise<string> => {
+  let thumbnail = thumbnails.get(src);
+  if (!thumbnail) {
+    thumbnail = createThumbnail(src).then(blob => putBlob(blob));
+    thumbnails.set(src, thumbnail);
+    thumbnail.catch(() => thumbnails.delete(src));
+  }
+  return thumbnail;
+};
+
+// Revokes every stored URL (and thumbnail) no longer referenced by `live`
+export const releaseUnused = async (live: Set<string>) => {
+  const keep = new Set(live);
+  for (const [src, thumbnail] of thumbnails) {
+    if (live.has(src)) keep.add(await thumbnail.catch(() => ''));
+    else thumbnails.delete(src);
+  }
+  const now = Date.now();
+  for (const entry of Array.from(byUrl.values())) {
+    if (keep.has(entry.url) || now - entry.createdAt < RELEASE_GRACE_MS) continue;
+    URL.revokeObjectURL(entry.url);
+    byUrl.delete(entry.url);
+    byHash.delete(entry.hash);
+  }
+};
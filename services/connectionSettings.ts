@@ -0,0 +1,42 @@
+import { ConnectionSettings } from "../types";
+
+// Runtime API key and proxy endpoint. Kept in localStorage so a key never has
+// to be part of the build; PROXY_URL only provides a deployment default.
+
+const STORAGE_KEY = 'gemini-lens:connection';
+
+const DEFAULT_SETTINGS: ConnectionSettings = {
+  apiKey: '',
+  proxyUrl: process.env.PROXY_URL || '',
+};
+
+const loadConnectionSettings = (): ConnectionSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let activeSettings = loadConnectionSettings();
+
+export const getConnectionSettings = (): ConnectionSettings => activeSettings;
+
+export const saveConnectionSettings = (settings: ConnectionSettings) => {
+  const next = { apiKey: settings.apiKey.trim(), proxyUrl: settings.proxyUrl.trim() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  activeSettings = next;
+};
+
+// Build-time keys are only inlined for the dev server (see vite.config.ts)
+export const resolveApiKey = (): string | null => activeSettings.apiKey || process.env.API_KEY || null;
+
+// Whether the Gemini backend can be reached without asking for anything
+export const hasConnection = (): boolean => Boolean(activeSettings.proxyUrl || resolveApiKey());
+
+// Shows the last characters only, e.g. "••••3xYz"
+export const maskApiKey = (key: string): string => (key.length > 8 ? `••••${key.slice(-4)}` : '••••');
+
+// e.g. proxyEndpoint('http://localhost:8787/', 'edit') -> 'http://localhost:8787/edit'
+export const proxyEndpoint = (proxyUrl: string, path: string): string => `${proxyUrl.replace(/\/+$/, '')}/${path}`;
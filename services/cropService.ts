@@ -0,0 +1,155 @@
+import { CropRect, CropSettings } from "../types";
+
+export const FULL_RECT: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_CROP: CropSettings = {
+  aspectRatio: null,
+  rect: null,
+  rotation: 0,
+  straighten: 0,
+  flipH: false,
+  flipV: false,
+};
+
+const MIN_RECT_SIZE = 0.05;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Size of the image after quarter-turn rotation (straighten never changes it)
+export const getFrameSize = (width: number, height: number, crop: CropSettings) => {
+  return crop.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+// Uniform scale so an image rotated by `degrees` still covers its whole frame,
+// i.e. the straighten auto-crop never shows empty corners.
+export const getStraightenScale = (frameWidth: number, frameHeight: number, degrees: number) => {
+  const rad = Math.abs(degrees) * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return Math.max(
+    (frameWidth * cos + frameHeight * sin) / frameWidth,
+    (frameWidth * sin + frameHeight * cos) / frameHeight
+  );
+};
+
+// Largest centered rect with the given pixel aspect ratio (null = full frame)
+export const fitRectToAspect = (frameWidth: number, frameHeight: number, aspectRatio: number | null): CropRect => {
+  if (!aspectRatio) return { ...FULL_RECT };
+  const frameRatio = frameWidth / frameHeight;
+  if (aspectRatio > frameRatio) {
+    const height = frameRatio / aspectRatio;
+    return { x: 0, y: (1 - height) / 2, width: 1, height };
+  }
+  const width = aspectRatio / frameRatio;
+  return { x: (1 - width) / 2, y: 0, width, height: 1 };
+};
+
+// Maps a rect through a quarter turn of its frame so the crop follows the image
+export const rotateRect = (rect: CropRect, clockwise: boolean): CropRect => {
+  return clockwise
+    ? { x: 1 - (rect.y + rect.height), y: rect.x, width: rect.height, height: rect.width }
+    : { x: rect.y, y: 1 - (rect.x + rect.width), width: rect.height, height: rect.width };
+};
+
+export const flipRect = (rect: CropRect, horizontal: boolean): CropRect => {
+  return horizontal
+    ? { ...rect, x: 1 - rect.x - rect.width }
+    : { ...rect, y: 1 - rect.y - rect.height };
+};
+
+// Pixel dimensions of the final cropped output
+export const getOutputSize = (width: number, height: number, crop: CropSettings) => {
+  const frame = getFrameSize(width, height, crop);
+  const rect = crop.rect ?? FULL_RECT;
+  return {
+    width: Math.max(1, Math.round(rect.width * frame.width)),
+    height: Math.max(1, Math.round(rect.height * frame.height)),
+  };
+};
+
+// Draws `img` rotated, flipped, straightened and cropped so that the crop rect
+// lands at the canvas origin. The caller sizes the canvas via getOutputSize.
+export const drawTransformed = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource,
+  width: number,
+  height: number,
+  crop: CropSettings
+) => {
+  const frame = getFrameSize(width, height, crop);
+  const rect = crop.rect ?? FULL_RECT;
+  const scale = getStraightenScale(frame.width, frame.height, crop.straighten);
+
+  ctx.save();
+  ctx.translate(-rect.x * frame.width, -rect.y * frame.height);
+  ctx.translate(frame.width / 2, frame.height / 2);
+  // Flip after rotating so "horizontal" always means horizontal on screen
+  ctx.scale(crop.flipH ? -1 : 1, crop.flipV ? -1 : 1);
+  ctx.rotate((crop.rotation + crop.straighten) * Math.PI / 180);
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+  ctx.restore();
+};
+
+// CSS equivalent of drawTransformed's rotation/flip for the live preview
+export const getTransformCss = (frameWidth: number, frameHeight: number, crop: CropSettings) => {
+  const scale = getStraightenScale(frameWidth, frameHeight, crop.straighten);
+  return `scale(${crop.flipH ? -1 : 1}, ${crop.flipV ? -1 : 1}) rotate(${crop.rotation + crop.straighten}deg) scale(${scale})`;
+};
+
+export type CropHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+// Applies a normalized drag delta to `start`. `ratio` is the locked aspect in
+// normalized units (width / height), or null for a free crop.
+export const dragCropRect = (start: CropRect, handle: CropHandle, dx: number, dy: number, ratio: number | null): CropRect => {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: clamp(start.x + dx, 0, 1 - start.width),
+      y: clamp(start.y + dy, 0, 1 - start.height),
+    };
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - MIN_RECT_SIZE);
+  if (handle.includes('e')) right = clamp(right + dx, left + MIN_RECT_SIZE, 1);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - MIN_RECT_SIZE);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_RECT_SIZE, 1);
+
+  if (ratio) {
+    let width = right - left;
+    let height = bottom - top;
+    const horizontalOnly = handle === 'e' || handle === 'w';
+    const verticalOnly = handle === 'n' || handle === 's';
+
+    if (verticalOnly) width = height * ratio;
+    else height = width / ratio;
+
+    // Shrink to fit the frame while keeping the ratio
+    const maxWidth = verticalOnly ? 1 : handle.includes('w') ? right : 1 - left;
+    const maxHeight = horizontalOnly ? 1 : handle.includes('n') ? bottom : 1 - top;
+    if (width > maxWidth) { width = maxWidth; height = width / ratio; }
+    if (height > maxHeight) { height = maxHeight; width = height * ratio; }
+
+    if (handle.includes('w')) left = right - width; else right = left + width;
+    if (handle.includes('n')) top = bottom - height; else bottom = top + height;
+
+    // Edge handles grow the other axis around the center
+    if (verticalOnly) {
+      const cx = start.x + start.width / 2;
+      left = clamp(cx - width / 2, 0, 1 - width);
+      right = left + width;
+    }
+    if (horizontalOnly) {
+      const cy = start.y + start.height / 2;
+      top = clamp(cy - height / 2, 0, 1 - height);
+      bottom = top + height;
+    }
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
@@ -0,0 +1,86 @@
+import { EditMode, EditOptions, ImageState, MatteStrategy, TokenUsage } from "../types";
+import { internImage, toDataUrl } from "./blobStore";
+import { enhanceImage } from "./enhanceService";
+import { RequestControl, performImageEdit } from "./imageEditService";
+import { compositeWithMask, maskToBlackWhite } from "./imageUtils";
+import { addLayer, compositeLayers } from "./layerService";
+import { createMatteState, renderMatte } from "./matteService";
+import { addRecentPrompt } from "./promptLibrary";
+
+export interface AIEditParams {
+  mode: EditMode;
+  options: EditOptions;
+  matteStrategy: MatteStrategy;
+  inpaintMask?: string | null; // Alpha mask painted over the viewport
+  layerName: string;            // Name of the layer the result is added as
+  control?: RequestControl;     // Cancellation and retry progress
+  tiledEnhance?: boolean;       // Enhance large images tile by tile
+}
+
+export interface AIEditOutcome {
+  patch: Partial<ImageState>;
+  usage: TokenUsage | null;
+}
+
+// Runs one AI edit against `image.current` and returns the state patch to push
+// into history. The result is added as a new top layer. Shared by the
+// single-image tools and the batch queue. Every image URL in the patch is
+// interned in the blob store.
+export const runAIEdit = async (image: ImageState, params: AIEditParams): Promise<AIEditOutcome> => {
+  const { mode, options, matteStrategy, inpaintMask, layerName, control, tiledEnhance } = params;
+  const isInpaint = mode === EditMode.INPAINT;
+  if (isInpaint && !inpaintMask) {
+    throw new Error('Paint the area you want to change first.');
+  }
+
+  // Background removal asks for a B/W matte (keeps original pixels) unless white-keying is chosen
+  const requestMode = mode === EditMode.REMOVE_BG && matteStrategy === 'matte' ? EditMode.MATTE : mode;
+
+  const response = mode === EditMode.ENHANCE
+    ? await enhanceImage(image.current!, options, control, tiledEnhance)
+    : await performImageEdit(await toDataUrl(image.current!), image.mimeType, requestMode, {
+      ...options,
+      mask: isInpaint ? await maskToBlackWhite(inpaintMask!) : null,
+    }, control);
+  const { usage } = response;
+  let result = response.image;
+
+  if (isInpaint) {
+    // Keep everything outside the painted region pixel-identical
+    result = await compositeWithMask(image.current!, result, inpaintMask!);
+  }
+
+  if (mode === EditMode.REMOVE_BG) {
+    const state = await createMatteState(image.current!, result, matteStrategy);
+    const matte = { ...state, source: await internImage(state.source), matte: await internImage(state.matte) };
+    // Layers below are hidden, otherwise they would fill in the removed background
+    const layers = addLayer(image.layers, await internImage(await renderMatte(matte)), layerName, true);
+    return { patch: { layers, current: await compositeLayers(layers), matte }, usage };
+  }
+
+  const layers = addLayer(image.layers, await internImage(result), layerName);
+  const patch: Partial<ImageState> = { layers, current: await compositeLayers(layers), matte: null };
+
+  if (mode === EditMode.CUSTOM || isInpaint) {
+    return { patch: { ...patch, recentPrompts: addRecentPrompt(image.recentPrompts, options.prompt!.trim()) }, usage };
+  }
+
+  return { patch, usage };
+};
+
+// Runs the same edit `count` times in parallel with distinct seeds so the user
+// can pick a result. Failed runs are dropped; throws only when all fail.
+export const runAIEditVariations = async (
+  image: ImageState,
+  params: AIEditParams,
+  count: number
+): Promise<{ outcomes: AIEditOutcome[]; usage: (TokenUsage | null)[] }> => {
+  const baseSeed = Math.floor(Math.random() * 1_000_000);
+  const results = await Promise.allSettled(Array.from({ length: count }, (_, i) => (
+    runAIEdit(image, { ...params, options: { ...params.options, seed: baseSeed + i } })
+  )));
+  const outcomes = results.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+  if (outcomes.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  // Failed runs still count as requests, without usage
+  return { outcomes, usage: results.map(r => (r.status === 'fulfilled' ? r.value.usage : null)) };
+};
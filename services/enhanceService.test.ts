@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { MODEL_ASPECT_RATIOS, closestAspectRatio, splitAxis } from "./enhanceService";
+
+describe('closestAspectRatio', () => {
+  it('returns exact matches', () => {
+    MODEL_ASPECT_RATIOS.forEach(label => {
+      const [w, h] = label.split(':').map(Number);
+      expect(closestAspectRatio(w * 100, h * 100)).toBe(label);
+    });
+  });
+
+  it('picks the nearest ratio for common photo sizes', () => {
+    expect(closestAspectRatio(1920, 1080)).toBe('16:9');
+    expect(closestAspectRatio(4032, 3024)).toBe('4:3');
+    expect(closestAspectRatio(1000, 990)).toBe('1:1');
+    expect(closestAspectRatio(3000, 1000)).toBe('21:9');
+  });
+
+  it('treats portrait and landscape symmetrically', () => {
+    expect(closestAspectRatio(1080, 1920)).toBe('9:16');
+    expect(closestAspectRatio(600, 400)).toBe('3:2');
+    expect(closestAspectRatio(400, 600)).toBe('2:3');
+  });
+});
+
+describe('splitAxis', () => {
+  it('uses a single tile for short edges', () => {
+    expect(splitAxis(800)).toEqual([{ start: 0, size: 800 }]);
+    expect(splitAxis(1024)).toEqual([{ start: 0, size: 1024 }]);
+  });
+
+  it.each([1025, 2048, 3000, 4096, 5000])('covers %i px with equal, overlapping tiles', length => {
+    const spans = splitAxis(length);
+    expect(spans.length).toBeGreaterThan(1);
+    expect(spans[0].start).toBe(0);
+    expect(spans[spans.length - 1].start + spans[spans.length - 1].size).toBe(length);
+    spans.forEach((span, i) => {
+      expect(span.size).toBe(spans[0].size);
+      expect(span.size).toBeLessThanOrEqual(1024);
+      if (i > 0) expect(spans[i - 1].start + spans[i - 1].size - span.start).toBeGreaterThanOrEqual(128);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { EditMode, EditOptions, ImageEditResult, TokenUsage } from "../types";
+import { RequestControl, performImageEdit } from "./imageEditService";
+import { createCanvas, loadImage } from "./imageUtils";
+import { combineUsage } from "./usageService";
+
+// AI Enhance that keeps the input's framing. The model only produces a fixed
+// set of aspect ratios, so the input is padded to the closest one and the
+// padding is cropped off the result. Large images can be enhanced in
+// overlapping tiles whose seams are cross-faded.
+
+export const MODEL_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+// Longest edge sent to the model; larger inputs only cost upload time
+const MAX_MODEL_INPUT = 2048;
+
+// Tiles are measured in source pixels
+const TILE_SIZE = 1024;
+const TILE_OVERLAP = 128;
+const TILED_MAX_SCALE = 4;
+const MAX_OUTPUT_EDGE = 8192; // Stays well inside browser canvas limits
+
+const ratioValue = (label: string) => {
+  const [w, h] = label.split(':').map(Number);
+  return w / h;
+};
+
+// Compared in log space so 2:1 and 1:2 are equally far from 1:1
+export const closestAspectRatio = (width: number, height: number): string => {
+  const target = Math.log(width / height);
+  return MODEL_ASPECT_RATIOS.reduce((best, label) => (
+    Math.abs(Math.log(ratioValue(label)) - target) < Math.abs(Math.log(ratioValue(best)) - target) ? label : best
+  ));
+};
+
+interface Frame {
+  x: number; // Fractions of the padded image
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Centers `source` on a canvas of the model ratio. The padding is a blurred,
+// cover-fit copy so the model sees a plausible continuation, not a hard border.
+const padToRatio = (source: HTMLCanvasElement, ratio: string): { canvas: HTMLCanvasElement; frame: Frame } => {
+  const fit = Math.min(1, MAX_MODEL_INPUT / Math.max(source.width, source.height));
+  const w = Math.max(1, Math.round(source.width * fit));
+  const h = Math.max(1, Math.round(source.height * fit));
+  const value = ratioValue(ratio);
+  const paddedW = Math.max(w, Math.round(h * value));
+  const paddedH = Math.max(h, Math.round(w / value));
+  const { canvas, ctx } = createCanvas(paddedW, paddedH);
+
+  const cover = Math.max(paddedW / w, paddedH / h);
+  ctx.filter = `blur(${Math.round(Math.max(paddedW, paddedH) / 50)}px)`;
+  ctx.drawImage(source, (paddedW - w * cover) / 2, (paddedH - h * cover) / 2, w * cover, h * cover);
+  ctx.filter = 'none';
+  const x = Math.round((paddedW - w) / 2);
+  const y = Math.round((paddedH - h) / 2);
+  ctx.drawImage(source, x, y, w, h);
+  return { canvas, frame: { x: x / paddedW, y: y / paddedH, width: w / paddedW, height: h / paddedH } };
+};
+
+// Enhances one region and returns it at the model's resolution with the
+// region's exact aspect ratio
+const enhanceRegion = async (
+  source: HTMLCanvasElement,
+  options: EditOptions,
+  control: RequestControl
+): Promise<{ canvas: HTMLCanvasElement; usage: TokenUsage | null }> => {
+  const aspectRatio = closestAspectRatio(source.width, source.height);
+  const { canvas: padded, frame } = padToRatio(source, aspectRatio);
+  const response = await performImageEdit(padded.toDataURL('image/png'), 'image/png', EditMode.ENHANCE, { ...options, aspectRatio }, control);
+
+  const result = await loadImage(response.image);
+  const sx = frame.x * result.naturalWidth;
+  const sy = frame.y * result.naturalHeight;
+  const sw = frame.width * result.naturalWidth;
+  const sh = frame.height * result.naturalHeight;
+  // The model's ratio is only approximately honored; the width decides the scale
+  const outW = Math.max(1, Math.round(sw));
+  const outH = Math.max(1, Math.round(sw * source.height / source.width));
+  const { canvas, ctx } = createCanvas(outW, outH);
+  ctx.drawImage(result, sx, sy, sw, sh, 0, 0, outW, outH);
+  return { canvas, usage: response.usage };
+};
+
+export interface Span {
+  start: number;
+  size: number;
+}
+
+// Equal-sized tiles covering `length`, each overlapping the previous one by at least TILE_OVERLAP
+export const splitAxis = (length: number): Span[] => {
+  if (length <= TILE_SIZE) return [{ start: 0, size: length }];
+  const count = Math.ceil((length - TILE_OVERLAP) / (TILE_SIZE - TILE_OVERLAP));
+  const size = Math.ceil((length + (count - 1) * TILE_OVERLAP) / count);
+  return Array.from({ length: count }, (_, i) => ({ start: Math.min(i * (size - TILE_OVERLAP), length - size), size }));
+};
+
+// Fades the tile's left and top edges in over the overlap, so drawing it over
+// the tiles already placed cross-fades the seam
+const featherEdges = (ctx: CanvasRenderingContext2D, width: number, height: number, left: number, top: number) => {
+  ctx.globalCompositeOperation = 'destination-in';
+  if (left > 0) {
+    const gradient = ctx.createLinearGradient(0, 0, left, 0);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  if (top > 0) {
+    const gradient = ctx.createLinearGradient(0, 0, 0, top);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+const enhanceTiled = async (
+  img: HTMLImageElement,
+  options: EditOptions,
+  control: RequestControl
+): Promise<ImageEditResult> => {
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const scale = Math.max(1, Math.min(TILED_MAX_SCALE, MAX_OUTPUT_EDGE / Math.max(width, height)));
+  const { canvas: output, ctx: outCtx } = createCanvas(Math.round(width * scale), Math.round(height * scale));
+  const columns = splitAxis(width);
+  const rows = splitAxis(height);
+  const total = columns.length * rows.length;
+  const usages: (TokenUsage | null)[] = [];
+
+  // One tile at a time keeps memory flat and stays clear of rate limits
+  for (let r = 0; r < rows.length; r++) {
+    for (let c = 0; c < columns.length; c++) {
+      const col = columns[c];
+      const row = rows[r];
+      control.onProgress?.(`Enhancing tile ${r * columns.length + c + 1} of ${total}…`);
+      const { canvas: tile, ctx: tileCtx } = createCanvas(col.size, row.size);
+      tileCtx.drawImage(img, col.start, row.start, col.size, row.size, 0, 0, col.size, row.size);
+      const enhanced = await enhanceRegion(tile, options, control);
+      usages.push(enhanced.usage);
+
+      const x = Math.round(col.start * scale);
+      const y = Math.round(row.start * scale);
+      const placed = createCanvas(Math.round((col.start + col.size) * scale) - x, Math.round((row.start + row.size) * scale) - y);
+      placed.ctx.drawImage(enhanced.canvas, 0, 0, placed.canvas.width, placed.canvas.height);
+      const left = c > 0 ? (columns[c - 1].start + columns[c - 1].size - col.start) * scale : 0;
+      const top = r > 0 ? (rows[r - 1].start + rows[r - 1].size - row.start) * scale : 0;
+      featherEdges(placed.ctx, placed.canvas.width, placed.canvas.height, left, top);
+      outCtx.drawImage(placed.canvas, x, y);
+    }
+  }
+
+  return { image: output.toDataURL('image/png'), usage: combineUsage(usages) };
+};
+
+// Enhances `src` keeping its exact framing. Tiled mode upscales by up to
+// TILED_MAX_SCALE regardless of the model's output size.
+export const enhanceImage = async (
+  src: string,
+  options: EditOptions,
+  control: RequestControl = {},
+  tiled = false
+): Promise<ImageEditResult> => {
+  const img = await loadImage(src);
+  if (tiled) return enhanceTiled(img, options, control);
+  const { canvas: source, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const { canvas, usage } = await enhanceRegion(source, options, control);
+  return { image: canvas.toDataURL('image/png'), usage };
+};
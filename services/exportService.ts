@@ -0,0 +1,159 @@
+import { ExportFormat, ExportSettings } from "../types";
+import { createCanvas } from "./imageUtils";
+
+const STORAGE_KEY = 'gemini-lens:export-settings';
+
+export const FORMAT_OPTIONS: { value: ExportFormat; label: string; extension: string; lossy: boolean }[] = [
+  { value: 'image/png', label: 'PNG', extension: 'png', lossy: false },
+  { value: 'image/jpeg', label: 'JPEG', extension: 'jpg', lossy: true },
+  { value: 'image/webp', label: 'WebP', extension: 'webp', lossy: true },
+  { value: 'image/avif', label: 'AVIF', extension: 'avif', lossy: true },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'image/png',
+  quality: 92,
+  resizeMode: 'original',
+  width: 1920,
+  height: 1080,
+  keepAspect: true,
+  longEdge: 2048,
+  resampling: 'high',
+  filenameTemplate: '{name}-edit',
+};
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_EXPORT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_EXPORT_SETTINGS };
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getExtension = (format: ExportFormat) => {
+  return FORMAT_OPTIONS.find(f => f.value === format)?.extension ?? 'png';
+};
+
+export const isLossy = (format: ExportFormat) => {
+  return FORMAT_OPTIONS.find(f => f.value === format)?.lossy ?? false;
+};
+
+// Browsers silently fall back to PNG for encoders they lack, so probe the output prefix
+export const detectSupportedFormats = (): ExportFormat[] => {
+  const { canvas } = createCanvas(1, 1);
+  return FORMAT_OPTIONS
+    .map(f => f.value)
+    .filter(format => canvas.toDataURL(format).startsWith(`data:${format}`));
+};
+
+export const getTargetSize = (width: number, height: number, settings: ExportSettings) => {
+  if (settings.resizeMode === 'longEdge') {
+    const scale = settings.longEdge / Math.max(width, height);
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+  }
+  if (settings.resizeMode === 'dimensions') {
+    if (settings.keepAspect) {
+      const scale = Math.min(settings.width / width, settings.height / height);
+      return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+    }
+    return { width: Math.max(1, settings.width), height: Math.max(1, settings.height) };
+  }
+  return { width, height };
+};
+
+// Resamples `source` to the target size. Large downscales are done in halving
+// steps at 'high' quality, which avoids the aliasing of a single drawImage.
+export const resizeCanvas = (
+  source: HTMLCanvasElement,
+  width: number,
+  height: number,
+  quality: ImageSmoothingQuality
+): HTMLCanvasElement => {
+  let current = source;
+  if (quality === 'high') {
+    while (current.width / 2 >= width && current.height / 2 >= height) {
+      const step = createCanvas(Math.round(current.width / 2), Math.round(current.height / 2));
+      step.ctx.imageSmoothingQuality = 'high';
+      step.ctx.drawImage(current, 0, 0, step.canvas.width, step.canvas.height);
+      current = step.canvas;
+    }
+  }
+  const out = createCanvas(width, height);
+  out.ctx.imageSmoothingEnabled = true;
+  out.ctx.imageSmoothingQuality = quality;
+  out.ctx.drawImage(current, 0, 0, width, height);
+  return out.canvas;
+};
+
+// JPEG has no alpha channel: composite onto white instead of letting it go black
+export const flattenCanvas = (source: HTMLCanvasElement, background = '#ffffff'): HTMLCanvasElement => {
+  const out = createCanvas(source.width, source.height);
+  out.ctx.fillStyle = background;
+  out.ctx.fillRect(0, 0, source.width, source.height);
+  out.ctx.drawImage(source, 0, 0);
+  return out.canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      format,
+      isLossy(format) ? quality / 100 : undefined
+    );
+  });
+};
+
+// Strips the extension from `name` and fills template tokens
+export const formatFilename = (
+  template: string,
+  values: { name: string; width: number; height: number; format: ExportFormat },
+  now: Date = new Date()
+): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const baseName = values.name.replace(/\.[^.]+$/, '');
+  const filled = (template || DEFAULT_EXPORT_SETTINGS.filenameTemplate)
+    .replace(/\{name\}/g, baseName)
+    .replace(/\{date\}/g, `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`)
+    .replace(/\{time\}/g, `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`)
+    .replace(/\{width\}/g, String(values.width))
+    .replace(/\{height\}/g, String(values.height));
+  const safe = filled.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'gemini-edit';
+  return `${safe}.${getExtension(values.format)}`;
+};
+
+// Resizes and encodes in one step, as used by both the dialog preview and Save
+export const encodeExport = async (
+  source: HTMLCanvasElement,
+  settings: ExportSettings
+): Promise<{ blob: Blob; width: number; height: number }> => {
+  const { width, height } = getTargetSize(source.width, source.height, settings);
+  let canvas = width === source.width && height === source.height
+    ? source
+    : resizeCanvas(source, width, height, settings.resampling);
+  if (settings.format === 'image/jpeg') canvas = flattenCanvas(canvas);
+  const blob = await canvasToBlob(canvas, settings.format, settings.quality);
+  return { blob, width, height };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -1,43 +1,74 @@
-import { GoogleGenAI } from "@google/genai";
-import { EditMode } from "../types";
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AIConfig, EditMode, ImageEditProvider, ImageEditRequest, ImageEditResult, ImageOutputConfig, ModePromptConfig } from "../types";
+import { getAIConfig, renderPrompt, resolveModeConfig } from "./aiConfig";
+import { AIEditError, toAIEditError } from "./aiErrors";
+import { getConnectionSettings, proxyEndpoint, resolveApiKey } from "./connectionSettings";
 
 // Helper to strip data URL prefix
 const stripBase64Prefix = (dataUrl: string): string => {
   return dataUrl.split(',')[1];
 };
 
-interface EditOptions {
-  backgroundColor?: string;
-  backgroundImage?: string | null; // Data URL for custom background
+// Finish reasons that mean the output was withheld rather than missing
+const SAFETY_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
+
+// Unset fields follow the connection settings at request time
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  proxyUrl?: string;
 }
 
-export const performImageEdit = async (
-  imageBase64: string,
-  mimeType: string,
-  mode: EditMode,
-  options: EditOptions = {}
-): Promise<string> => {
-  
-  // 1. Handle API Key Selection
-  // 'Enhance' and complex editing often work best with the Pro model
-  if (mode === EditMode.ENHANCE || mode === EditMode.REPLACE_BG) {
-    if (window.aistudio) {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        await window.aistudio.openSelectKey();
-      }
-    }
+// The proxy's /generate takes the generateContent request as JSON and answers
+// with the model's response, or with an error body shaped like the Gemini API's
+const postToProxy = async (url: string, request: GenerateContentParameters, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw Object.assign(new Error(body?.error?.message || `The proxy responded with ${res.status}.`), { status: res.status });
   }
+  return body as GenerateContentResponse;
+};
 
-  // 2. Initialize Client
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Which Replace Background settings apply, by priority of the inputs given
+const replaceBackgroundVariant = (options: ImageEditRequest['options']): string | null => {
+  if (options.backgroundImage) return 'image';
+  if (options.backgroundPrompt?.trim()) return 'prompt';
+  if (options.backgroundColor) return 'color';
+  return null;
+};
+
+// Builds the generateContent request for an edit. Shared with the proxy
+// server, which resolves prompts from its own configuration.
+export const buildGeminiRequest = (
+  { image: imageBase64, mimeType, mode, options }: Omit<ImageEditRequest, 'signal'>,
+  aiConfig: AIConfig
+): { request: GenerateContentParameters; settings: ModePromptConfig } => {
+  if (mode === EditMode.INPAINT && !options.mask) {
+    throw new Error("Inpainting requires a painted mask and an instruction.");
+  }
+  const variant = mode === EditMode.REPLACE_BG ? replaceBackgroundVariant(options) : null;
+  const settings = resolveModeConfig(aiConfig, mode, variant, options.customModeId);
+  const prompt = renderPrompt(settings.prompt, {
+    prompt: options.prompt,
+    backgroundPrompt: options.backgroundPrompt,
+    backgroundColor: options.backgroundColor,
+  });
+  // The enhance pipeline pads the input to this ratio and crops the result back
+  const imageConfig: ImageOutputConfig = options.aspectRatio
+    ? { ...settings.imageConfig, aspectRatio: options.aspectRatio }
+    : settings.imageConfig;
 
-  // 3. Configure Prompt and Model based on Mode
-  // Using gemini-2.5-flash-image for speed/cost, upgrade to pro if needed for complex Logic
-  let model = 'gemini-2.5-flash-image'; 
-  let prompt = '';
-  let imageConfig: any = {};
-  
   // Prepare contents array (might contain multiple images)
   const contentsParts: any[] = [
     {
@@ -48,83 +79,117 @@ export const performImageEdit = async (
     }
   ];
 
-  switch (mode) {
-    case EditMode.PIXEL_ART:
-      prompt = 'Convert this image into a pixel art style. Maintain the original subject and composition but render it with clear pixelation and vibrant colors appropriate for pixel art video games.';
-      break;
-    case EditMode.ANIME:
-      prompt = 'Transform this image into a high-quality anime style illustration. Use distinct line work, shading, and anime aesthetic while keeping the subject recognizable.';
-      break;
-    case EditMode.REMOVE_BG:
-      // Requesting pure white is standard for flat BG removal if transparency isn't supported directly by format output easily in prompt mode
-      prompt = 'Isolate the main subject of this image and place it on a pure solid white background. Ensure the edges are clean and precise.';
-      break;
-    case EditMode.REPLACE_BG:
-      // Handle Custom Background Image
-      if (options.backgroundImage) {
-        // Add the background image to the request
-        contentsParts.push({
-          inlineData: {
-            mimeType: options.backgroundImage.split(';')[0].split(':')[1],
-            data: stripBase64Prefix(options.backgroundImage)
-          }
-        });
-        prompt = 'Composite the subject from the first image onto the background provided in the second image. Adjust lighting and shadows of the subject to match the new environment realistically.';
-        // Use Pro model for better compositing logic
-        model = 'gemini-3-pro-image-preview'; 
-      } 
-      // Handle Color/Gradient
-      else if (options.backgroundColor) {
-        prompt = `Isolate the main subject of this image and place it on a background with the color/style: ${options.backgroundColor}. Ensure realistic integration.`;
-      } 
-      else {
-        prompt = 'Place the subject of this image into a scenic outdoor environment.';
+  // Composite onto the given background image
+  if (variant === 'image') {
+    contentsParts.push({
+      inlineData: {
+        mimeType: options.backgroundImage!.split(';')[0].split(':')[1],
+        data: stripBase64Prefix(options.backgroundImage!)
       }
-      break;
-    case EditMode.ENHANCE:
-      model = 'gemini-3-pro-image-preview';
-      prompt = 'Recreate this image in ultra-high resolution (4K). Enhance fine details, textures, and lighting clarity significantly. Fix any blurriness or noise. Make it look like a professional photograph.';
-      imageConfig = {
-        imageSize: '4K',
-        aspectRatio: '1:1', // Or match input if we could detect it, 1:1 safe default
-      };
-      break;
+    });
+  }
+  if (mode === EditMode.INPAINT) {
+    contentsParts.push({
+      inlineData: {
+        mimeType: 'image/png',
+        data: stripBase64Prefix(options.mask!)
+      }
+    });
   }
 
   // Append prompt to parts
   contentsParts.push({ text: prompt });
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: contentsParts
-      },
-      config: {
-        imageConfig: Object.keys(imageConfig).length > 0 ? imageConfig : undefined
-      }
+  const request: GenerateContentParameters = {
+    model: settings.model,
+    contents: {
+      parts: contentsParts
+    },
+    config: {
+      imageConfig: Object.keys(imageConfig).length > 0 ? imageConfig : undefined,
+      seed: options.seed
+    }
+  };
+  return { request, settings };
+};
+
+// Extracts the edited image, or throws why there is none
+export const parseGeminiResponse = (response: GenerateContentResponse, model: string): ImageEditResult => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    throw new AIEditError('safety', 'The request was blocked by the model\'s safety filters. Try a different image or instruction.', {
+      detail: feedback.blockReasonMessage || feedback.blockReason,
     });
+  }
 
-    // 4. Extract Image from Response
-    let outputImageBase64 = '';
-
-    if (response.candidates && response.candidates[0].content && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          outputImageBase64 = part.inlineData.data;
-          break;
-        }
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+  const outputImageBase64 = parts.find(part => part.inlineData?.data)?.inlineData!.data;
+
+  if (!outputImageBase64) {
+    if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+      throw new AIEditError('safety', 'The result was blocked by the model\'s safety filters. Try a different image or instruction.', {
+        detail: candidate.finishMessage || candidate.finishReason,
+      });
+    }
+    // The model sometimes explains itself (or refuses) in text instead
+    const reply = parts.map(part => part.text ?? '').join('').trim();
+    throw new AIEditError('no-image', 'The model answered without an image.', { detail: reply || null });
+  }
+
+  const usage = response.usageMetadata;
+  return {
+    image: `data:image/png;base64,${outputImageBase64}`,
+    usage: usage ? {
+      model,
+      promptTokens: usage.promptTokenCount ?? 0,
+      outputTokens: usage.candidatesTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount ?? 0,
+    } : null,
+  };
+};
+
+export const createGeminiProvider = (overrides: GeminiProviderConfig = {}): ImageEditProvider => {
+
+  const edit = async ({ signal, ...editRequest }: ImageEditRequest): Promise<ImageEditResult> => {
+    // 1. Resolve prompt, model and output settings from the AI configuration
+    const { request, settings } = buildGeminiRequest(editRequest, getAIConfig());
+
+    // 2. Resolve the connection: a proxy holds the key server-side
+    const proxyUrl = overrides.proxyUrl ?? getConnectionSettings().proxyUrl;
+    const apiKey = overrides.apiKey ?? resolveApiKey();
+    // AI Studio supplies its own key once one is selected
+    if (!proxyUrl && !apiKey && !window.aistudio) {
+      throw new AIEditError('auth', 'No API key is set. Add one in AI settings or configure a proxy.');
+    }
+    if (!proxyUrl && settings.requiresPaidKey && window.aistudio) {
+      const hasKey = await window.aistudio.hasSelectedApiKey();
+      if (!hasKey) {
+        await window.aistudio.openSelectKey();
       }
     }
 
-    if (!outputImageBase64) {
-      throw new Error("No image data found in response. The model may have returned text only.");
+    // 3. Send directly or through the proxy
+    let response: GenerateContentResponse;
+    try {
+      response = proxyUrl
+        ? await postToProxy(proxyEndpoint(proxyUrl, 'generate'), request, signal)
+        : await new GoogleGenAI({ apiKey: apiKey ?? undefined }).models.generateContent({ ...request, config: { ...request.config, abortSignal: signal } });
+    } catch (error: any) {
+      console.error("Gemini API Error:", error);
+      throw toAIEditError(error);
     }
 
-    return `data:image/png;base64,${outputImageBase64}`;
+    // 4. Extract Image from Response
+    return parseGeminiResponse(response, settings.model);
+  };
 
-  } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    throw new Error(error.message || "Failed to process image");
-  }
-};
\ No newline at end of file
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    requiresApiKey: true,
+    edit,
+  };
+};
+
+export const geminiProvider = createGeminiProvider();
@@ -0,0 +1,44 @@
+// Per-channel tonal distribution of rendered pixels, 256 bins each
+export interface Histogram {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+}
+
+export const computeHistogram = (data: Uint8ClampedArray): Histogram => {
+  const histogram: Histogram = {
+    r: new Uint32Array(256),
+    g: new Uint32Array(256),
+    b: new Uint32Array(256),
+    luma: new Uint32Array(256),
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    // Fully transparent pixels aren't part of the picture
+    if (data[i + 3] === 0) continue;
+    histogram.r[data[i]]++;
+    histogram.g[data[i + 1]]++;
+    histogram.b[data[i + 2]]++;
+    histogram.luma[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+  }
+  return histogram;
+};
+
+// Scale for drawing: clipped shadows/highlights pile up in the end bins, so
+// they're left out when choosing the peak.
+export const getHistogramPeak = (histogram: Histogram): number => {
+  let peak = 1;
+  for (const channel of [histogram.r, histogram.g, histogram.b]) {
+    for (let i = 1; i < 255; i++) peak = Math.max(peak, channel[i]);
+  }
+  return peak;
+};
+
+// SVG path of one channel as a filled area in a 256 x `height` box
+export const getHistogramPath = (bins: Uint32Array, peak: number, height: number): string => {
+  let path = `M0,${height}`;
+  for (let i = 0; i < 256; i++) {
+    path += ` L${i},${height - Math.min(1, bins[i] / peak) * height}`;
+  }
+  return `${path} L255,${height} Z`;
+};
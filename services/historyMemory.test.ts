@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FilterType, ImageState } from "../types";
+import { DEFAULT_ADJUSTMENTS } from "./adjustments";
+import { getBlob, internImage, releaseUnused } from "./blobStore";
+import { DEFAULT_CROP } from "./cropService";
+import { getPatchUrls, getReferencedUrls } from "./historyMemory";
+import { createPixelLayer } from "./layerService";
+
+const createImage = (src: string): ImageState => ({
+  id: 'img', name: 'a.png', original: src, current: src, layers: [createPixelLayer(src, 'Original')],
+  thumbnail: null, mimeType: 'image/png', adjustments: { ...DEFAULT_ADJUSTMENTS }, filter: FilterType.NONE,
+  crop: { ...DEFAULT_CROP }, matte: null, overlays: [], history: [], historyIndex: 0, recentPrompts: [],
+});
+
+const dataUrl = (text: string) => `data:image/png;base64,${btoa(text)}`;
+
+describe('releasing unused blobs', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps variation outcomes alive while they are awaiting a pick', async () => {
+    const original = await internImage(dataUrl('original'));
+    const result = await internImage(dataUrl('variation'));
+    const images = [createImage(original)];
+    const patch = { current: result, layers: [createPixelLayer(original, 'Original'), createPixelLayer(result, 'Anime')] };
+
+    // Past the grace period for freshly stored blobs
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 60_000);
+
+    await releaseUnused(getReferencedUrls(images, getPatchUrls(patch)));
+    expect(getBlob(result)).toBeDefined();
+
+    // Once the picker closes without keeping it, the outcome is released
+    await releaseUnused(getReferencedUrls(images));
+    expect(getBlob(result)).toBeUndefined();
+    expect(getBlob(original)).toBeDefined();
+  });
+
+  it('collects the current image, layers and mattes of a patch', () => {
+    const patch = {
+      current: 'blob:c',
+      layers: [{ ...createPixelLayer('blob:l', 'Cutout'), mask: 'blob:m' }],
+      matte: { source: 'blob:s', matte: 'blob:t' } as ImageState['matte'],
+    };
+    expect(getPatchUrls(patch)).toEqual(['blob:c', 'blob:l', 'blob:m', 'blob:s', 'blob:t']);
+  });
+});
@@ -0,0 +1,79 @@
+import { HistoryEntry, ImageState, MatteState } from "../types";
+import { getBlobSize } from "./blobStore";
+import { removeHistoryEntry } from "./historyService";
+import { getLayerUrls } from "./layerService";
+import { getOverlayImageUrls } from "./overlayService";
+
+// Keeps undo history within a memory budget by dropping each image's oldest
+// steps once stored pixels exceed it.
+
+const BUDGET_STORAGE_KEY = 'gemini-lens:history-budget-mb';
+
+export const HISTORY_BUDGET_OPTIONS = [128, 256, 512, 1024, 2048];
+export const DEFAULT_HISTORY_BUDGET_MB = 512;
+
+export const loadHistoryBudget = (): number => {
+  const saved = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+  return saved > 0 ? saved : DEFAULT_HISTORY_BUDGET_MB;
+};
+
+export const saveHistoryBudget = (mb: number) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, String(mb));
+};
+
+const matteUrls = (matte: MatteState | null): string[] => (matte ? [matte.source, matte.matte] : []);
+
+const entryUrls = (entry: HistoryEntry): string[] => [
+  entry.current!,
+  ...getLayerUrls(entry.layers),
+  ...matteUrls(entry.matte),
+  entry.adjustments.lut?.src ?? '',
+  ...getOverlayImageUrls(entry.overlays),
+].filter(Boolean);
+
+// Image URLs in a state patch not yet committed to history, e.g. an AI variation awaiting a pick
+export const getPatchUrls = (patch: Partial<ImageState>): string[] => [
+  patch.current ?? '',
+  ...getLayerUrls(patch.layers ?? []),
+  ...matteUrls(patch.matte ?? null),
+].filter(Boolean);
+
+// Every blob URL the state tree still points at (images, layers, masks, stickers
+// and LUT files), plus `extraUrls` held outside it
+export const getReferencedUrls = (images: ImageState[], extraUrls: string[] = []): Set<string> => {
+  const urls = new Set<string>(extraUrls);
+  images.forEach(img => {
+    [img.original, img.current, img.thumbnail, ...getLayerUrls(img.layers), ...matteUrls(img.matte), img.adjustments.lut?.src, ...getOverlayImageUrls(img.overlays)].forEach(url => url && urls.add(url));
+    img.history.forEach(entry => entryUrls(entry).forEach(url => urls.add(url)));
+  });
+  return urls;
+};
+
+// Shared blobs are counted once
+export const measureImages = (images: ImageState[]): number => {
+  let total = 0;
+  getReferencedUrls(images).forEach(url => {
+    total += getBlobSize(url);
+  });
+  return total;
+};
+
+// Removes the oldest entry other than the current step
+const evictOne = (img: ImageState): ImageState => {
+  return removeHistoryEntry(img, img.historyIndex === 0 ? 1 : 0);
+};
+
+// Returns `images` unchanged when within budget
+export const enforceHistoryBudget = (images: ImageState[], budgetBytes: number): ImageState[] => {
+  let result = images;
+  while (measureImages(result) > budgetBytes) {
+    // Trim the image with the longest history first
+    const target = result.reduce<ImageState | null>((best, img) => (
+      img.history.length > 1 && (!best || img.history.length > best.history.length) ? img : best
+    ), null);
+    if (!target) break;
+    const trimmed = evictOne(target);
+    result = result.map(img => (img.id === target.id ? trimmed : img));
+  }
+  return result;
+};
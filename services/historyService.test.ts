@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { FilterType, ImageState } from "../types";
+import { DEFAULT_ADJUSTMENTS } from "./adjustments";
+import { DEFAULT_CROP } from "./cropService";
+import {
+  appendHistory, buildHistoryRows, createHistoryEntry, getRedoIndex, getUndoIndex, hasUncommittedChanges,
+  normalizeHistory, removeHistoryEntry, restoreHistory
+} from "./historyService";
+import { createPixelLayer } from "./layerService";
+
+const createImage = (): ImageState => {
+  const image: ImageState = {
+    id: 'img', name: 'a.png', original: 'blob:a', current: 'blob:a', layers: [createPixelLayer('blob:a', 'Original')],
+    thumbnail: null, mimeType: 'image/png', adjustments: { ...DEFAULT_ADJUSTMENTS }, filter: FilterType.NONE,
+    crop: { ...DEFAULT_CROP }, matte: null, overlays: [], history: [], historyIndex: 0, recentPrompts: [],
+  };
+  return { ...image, history: [createHistoryEntry(image, 'Original')] };
+};
+
+const labels = (image: ImageState) => image.history.map(entry => entry.label);
+
+describe('branching history', () => {
+  it('appends edits as children of the current entry', () => {
+    const image = appendHistory(appendHistory(createImage(), { filter: FilterType.SEPIA }, 'Sepia'), { current: 'blob:b' }, 'Anime');
+    expect(labels(image)).toEqual(['Original', 'Sepia', 'Anime']);
+    expect(image.historyIndex).toBe(2);
+    expect(image.history[2].parentId).toBe(image.history[1].id);
+  });
+
+  it('undoes to the parent and redoes the newest branch', () => {
+    let image = appendHistory(createImage(), { filter: FilterType.SEPIA }, 'Sepia');
+    image = restoreHistory(image, getUndoIndex(image));
+    expect(image.filter).toBe(FilterType.NONE);
+
+    // Editing after an undo branches instead of discarding "Sepia"
+    image = appendHistory(image, { filter: FilterType.VINTAGE }, 'Vintage');
+    expect(labels(image)).toEqual(['Original', 'Sepia', 'Vintage']);
+    image = restoreHistory(image, getUndoIndex(image));
+    expect(getRedoIndex(image)).toBe(2);
+    expect(getUndoIndex(image)).toBe(-1);
+  });
+
+  it('lists branches indented before the continuation of their parent', () => {
+    let image = appendHistory(createImage(), { filter: FilterType.SEPIA }, 'Sepia');
+    image = restoreHistory(image, 0);
+    image = appendHistory(image, { filter: FilterType.VINTAGE }, 'Vintage');
+    const rows = buildHistoryRows(image.history, image.historyIndex);
+    expect(rows.map(r => [r.entry.label, r.depth, r.onPath])).toEqual([
+      ['Original', 0, true],
+      ['Vintage', 1, true],
+      ['Sepia', 0, false],
+    ]);
+  });
+
+  it('re-attaches children when an entry is removed', () => {
+    let image = appendHistory(createImage(), { filter: FilterType.SEPIA }, 'Sepia');
+    image = appendHistory(image, { filter: FilterType.BLUR }, 'Blur');
+    const removed = removeHistoryEntry(image, 1);
+    expect(labels(removed)).toEqual(['Original', 'Blur']);
+    expect(removed.history[1].parentId).toBe(removed.history[0].id);
+    expect(removed.historyIndex).toBe(1);
+    // The current entry is never removed
+    expect(removeHistoryEntry(image, 2)).toBe(image);
+  });
+});
+
+describe('normalizeHistory', () => {
+  it('links and labels entries from linear saves', () => {
+    const image = appendHistory(createImage(), { filter: FilterType.SEPIA }, 'Sepia');
+    const legacy = { ...image, history: image.history.map(({ id, parentId, label, ...rest }) => rest) } as unknown as ImageState;
+    const upgraded = normalizeHistory(legacy);
+    expect(labels(upgraded)).toEqual(['Original', 'Edit']);
+    expect(upgraded.history[1].parentId).toBe(upgraded.history[0].id);
+    expect(hasUncommittedChanges(upgraded)).toBe(false);
+  });
+});
+
+describe('hasUncommittedChanges', () => {
+  it('detects live edits not yet pushed to history', () => {
+    const image = createImage();
+    expect(hasUncommittedChanges(image)).toBe(false);
+    expect(hasUncommittedChanges({ ...image, adjustments: { ...image.adjustments, contrast: 140 } })).toBe(true);
+  });
+});
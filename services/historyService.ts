@@ -0,0 +1,154 @@
+import { HistoryEntry, ImageState } from "../types";
+import { normalizeAdjustments } from "./adjustments";
+import { createPixelLayer } from "./layerService";
+
+// Branching undo history. Entries are kept in creation order and linked by
+// `parentId`; pushing after an undo starts a new branch instead of discarding
+// the redo steps.
+
+export interface HistoryRow {
+  entry: HistoryEntry;
+  index: number;
+  depth: number;   // Indentation level: 0 for the first line of edits, +1 per branch
+  onPath: boolean; // Entry is the current step or one of its ancestors
+}
+
+const newEntryId = () => Math.random().toString(36).substr(2, 9);
+
+export const createHistoryEntry = (
+  image: Pick<ImageState, 'current' | 'layers' | 'adjustments' | 'filter' | 'crop' | 'matte' | 'overlays'>,
+  label: string,
+  parentId: string | null = null
+): HistoryEntry => ({
+  id: newEntryId(),
+  parentId,
+  label,
+  current: image.current,
+  layers: image.layers,
+  adjustments: { ...image.adjustments },
+  filter: image.filter,
+  crop: { ...image.crop },
+  matte: image.matte,
+  overlays: image.overlays,
+});
+
+// Applies `patch` and records the result as a child of the current entry
+export const appendHistory = (image: ImageState, patch: Partial<ImageState>, label: string): ImageState => {
+  const next = { ...image, ...patch };
+  const parentId = image.history[image.historyIndex]?.id ?? null;
+  const history = [...image.history, createHistoryEntry(next, label, parentId)];
+  return { ...next, history, historyIndex: history.length - 1 };
+};
+
+export const restoreHistory = (image: ImageState, index: number): ImageState => {
+  const entry = image.history[index];
+  if (!entry) return image;
+  return {
+    ...image,
+    current: entry.current,
+    layers: entry.layers,
+    adjustments: entry.adjustments,
+    filter: entry.filter,
+    crop: entry.crop,
+    matte: entry.matte,
+    overlays: entry.overlays,
+    historyIndex: index,
+  };
+};
+
+export const getUndoIndex = (image: ImageState): number => {
+  const parentId = image.history[image.historyIndex]?.parentId;
+  return parentId ? image.history.findIndex(entry => entry.id === parentId) : -1;
+};
+
+// Redo follows the most recently created branch
+export const getRedoIndex = (image: ImageState): number => {
+  const currentId = image.history[image.historyIndex]?.id;
+  for (let i = image.history.length - 1; i > image.historyIndex; i--) {
+    if (image.history[i].parentId === currentId) return i;
+  }
+  return -1;
+};
+
+// Drops one entry and re-attaches its children to its parent
+export const removeHistoryEntry = (image: ImageState, index: number): ImageState => {
+  const removed = image.history[index];
+  if (!removed || index === image.historyIndex) return image;
+  const history = image.history
+    .filter((_, i) => i !== index)
+    .map(entry => (entry.parentId === removed.id ? { ...entry, parentId: removed.parentId } : entry));
+  return { ...image, history, historyIndex: image.historyIndex - (index < image.historyIndex ? 1 : 0) };
+};
+
+// Flattens the tree for display. The oldest child continues its parent's line;
+// later children are branches listed (indented) before that continuation.
+export const buildHistoryRows = (history: HistoryEntry[], historyIndex: number): HistoryRow[] => {
+  const children = new Map<string | null, number[]>();
+  const ids = new Set(history.map(entry => entry.id));
+  history.forEach((entry, index) => {
+    const parent = entry.parentId && ids.has(entry.parentId) ? entry.parentId : null;
+    children.set(parent, [...(children.get(parent) ?? []), index]);
+  });
+
+  const path = new Set<string>();
+  for (let entry = history[historyIndex]; entry; entry = history.find(e => e.id === entry.parentId)!) {
+    path.add(entry.id);
+  }
+
+  const rows: HistoryRow[] = [];
+  // Iterative DFS; histories can be long enough to make recursion risky
+  const roots = children.get(null) ?? [];
+  const stack: { index: number; depth: number }[] = roots.map((index, i) => ({ index, depth: i === 0 ? 0 : 1 })).reverse();
+  while (stack.length > 0) {
+    const { index, depth } = stack.pop()!;
+    const entry = history[index];
+    rows.push({ entry, index, depth, onPath: path.has(entry.id) });
+    const kids = children.get(entry.id) ?? [];
+    if (kids.length === 0) continue;
+    // Pushed in reverse so branches pop first, then the continuation
+    stack.push({ index: kids[0], depth });
+    for (let i = kids.length - 1; i >= 1; i--) stack.push({ index: kids[i], depth: depth + 1 });
+  }
+  return rows;
+};
+
+// Saves from before the layer stack become a single layer holding `current`
+const upgradeLayers = (state: { layers?: ImageState['layers']; current: string | null }) =>
+  state.layers ?? (state.current ? [createPixelLayer(state.current, 'Original')] : []);
+
+// Projects saved before history was branching have linear, unlabeled entries,
+// and older ones predate the extended adjustment set, overlays and layers
+export const normalizeHistory = (image: ImageState): ImageState => {
+  const entries = image.history.map(entry => ({
+    ...entry,
+    layers: upgradeLayers(entry),
+    adjustments: normalizeAdjustments(entry.adjustments),
+    overlays: entry.overlays ?? [],
+  }));
+  const upgraded: ImageState = {
+    ...image,
+    // Share the current entry's layers so the upgrade doesn't read as an unsaved edit
+    layers: image.layers ?? entries[image.historyIndex]?.layers ?? upgradeLayers(image),
+    adjustments: normalizeAdjustments(image.adjustments),
+    overlays: image.overlays ?? [],
+    history: entries,
+  };
+  if (upgraded.history.every(entry => entry.id)) return upgraded;
+  let parentId: string | null = null;
+  const history = upgraded.history.map((entry, i) => {
+    const normalized: HistoryEntry = { ...entry, id: newEntryId(), parentId, label: i === 0 ? 'Original' : 'Edit' };
+    parentId = normalized.id;
+    return normalized;
+  });
+  return { ...upgraded, history };
+};
+
+// True when live edits (slider drags, layer moves) differ from the current entry
+export const hasUncommittedChanges = (image: ImageState): boolean => {
+  const entry = image.history[image.historyIndex];
+  if (!entry) return false;
+  return JSON.stringify(entry.layers) !== JSON.stringify(image.layers)
+    || JSON.stringify(entry.adjustments) !== JSON.stringify(image.adjustments)
+    || JSON.stringify(entry.crop) !== JSON.stringify(image.crop)
+    || JSON.stringify(entry.overlays) !== JSON.stringify(image.overlays);
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from "vitest";
+import { EditMode, ImageEditProvider } from "../types";
+import { getActiveProvider, listProviders, performImageEdit, registerProvider, setActiveProvider } from "./imageEditService";
+
+const fakeProvider = (id: string, edit: ImageEditProvider['edit']): ImageEditProvider => ({
+  id, name: id, requiresApiKey: false, edit,
+});
+
+describe('provider registry', () => {
+  it('ships the gemini, mock and proxy backends', () => {
+    expect(listProviders().map(p => p.id)).toEqual(expect.arrayContaining(['gemini', 'mock', 'proxy']));
+  });
+
+  it('falls back to the mock when no key or proxy is configured', () => {
+    expect(getActiveProvider().id).toBe('mock');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => setActiveProvider('nope')).toThrow('Unknown image provider: nope');
+  });
+
+  it('routes performImageEdit to the active provider', async () => {
+    const edit = vi.fn(async () => ({ image: 'data:image/png;base64,AA==', usage: null }));
+    registerProvider(fakeProvider('fake', edit));
+    setActiveProvider('fake');
+    try {
+      const result = await performImageEdit('data:image/png;base64,BB==', 'image/png', EditMode.ANIME, { prompt: 'x' });
+      expect(result.image).toBe('data:image/png;base64,AA==');
+      expect(edit).toHaveBeenCalledWith(expect.objectContaining({ mode: EditMode.ANIME, options: { prompt: 'x' } }));
+    } finally {
+      setActiveProvider('mock');
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { EditMode, EditOptions, ImageEditProvider, ImageEditRequest, ImageEditResult } from "../types";
+import { AIEditError, toAIEditError, wait } from "./aiErrors";
+import { hasConnection } from "./connectionSettings";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+import { proxyProvider } from "./proxyService";
+import { recordUsage } from "./usageService";
+
+// Registry of available AI backends. The app talks to `performImageEdit` only,
+// so swapping the backend never touches UI code.
+const providers = new Map<string, ImageEditProvider>([
+  [geminiProvider.id, geminiProvider],
+  [mockProvider.id, mockProvider],
+  [proxyProvider.id, proxyProvider],
+]);
+
+// IMAGE_PROVIDER wins if set; otherwise fall back to the mock when neither a key nor a proxy is configured.
+const resolveDefaultProviderId = (): string => {
+  const configured = process.env.IMAGE_PROVIDER;
+  if (configured && providers.has(configured)) return configured;
+  return hasConnection() ? geminiProvider.id : mockProvider.id;
+};
+
+let activeProviderId = resolveDefaultProviderId();
+
+export const registerProvider = (provider: ImageEditProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): ImageEditProvider[] => Array.from(providers.values());
+
+export const getActiveProvider = (): ImageEditProvider => providers.get(activeProviderId)!;
+
+export const setActiveProvider = (id: string) => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown image provider: ${id}`);
+  }
+  activeProviderId = id;
+};
+
+// Retries back off exponentially (1s, 2s, 4s... with jitter)
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Generous: high-resolution edits on the pro model can take over a minute
+const REQUEST_TIMEOUT_MS = 180_000;
+
+export interface RetryInfo {
+  attempt: number;     // The attempt about to start, from 2
+  maxAttempts: number;
+  delayMs: number;
+  error: AIEditError;  // Why the previous attempt failed
+}
+
+export interface RequestControl {
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+  onProgress?: (message: string) => void; // Steps of multi-request edits, e.g. tiles
+}
+
+// One attempt, aborted by the caller's signal or after REQUEST_TIMEOUT_MS
+const attempt = async (provider: ImageEditProvider, request: Omit<ImageEditRequest, 'signal'>, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await provider.edit({ ...request, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new AIEditError('timeout', 'The AI service took too long to respond.');
+    if (signal?.aborted) throw new AIEditError('cancelled', 'The request was cancelled.');
+    throw toAIEditError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Every failure is thrown as an AIEditError. Each finished request, failed or
+// not, is added to the usage log.
+export const performImageEdit = async (
+  imageBase64: string,
+  mimeType: string,
+  mode: EditMode,
+  options: EditOptions = {},
+  control: RequestControl = {}
+): Promise<ImageEditResult> => {
+  const provider = getActiveProvider();
+  const request = { image: imageBase64, mimeType, mode, options };
+  for (let n = 1; ; n++) {
+    try {
+      const result = await attempt(provider, request, control.signal);
+      recordUsage(mode, result.usage);
+      return result;
+    } catch (error) {
+      const err = toAIEditError(error);
+      if (!err.retryable || n >= MAX_ATTEMPTS) {
+        if (err.kind !== 'cancelled') recordUsage(mode, null, err.kind);
+        throw err;
+      }
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (n - 1) * (1 + Math.random() * 0.25);
+      control.onRetry?.({ attempt: n + 1, maxAttempts: MAX_ATTEMPTS, delayMs, error: err });
+      await wait(delayMs, control.signal);
+    }
+  }
+};
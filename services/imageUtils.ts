@@ -0,0 +1,105 @@
+// Minimal pixel container shared by browser (ImageData) and pure transforms.
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+};
+
+// Decodes an image to pixels, optionally resampling it to a target size
+export const getImageData = async (src: string, width?: number, height?: number): Promise<ImageData> => {
+  const img = await loadImage(src);
+  const { canvas, ctx } = createCanvas(width ?? img.naturalWidth, height ?? img.naturalHeight);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+export const pixelBufferToDataUrl = (buffer: PixelBuffer, mimeType = 'image/png'): string => {
+  const { canvas, ctx } = createCanvas(buffer.width, buffer.height);
+  ctx.putImageData(new ImageData(buffer.data as Uint8ClampedArray<ArrayBuffer>, buffer.width, buffer.height), 0, 0);
+  return canvas.toDataURL(mimeType);
+};
+
+export const hasTransparency = (data: Uint8ClampedArray): boolean => {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+// Converts an alpha mask (painted strokes on transparent) into the opaque
+// black/white image the model expects: white = editable region.
+export const maskToBlackWhite = async (maskUrl: string): Promise<string> => {
+  const mask = await loadImage(maskUrl);
+  const { canvas, ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(mask, 0, 0);
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < data.data.length; i += 4) {
+    const v = data.data[i] || data.data[i + 1] || data.data[i + 2] ? 255 : 0;
+    data.data[i] = data.data[i + 1] = data.data[i + 2] = v;
+    data.data[i + 3] = 255;
+  }
+  ctx.putImageData(data, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Blends `editedUrl` over `baseUrl` only where `maskUrl` is painted, so pixels
+// outside the mask are guaranteed to be untouched. Output matches the base size.
+export const compositeWithMask = async (
+  baseUrl: string,
+  editedUrl: string,
+  maskUrl: string,
+  feather = 4
+): Promise<string> => {
+  const [base, edited, mask] = await Promise.all([loadImage(baseUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+
+  // Edited pixels clipped to the (feathered) mask
+  const layer = createCanvas(width, height);
+  layer.ctx.drawImage(edited, 0, 0, width, height);
+  layer.ctx.globalCompositeOperation = 'destination-in';
+  layer.ctx.filter = feather > 0 ? `blur(${feather}px)` : 'none';
+  layer.ctx.drawImage(mask, 0, 0, width, height);
+
+  const out = createCanvas(width, height);
+  out.ctx.drawImage(base, 0, 0);
+  out.ctx.drawImage(layer.canvas, 0, 0);
+  return out.canvas.toDataURL('image/png');
+};
+
+// Downscaled preview for filmstrips and history lists. WebP keeps alpha and
+// falls back to PNG in browsers that can't encode it.
+export const createThumbnail = async (src: string, maxSize = 160): Promise<Blob> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.naturalWidth * scale)), Math.max(1, Math.round(img.naturalHeight * scale)));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create thumbnail'))), 'image/webp', 0.8);
+  });
+};
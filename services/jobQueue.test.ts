@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { Job } from "../types";
+import { createJobQueue } from "./jobQueue";
+
+// A task that settles only when the test says so; each run is settled separately
+const deferredTask = () => {
+  const runs: { resolve: () => void; reject: (error: Error) => void }[] = [];
+  const signals: AbortSignal[] = [];
+  const task = (signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise<void>((resolve, reject) => runs.push({ resolve, reject }));
+  };
+  return {
+    task,
+    signals,
+    resolve: (run = 0) => runs[run].resolve(),
+    reject: (error: Error, run = 0) => runs[run].reject(error),
+  };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const watch = (queue: ReturnType<typeof createJobQueue>) => {
+  let jobs: Job[] = [];
+  queue.subscribe(next => (jobs = next));
+  return () => jobs;
+};
+
+describe('createJobQueue', () => {
+  it('runs at most `concurrency` tasks and starts queued ones as slots free up', async () => {
+    const queue = createJobQueue(2);
+    const jobs = watch(queue);
+    const tasks = [deferredTask(), deferredTask(), deferredTask()];
+    tasks.forEach((t, i) => queue.add(`img${i}`, 'Edit', t.task));
+    expect(jobs().map(j => j.status)).toEqual(['running', 'running', 'queued']);
+
+    tasks[0].resolve();
+    await flush();
+    expect(jobs().map(j => j.status)).toEqual(['done', 'running', 'running']);
+  });
+
+  it('records failures with their message', async () => {
+    const queue = createJobQueue(1);
+    const jobs = watch(queue);
+    const t = deferredTask();
+    queue.add('img', 'Edit', t.task);
+    t.reject(new Error('boom'));
+    await flush();
+    expect(jobs()[0]).toMatchObject({ status: 'failed', error: 'boom', attempts: 1 });
+  });
+
+  it('keeps a cancelled task\'s slot until the task settles', async () => {
+    const queue = createJobQueue(1);
+    const jobs = watch(queue);
+    const first = deferredTask();
+    const second = deferredTask();
+    const id = queue.add('a', 'Edit', first.task);
+    queue.add('b', 'Edit', second.task);
+
+    queue.cancel(id);
+    expect(first.signals[0].aborted).toBe(true);
+    expect(jobs().map(j => j.status)).toEqual(['cancelled', 'queued']);
+    expect(second.signals).toHaveLength(0);
+
+    first.resolve();
+    await flush();
+    expect(jobs().map(j => j.status)).toEqual(['cancelled', 'running']);
+  });
+
+  it('lets a retried run be cancelled after the previous run settles', async () => {
+    const queue = createJobQueue(2);
+    const jobs = watch(queue);
+    const t = deferredTask();
+    const id = queue.add('a', 'Edit', t.task);
+    queue.cancel(id);
+    queue.retry(id);
+    expect(jobs()[0]).toMatchObject({ status: 'running', attempts: 2 });
+
+    t.resolve(0);
+    await flush();
+    queue.cancel(id);
+    expect(t.signals[1].aborted).toBe(true);
+    expect(jobs()[0].status).toBe('cancelled');
+  });
+
+  it('clears finished jobs only', async () => {
+    const queue = createJobQueue(1);
+    const jobs = watch(queue);
+    const done = deferredTask();
+    queue.add('a', 'Edit', done.task);
+    queue.add('b', 'Edit', deferredTask().task);
+    done.resolve();
+    await flush();
+    queue.clearFinished();
+    expect(jobs().map(j => j.imageId)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,112 @@
+import { Job } from "../types";
+
+// Work performed for a job. Implementations should stop early (or at least
+// not commit results) once `signal` is aborted.
+export type JobTask = (signal: AbortSignal) => Promise<void>;
+
+export interface JobQueue {
+  add: (imageId: string, label: string, task: JobTask) => string;
+  cancel: (jobId: string) => void;
+  cancelAll: () => void;
+  retry: (jobId: string) => void;
+  clearFinished: () => void;
+  subscribe: (listener: (jobs: Job[]) => void) => () => void;
+}
+
+// FIFO queue that runs at most `concurrency` tasks at once. A cancelled task
+// keeps its slot until it actually settles.
+export const createJobQueue = (concurrency = 3): JobQueue => {
+  let jobs: Job[] = [];
+  const tasks = new Map<string, JobTask>();
+  const controllers = new Map<string, AbortController>(); // Latest run of each job
+  const inFlight = new Set<AbortController>();             // Every run not yet settled
+  const listeners = new Set<(jobs: Job[]) => void>();
+
+  const emit = () => listeners.forEach(listener => listener(jobs));
+
+  const update = (id: string, patch: Partial<Job>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const pump = () => {
+    let running = inFlight.size;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status !== 'queued') continue;
+      running++;
+      start(job);
+    }
+    emit();
+  };
+
+  const start = (job: Job) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    inFlight.add(controller);
+    update(job.id, { status: 'running', error: null, attempts: job.attempts + 1 });
+
+    tasks.get(job.id)!(controller.signal)
+      .then(() => {
+        if (!controller.signal.aborted) update(job.id, { status: 'done' });
+      })
+      .catch((err: any) => {
+        if (!controller.signal.aborted) update(job.id, { status: 'failed', error: err?.message || 'Job failed' });
+      })
+      .finally(() => {
+        inFlight.delete(controller);
+        // A retry may already have started a newer run of this job
+        if (controllers.get(job.id) === controller) controllers.delete(job.id);
+        pump();
+      });
+  };
+
+  const add = (imageId: string, label: string, task: JobTask) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    tasks.set(id, task);
+    jobs = [...jobs, { id, imageId, label, status: 'queued', error: null, attempts: 0 }];
+    pump();
+    return id;
+  };
+
+  const cancel = (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+    controllers.get(jobId)?.abort();
+    update(jobId, { status: 'cancelled' });
+    pump();
+  };
+
+  const cancelAll = () => {
+    jobs.filter(j => j.status === 'queued' || j.status === 'running').forEach(j => {
+      controllers.get(j.id)?.abort();
+      update(j.id, { status: 'cancelled' });
+    });
+    pump();
+  };
+
+  const retry = (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+    update(jobId, { status: 'queued', error: null });
+    pump();
+  };
+
+  const clearFinished = () => {
+    jobs = jobs.filter(job => {
+      const finished = job.status === 'done' || job.status === 'cancelled' || job.status === 'failed';
+      if (finished) tasks.delete(job.id);
+      return !finished;
+    });
+    emit();
+  };
+
+  const subscribe = (listener: (jobs: Job[]) => void) => {
+    listeners.add(listener);
+    listener(jobs);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { add, cancel, cancelAll, retry, clearFinished, subscribe };
+};
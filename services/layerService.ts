@@ -0,0 +1,133 @@
+import { BlendMode, PixelLayer } from "../types";
+import { internImage, putBlob } from "./blobStore";
+import { canvasToBlob } from "./exportService";
+import { createCanvas, loadImage, maskToBlackWhite } from "./imageUtils";
+
+// Image layer stack. `ImageState.current` always holds the flattened result of
+// the visible layers, so crop, adjustments, AI input and export keep working on
+// a single bitmap.
+
+export const BLEND_MODES: { value: BlendMode; name: string }[] = [
+  { value: 'normal', name: 'Normal' },
+  { value: 'multiply', name: 'Multiply' },
+  { value: 'screen', name: 'Screen' },
+  { value: 'overlay', name: 'Overlay' },
+  { value: 'darken', name: 'Darken' },
+  { value: 'lighten', name: 'Lighten' },
+  { value: 'color-dodge', name: 'Color Dodge' },
+  { value: 'color-burn', name: 'Color Burn' },
+  { value: 'hard-light', name: 'Hard Light' },
+  { value: 'soft-light', name: 'Soft Light' },
+  { value: 'difference', name: 'Difference' },
+  { value: 'exclusion', name: 'Exclusion' },
+  { value: 'hue', name: 'Hue' },
+  { value: 'saturation', name: 'Saturation' },
+  { value: 'color', name: 'Color' },
+  { value: 'luminosity', name: 'Luminosity' },
+];
+
+const newLayerId = () => Math.random().toString(36).substr(2, 9);
+
+export const createPixelLayer = (src: string, name: string): PixelLayer => ({
+  id: newLayerId(),
+  name,
+  src,
+  opacity: 1,
+  blendMode: 'normal',
+  visible: true,
+  mask: null,
+});
+
+export const getLayerUrls = (layers: PixelLayer[]): string[] =>
+  layers.flatMap(layer => (layer.mask ? [layer.src, layer.mask] : [layer.src]));
+
+// Adds `src` on top; `hideBelow` is used for cutouts so the background shows through
+export const addLayer = (layers: PixelLayer[], src: string, name: string, hideBelow = false): PixelLayer[] => [
+  ...(hideBelow ? layers.map(layer => ({ ...layer, visible: false })) : layers),
+  createPixelLayer(src, name),
+];
+
+// -- Masks --
+
+// Painted strokes (alpha) become a grayscale mask: painted areas show the layer
+export const maskFromPaint = async (paintedMask: string): Promise<string> => {
+  return internImage(await maskToBlackWhite(paintedMask));
+};
+
+export const invertMask = async (mask: string): Promise<string> => {
+  const img = await loadImage(mask);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'difference';
+  ctx.drawImage(img, 0, 0);
+  return putBlob(await canvasToBlob(canvas, 'image/png', 100));
+};
+
+// -- Compositing --
+
+const images = new Map<string, Promise<HTMLImageElement>>();
+const alphaMasks = new Map<string, Promise<HTMLCanvasElement>>();
+
+const loadCached = (src: string): Promise<HTMLImageElement> => {
+  if (!images.has(src)) {
+    const promise = loadImage(src);
+    promise.catch(() => images.delete(src));
+    images.set(src, promise);
+  }
+  return images.get(src)!;
+};
+
+// Mask luminance moved into alpha, ready for destination-in
+const loadAlphaMask = (src: string): Promise<HTMLCanvasElement> => {
+  if (!alphaMasks.has(src)) {
+    const promise = loadCached(src).then(img => {
+      const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+      ctx.drawImage(img, 0, 0);
+      const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      for (let i = 0; i < data.data.length; i += 4) {
+        const luma = 0.299 * data.data[i] + 0.587 * data.data[i + 1] + 0.114 * data.data[i + 2];
+        data.data[i + 3] = Math.round(luma * data.data[i + 3] / 255);
+      }
+      ctx.putImageData(data, 0, 0);
+      return canvas;
+    });
+    promise.catch(() => alphaMasks.delete(src));
+    alphaMasks.set(src, promise);
+  }
+  return alphaMasks.get(src)!;
+};
+
+const isPassThrough = (layer: PixelLayer) => layer.opacity >= 1 && layer.blendMode === 'normal' && !layer.mask;
+
+// Flattens the visible layers into a stored PNG. A lone untouched layer is
+// returned as-is so the common single-layer case costs nothing.
+export const compositeLayers = async (layers: PixelLayer[]): Promise<string> => {
+  const visible = layers.filter(layer => layer.visible && layer.opacity > 0);
+  if (visible.length === 1 && isPassThrough(visible[0])) return visible[0].src;
+
+  const loaded = await Promise.all(layers.map(layer => loadCached(layer.src)));
+  // Size follows the largest visible layer (or any layer when all are hidden)
+  const sized = (visible.length > 0 ? visible : layers).map(layer => loaded[layers.indexOf(layer)]);
+  const largest = sized.reduce((best, img) => (
+    img.naturalWidth * img.naturalHeight > best.naturalWidth * best.naturalHeight ? img : best
+  ));
+  const { canvas, ctx } = createCanvas(largest.naturalWidth, largest.naturalHeight);
+
+  for (const layer of visible) {
+    const img = loaded[layers.indexOf(layer)];
+    let source: CanvasImageSource = img;
+    if (layer.mask) {
+      const temp = createCanvas(canvas.width, canvas.height);
+      temp.ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      temp.ctx.globalCompositeOperation = 'destination-in';
+      temp.ctx.drawImage(await loadAlphaMask(layer.mask), 0, 0, canvas.width, canvas.height);
+      source = temp.canvas;
+    }
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }
+
+  return putBlob(await canvasToBlob(canvas, 'image/png', 100));
+};
@@ -0,0 +1,119 @@
+// 3D colour lookup tables from .cube files (Adobe/Resolve format). Imported
+// files are kept as blobs in the blob store and parsed on demand.
+
+export interface Lut3D {
+  size: number;
+  data: Float32Array; // RGB triplets, red varying fastest, then green, then blue
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
+const MAX_CACHED_LUTS = 8;
+
+const parsed = new Map<string, Promise<Lut3D>>(); // blob URL -> table
+
+const parseTriplet = (parts: string[], line: number): [number, number, number] => {
+  const values = parts.map(Number);
+  if (values.length !== 3 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Invalid .cube file: bad values on line ${line}.`);
+  }
+  return [values[0], values[1], values[2]];
+};
+
+export const parseCubeLut = (text: string): Lut3D => {
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+    if (keyword === 'TITLE') return;
+    if (keyword === 'LUT_1D_SIZE') throw new Error('1D LUTs are not supported; export a 3D .cube instead.');
+    if (keyword === 'LUT_3D_SIZE') {
+      size = Number(parts[1]);
+      return;
+    }
+    if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(parts.slice(1), i + 1);
+      return;
+    }
+    if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(parts.slice(1), i + 1);
+      return;
+    }
+    values.push(...parseTriplet(parts, i + 1));
+  });
+
+  if (!Number.isInteger(size) || size < 2 || size > 256) {
+    throw new Error('Invalid .cube file: missing or unsupported LUT_3D_SIZE.');
+  }
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Invalid .cube file: expected ${size ** 3} entries, found ${values.length / 3}.`);
+  }
+  return { size, data: new Float32Array(values), domainMin, domainMax };
+};
+
+// Parsed tables are cached per blob URL; only the most recent few are kept
+export const loadLut = (src: string): Promise<Lut3D> => {
+  const cached = parsed.get(src);
+  if (cached) return cached;
+  const promise = fetch(src).then(r => r.text()).then(parseCubeLut);
+  parsed.set(src, promise);
+  if (parsed.size > MAX_CACHED_LUTS) parsed.delete(parsed.keys().next().value!);
+  promise.catch(() => parsed.delete(src));
+  return promise;
+};
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+// Trilinear lookup; inputs and outputs are 0-1
+export const sampleLut = (lut: Lut3D, r: number, g: number, b: number): [number, number, number] => {
+  const n = lut.size;
+  const { data, domainMin: lo, domainMax: hi } = lut;
+  const fr = clamp01((r - lo[0]) / (hi[0] - lo[0])) * (n - 1);
+  const fg = clamp01((g - lo[1]) / (hi[1] - lo[1])) * (n - 1);
+  const fb = clamp01((b - lo[2]) / (hi[2] - lo[2])) * (n - 1);
+  const r0 = Math.floor(fr), g0 = Math.floor(fg), b0 = Math.floor(fb);
+  const r1 = Math.min(n - 1, r0 + 1), g1 = Math.min(n - 1, g0 + 1), b1 = Math.min(n - 1, b0 + 1);
+  const dr = fr - r0, dg = fg - g0, db = fb - b0;
+
+  const out: [number, number, number] = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    const at = (ri: number, gi: number, bi: number) => data[((bi * n + gi) * n + ri) * 3 + c];
+    const c00 = at(r0, g0, b0) * (1 - dr) + at(r1, g0, b0) * dr;
+    const c10 = at(r0, g1, b0) * (1 - dr) + at(r1, g1, b0) * dr;
+    const c01 = at(r0, g0, b1) * (1 - dr) + at(r1, g0, b1) * dr;
+    const c11 = at(r0, g1, b1) * (1 - dr) + at(r1, g1, b1) * dr;
+    out[c] = (c00 * (1 - dg) + c10 * dg) * (1 - db) + (c01 * (1 - dg) + c11 * dg) * db;
+  }
+  return out;
+};
+
+// WebGL 1 has no 3D textures: blue slices are laid side by side, giving a
+// (size * size) x size RGBA image with red along x and green along y.
+const packed = new WeakMap<Lut3D, Uint8Array>();
+
+export const packLutTexture = (lut: Lut3D): Uint8Array => {
+  const cached = packed.get(lut);
+  if (cached) return cached;
+  const n = lut.size;
+  const out = new Uint8Array(n * n * n * 4);
+  for (let b = 0; b < n; b++) {
+    for (let g = 0; g < n; g++) {
+      for (let r = 0; r < n; r++) {
+        const src = ((b * n + g) * n + r) * 3;
+        const dst = (g * n * n + b * n + r) * 4;
+        out[dst] = Math.round(clamp01(lut.data[src]) * 255);
+        out[dst + 1] = Math.round(clamp01(lut.data[src + 1]) * 255);
+        out[dst + 2] = Math.round(clamp01(lut.data[src + 2]) * 255);
+        out[dst + 3] = 255;
+      }
+    }
+  }
+  packed.set(lut, out);
+  return out;
+};
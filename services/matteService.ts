@@ -0,0 +1,161 @@
+import { MatteSettings, MatteState, MatteStrategy } from "../types";
+import { PixelBuffer, createPixelBuffer, getImageData, pixelBufferToDataUrl } from "./imageUtils";
+
+export const DEFAULT_MATTE_SETTINGS: MatteSettings = { feather: 1, choke: 0, decontaminate: true };
+
+// Distance-from-white thresholds used when keying a model cut-out on white
+const WHITE_KEY_LOW = 12;
+const WHITE_KEY_HIGH = 60;
+
+type RGB = [number, number, number];
+
+// -- Pure matte operations (alpha as Float32Array in 0..1) --
+
+export const alphaFromWhiteKey = (src: PixelBuffer): Float32Array => {
+  const alpha = new Float32Array(src.width * src.height);
+  for (let p = 0; p < alpha.length; p++) {
+    const i = p * 4;
+    const dr = 255 - src.data[i], dg = 255 - src.data[i + 1], db = 255 - src.data[i + 2];
+    const dist = Math.sqrt(dr * dr + dg * dg + db * db);
+    alpha[p] = Math.min(1, Math.max(0, (dist - WHITE_KEY_LOW) / (WHITE_KEY_HIGH - WHITE_KEY_LOW)));
+  }
+  return alpha;
+};
+
+export const alphaFromMatte = (matte: PixelBuffer): Float32Array => {
+  const alpha = new Float32Array(matte.width * matte.height);
+  for (let p = 0; p < alpha.length; p++) {
+    const i = p * 4;
+    alpha[p] = (0.299 * matte.data[i] + 0.587 * matte.data[i + 1] + 0.114 * matte.data[i + 2]) / 255;
+  }
+  return alpha;
+};
+
+// Separable running min/max: radius > 0 erodes (min), radius < 0 dilates (max)
+const morph = (alpha: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const r = Math.abs(Math.round(radius));
+  if (r === 0) return alpha;
+  const pick = radius > 0 ? Math.min : Math.max;
+  const tmp = new Float32Array(alpha.length);
+  const out = new Float32Array(alpha.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let v = alpha[y * width + x];
+      for (let k = Math.max(0, x - r); k <= Math.min(width - 1, x + r); k++) v = pick(v, alpha[y * width + k]);
+      tmp[y * width + x] = v;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let v = tmp[y * width + x];
+      for (let k = Math.max(0, y - r); k <= Math.min(height - 1, y + r); k++) v = pick(v, tmp[k * width + x]);
+      out[y * width + x] = v;
+    }
+  }
+  return out;
+};
+
+// Separable box blur, run twice to approximate a gaussian
+const boxBlur = (alpha: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const r = Math.round(radius);
+  if (r <= 0) return alpha;
+  let src = alpha;
+  for (let pass = 0; pass < 2; pass++) {
+    const tmp = new Float32Array(src.length);
+    const out = new Float32Array(src.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0, n = 0;
+        for (let k = Math.max(0, x - r); k <= Math.min(width - 1, x + r); k++) { sum += src[y * width + k]; n++; }
+        tmp[y * width + x] = sum / n;
+      }
+    }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0, n = 0;
+        for (let k = Math.max(0, y - r); k <= Math.min(height - 1, y + r); k++) { sum += tmp[k * width + x]; n++; }
+        out[y * width + x] = sum / n;
+      }
+    }
+    src = out;
+  }
+  return src;
+};
+
+export const refineAlpha = (alpha: Float32Array, width: number, height: number, settings: MatteSettings): Float32Array => {
+  return boxBlur(morph(alpha, width, height, settings.choke), width, height, settings.feather);
+};
+
+// Average color of fully transparent pixels, i.e. the background being removed
+export const estimateBackgroundColor = (src: PixelBuffer, alpha: Float32Array): RGB => {
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let p = 0; p < alpha.length; p++) {
+    if (alpha[p] > 0.05) continue;
+    const i = p * 4;
+    r += src.data[i]; g += src.data[i + 1]; b += src.data[i + 2]; n++;
+  }
+  return n ? [r / n, g / n, b / n] : [255, 255, 255];
+};
+
+export const applyAlpha = (src: PixelBuffer, alpha: Float32Array, background: RGB, decontaminate: boolean): PixelBuffer => {
+  const out = createPixelBuffer(src.width, src.height);
+  for (let p = 0; p < alpha.length; p++) {
+    const i = p * 4;
+    const a = alpha[p];
+    for (let c = 0; c < 3; c++) {
+      let v = src.data[i + c];
+      // observed = a * fg + (1 - a) * bg  =>  fg = (observed - (1 - a) * bg) / a
+      if (decontaminate && a > 0.02 && a < 0.98) {
+        v = (v - (1 - a) * background[c]) / a;
+      }
+      out.data[i + c] = v;
+    }
+    out.data[i + 3] = Math.round(a * 255);
+  }
+  return out;
+};
+
+const alphaToPixelBuffer = (alpha: Float32Array, width: number, height: number): PixelBuffer => {
+  const out = createPixelBuffer(width, height);
+  for (let p = 0; p < alpha.length; p++) {
+    const v = Math.round(alpha[p] * 255);
+    out.data[p * 4] = out.data[p * 4 + 1] = out.data[p * 4 + 2] = v;
+    out.data[p * 4 + 3] = 255;
+  }
+  return out;
+};
+
+// -- Pipeline --
+
+// `modelOutput` is either a cut-out on white ('whiteKey') or a B/W matte ('matte').
+export const createMatteState = async (
+  sourceUrl: string,
+  modelOutputUrl: string,
+  strategy: MatteStrategy,
+  settings: MatteSettings = DEFAULT_MATTE_SETTINGS
+): Promise<MatteState> => {
+  if (strategy === 'whiteKey') {
+    const cutout = await getImageData(modelOutputUrl);
+    const matte = alphaToPixelBuffer(alphaFromWhiteKey(cutout), cutout.width, cutout.height);
+    return { source: modelOutputUrl, matte: pixelBufferToDataUrl(matte), background: [255, 255, 255], settings };
+  }
+
+  const source = await getImageData(sourceUrl);
+  const matte = await getImageData(modelOutputUrl, source.width, source.height);
+  const alpha = alphaFromMatte(matte);
+  return {
+    source: sourceUrl,
+    matte: pixelBufferToDataUrl(matte),
+    background: estimateBackgroundColor(source, alpha),
+    settings,
+  };
+};
+
+// Renders the refined cut-out as a transparent PNG data URL
+export const renderMatte = async (state: MatteState): Promise<string> => {
+  const source = await getImageData(state.source);
+  const matte = await getImageData(state.matte, source.width, source.height);
+  const alpha = refineAlpha(alphaFromMatte(matte), source.width, source.height, state.settings);
+  return pixelBufferToDataUrl(applyAlpha(source, alpha, state.background, state.settings.decontaminate), 'image/png');
+};
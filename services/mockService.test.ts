@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { createPixelBuffer } from "./imageUtils";
+import { estimateBackgroundMask, pixelate, solidBuffer, toonify, upscale2x } from "./mockService";
+
+const pixel = (buffer: { width: number; data: Uint8ClampedArray }, x: number, y: number) => {
+  const i = (y * buffer.width + x) * 4;
+  return Array.from(buffer.data.slice(i, i + 4));
+};
+
+// 8x8 white square on a black 16x16 background
+const squareOnBlack = () => {
+  const buffer = solidBuffer(16, 16, [0, 0, 0]);
+  for (let y = 4; y < 12; y++) {
+    for (let x = 4; x < 12; x++) buffer.data.set([255, 255, 255, 255], (y * 16 + x) * 4);
+  }
+  return buffer;
+};
+
+describe('pixelate', () => {
+  it('fills each block with its quantized average color', () => {
+    const src = createPixelBuffer(4, 4);
+    src.data.fill(255);
+    src.data.set([0, 0, 0, 255], 0); // One dark pixel in the top-left 2x2 block
+    const out = pixelate(src, 2, 2);
+    expect(pixel(out, 0, 0)).toEqual(pixel(out, 1, 1));
+    expect(pixel(out, 3, 3)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('keeps the image size', () => {
+    const out = pixelate(solidBuffer(10, 6, [10, 20, 30]));
+    expect([out.width, out.height, out.data.length]).toEqual([10, 6, 10 * 6 * 4]);
+  });
+});
+
+describe('toonify', () => {
+  it('draws ink lines on strong edges only', () => {
+    const out = toonify(squareOnBlack());
+    expect(pixel(out, 4, 8).slice(0, 3)).toEqual([20, 20, 20]);
+    expect(pixel(out, 8, 8).slice(0, 3)).toEqual([255, 255, 255]);
+  });
+
+  it('is deterministic', () => {
+    expect(toonify(squareOnBlack()).data).toEqual(toonify(squareOnBlack()).data);
+  });
+});
+
+describe('estimateBackgroundMask', () => {
+  it('marks the border-connected region as background', () => {
+    const mask = estimateBackgroundMask(squareOnBlack());
+    expect(mask[0]).toBe(1);
+    expect(mask[8 * 16 + 8]).toBe(0);
+    expect(mask.reduce((sum, v) => sum + v, 0)).toBe(16 * 16 - 8 * 8);
+  });
+});
+
+describe('upscale2x', () => {
+  it('doubles both dimensions', () => {
+    const out = upscale2x(solidBuffer(5, 3, [100, 150, 200]));
+    expect([out.width, out.height]).toEqual([10, 6]);
+    expect(pixel(out, 4, 2)).toEqual([100, 150, 200, 255]);
+  });
+});
@@ -0,0 +1,353 @@
+import { EditMode, ImageEditProvider, ImageEditRequest, ImageEditResult } from "../types";
+import { getAIConfig, renderPrompt, resolveModeConfig } from "./aiConfig";
+import { wait } from "./aiErrors";
+import { PixelBuffer, createCanvas, createPixelBuffer, getImageData, loadImage, pixelBufferToDataUrl } from "./imageUtils";
+
+// Deterministic, offline stand-in for the AI backend. Every mode is approximated
+// with plain pixel math so the UI can be developed and exercised without a key.
+
+const MOCK_LATENCY_MS = 400;
+
+const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+const cloneBuffer = (src: PixelBuffer): PixelBuffer => ({
+  width: src.width,
+  height: src.height,
+  data: new Uint8ClampedArray(src.data),
+});
+
+// -- Pure transforms --
+
+export const pixelate = (src: PixelBuffer, targetColumns = 64, levels = 6): PixelBuffer => {
+  const out = createPixelBuffer(src.width, src.height);
+  const block = Math.max(1, Math.round(src.width / targetColumns));
+  const step = 255 / (levels - 1);
+
+  for (let by = 0; by < src.height; by += block) {
+    for (let bx = 0; bx < src.width; bx += block) {
+      let r = 0, g = 0, b = 0, a = 0, n = 0;
+      for (let y = by; y < Math.min(by + block, src.height); y++) {
+        for (let x = bx; x < Math.min(bx + block, src.width); x++) {
+          const i = (y * src.width + x) * 4;
+          r += src.data[i]; g += src.data[i + 1]; b += src.data[i + 2]; a += src.data[i + 3];
+          n++;
+        }
+      }
+      const pr = Math.round(r / n / step) * step;
+      const pg = Math.round(g / n / step) * step;
+      const pb = Math.round(b / n / step) * step;
+      for (let y = by; y < Math.min(by + block, src.height); y++) {
+        for (let x = bx; x < Math.min(bx + block, src.width); x++) {
+          const i = (y * src.width + x) * 4;
+          out.data[i] = pr; out.data[i + 1] = pg; out.data[i + 2] = pb; out.data[i + 3] = a / n;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+const luminance = (d: Uint8ClampedArray, i: number) => 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+
+export const toonify = (src: PixelBuffer, levels = 5, edgeThreshold = 60): PixelBuffer => {
+  const out = cloneBuffer(src);
+  const { width, height, data } = src;
+  const step = 255 / (levels - 1);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      // Posterize with a mild saturation boost
+      const l = luminance(data, i);
+      for (let c = 0; c < 3; c++) {
+        const boosted = clamp(l + (data[i + c] - l) * 1.3);
+        out.data[i + c] = Math.round(boosted / step) * step;
+      }
+      // Sobel edge detection for ink lines
+      if (x > 0 && y > 0 && x < width - 1 && y < height - 1) {
+        const at = (dx: number, dy: number) => luminance(data, ((y + dy) * width + (x + dx)) * 4);
+        const gx = -at(-1, -1) - 2 * at(-1, 0) - at(-1, 1) + at(1, -1) + 2 * at(1, 0) + at(1, 1);
+        const gy = -at(-1, -1) - 2 * at(0, -1) - at(1, -1) + at(-1, 1) + 2 * at(0, 1) + at(1, 1);
+        if (Math.sqrt(gx * gx + gy * gy) > edgeThreshold * 4) {
+          out.data[i] = out.data[i + 1] = out.data[i + 2] = 20;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+// Flood-fills from the border through pixels close to the average border color.
+// Returns a mask where 1 marks background.
+export const estimateBackgroundMask = (src: PixelBuffer, tolerance = 48): Uint8Array => {
+  const { width, height, data } = src;
+  const mask = new Uint8Array(width * height);
+
+  let r = 0, g = 0, b = 0, n = 0;
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    r += data[i]; g += data[i + 1]; b += data[i + 2]; n++;
+  };
+  for (let x = 0; x < width; x++) { sample(x, 0); sample(x, height - 1); }
+  for (let y = 0; y < height; y++) { sample(0, y); sample(width - 1, y); }
+  r /= n; g /= n; b /= n;
+
+  const isBg = (p: number) => {
+    const i = p * 4;
+    const dr = data[i] - r, dg = data[i + 1] - g, db = data[i + 2] - b;
+    return Math.sqrt(dr * dr + dg * dg + db * db) <= tolerance;
+  };
+
+  const stack: number[] = [];
+  const seed = (p: number) => {
+    if (!mask[p] && isBg(p)) { mask[p] = 1; stack.push(p); }
+  };
+  for (let x = 0; x < width; x++) { seed(x); seed((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { seed(y * width); seed(y * width + width - 1); }
+
+  while (stack.length) {
+    const p = stack.pop()!;
+    const x = p % width;
+    const y = (p - x) / width;
+    if (x > 0) seed(p - 1);
+    if (x < width - 1) seed(p + 1);
+    if (y > 0) seed(p - width);
+    if (y < height - 1) seed(p + width);
+  }
+  return mask;
+};
+
+// Replaces masked pixels with the matching pixel of `background` (same size).
+export const fillBackground = (src: PixelBuffer, mask: Uint8Array, background: PixelBuffer): PixelBuffer => {
+  const out = cloneBuffer(src);
+  for (let p = 0; p < mask.length; p++) {
+    if (!mask[p]) continue;
+    const i = p * 4;
+    out.data[i] = background.data[i];
+    out.data[i + 1] = background.data[i + 1];
+    out.data[i + 2] = background.data[i + 2];
+    out.data[i + 3] = 255;
+  }
+  return out;
+};
+
+export const solidBuffer = (width: number, height: number, rgb: [number, number, number]): PixelBuffer => {
+  const out = createPixelBuffer(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    out.data[i] = rgb[0]; out.data[i + 1] = rgb[1]; out.data[i + 2] = rgb[2]; out.data[i + 3] = 255;
+  }
+  return out;
+};
+
+export const upscale2x = (src: PixelBuffer): PixelBuffer => {
+  const out = createPixelBuffer(src.width * 2, src.height * 2);
+  const { width, height, data } = src;
+  // Bilinear upsample
+  for (let y = 0; y < out.height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, (y + 0.5) / 2 - 0.5));
+    const y0 = Math.floor(sy), y1 = Math.min(height - 1, y0 + 1), fy = sy - y0;
+    for (let x = 0; x < out.width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, (x + 0.5) / 2 - 0.5));
+      const x0 = Math.floor(sx), x1 = Math.min(width - 1, x0 + 1), fx = sx - x0;
+      const o = (y * out.width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const a = data[(y0 * width + x0) * 4 + c], b = data[(y0 * width + x1) * 4 + c];
+        const d = data[(y1 * width + x0) * 4 + c], e = data[(y1 * width + x1) * 4 + c];
+        out.data[o + c] = (a * (1 - fx) + b * fx) * (1 - fy) + (d * (1 - fx) + e * fx) * fy;
+      }
+    }
+  }
+  return sharpen(out, 0.6);
+};
+
+export const sharpen = (src: PixelBuffer, amount = 0.5): PixelBuffer => {
+  const out = cloneBuffer(src);
+  const { width, height, data } = src;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const blur = (data[i - 4 + c] + data[i + 4 + c] + data[i - width * 4 + c] + data[i + width * 4 + c]) / 4;
+        out.data[i + c] = clamp(data[i + c] + (data[i + c] - blur) * amount * 2);
+      }
+    }
+  }
+  return out;
+};
+
+export const hueRotate = (src: PixelBuffer, degrees: number): PixelBuffer => {
+  const out = cloneBuffer(src);
+  const rad = degrees * Math.PI / 180;
+  const cos = Math.cos(rad), sin = Math.sin(rad);
+  // Standard luminance-preserving hue rotation matrix (same as CSS hue-rotate)
+  const m = [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+  const d = src.data;
+  for (let i = 0; i < d.length; i += 4) {
+    const r = d[i], g = d[i + 1], b = d[i + 2];
+    out.data[i] = clamp(m[0] * r + m[1] * g + m[2] * b);
+    out.data[i + 1] = clamp(m[3] * r + m[4] * g + m[5] * b);
+    out.data[i + 2] = clamp(m[6] * r + m[7] * g + m[8] * b);
+  }
+  return out;
+};
+
+// Stable string hash so the same prompt always yields the same mock result
+const hashString = (value: string): number => {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+// Routes a free-text instruction to the closest built-in transform.
+const applyCustomPrompt = (src: PixelBuffer, prompt: string): PixelBuffer => {
+  const text = prompt.toLowerCase();
+  if (/pixel|8-?bit|retro/.test(text)) return pixelate(src);
+  if (/anime|cartoon|comic|manga/.test(text)) return toonify(src);
+  if (/sharp|enhance|upscale|detail/.test(text)) return sharpen(src, 0.8);
+  return hueRotate(src, hashString(text) % 360);
+};
+
+// -- Background helpers --
+
+const parseHexColors = (value: string): [number, number, number][] => {
+  const matches = value.match(/#[0-9a-f]{6}/gi) || [];
+  return matches.map((hex): [number, number, number] => [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16),
+  ]);
+};
+
+// Renders a swatch value (hex or 'linear-gradient(to top, a, b)') as a buffer.
+const renderBackground = (width: number, height: number, value: string): PixelBuffer => {
+  const colors = parseHexColors(value);
+  if (colors.length === 0) return solidBuffer(width, height, [255, 255, 255]);
+  if (colors.length === 1) return solidBuffer(width, height, colors[0]);
+
+  const [bottom, top] = colors;
+  const out = createPixelBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    const t = height > 1 ? y / (height - 1) : 0;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) out.data[i + c] = top[c] * (1 - t) + bottom[c] * t;
+      out.data[i + 3] = 255;
+    }
+  }
+  return out;
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+};
+
+// A described background becomes a vertical gradient picked from the text and seed
+const renderPromptBackground = (width: number, height: number, prompt: string, seed: number): PixelBuffer => {
+  const hue = (hashString(prompt.trim().toLowerCase()) + seed * 47) % 360;
+  const top = hslToRgb(hue, 0.45, 0.7);
+  const bottom = hslToRgb((hue + 30) % 360, 0.4, 0.3);
+  const toHex = (rgb: [number, number, number]) => `#${rgb.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+  return renderBackground(width, height, `linear-gradient(to top, ${toHex(bottom)}, ${toHex(top)})`);
+};
+
+const renderBackgroundImage = async (dataUrl: string, width: number, height: number): Promise<PixelBuffer> => {
+  const img = await loadImage(dataUrl);
+  const { ctx } = createCanvas(width, height);
+  // Cover-fit the background
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// -- Provider --
+
+const edit = async ({ image, mode, options, signal }: ImageEditRequest): Promise<ImageEditResult> => {
+  await wait(MOCK_LATENCY_MS, signal);
+  const src = await getImageData(image);
+
+  let result: PixelBuffer;
+  switch (mode) {
+    case EditMode.PIXEL_ART:
+      result = pixelate(src);
+      break;
+    case EditMode.ANIME:
+      result = toonify(src);
+      break;
+    case EditMode.REMOVE_BG:
+      result = fillBackground(src, estimateBackgroundMask(src), solidBuffer(src.width, src.height, [255, 255, 255]));
+      break;
+    case EditMode.MATTE: {
+      const mask = estimateBackgroundMask(src);
+      result = createPixelBuffer(src.width, src.height);
+      for (let p = 0; p < mask.length; p++) {
+        const v = mask[p] ? 0 : 255;
+        result.data[p * 4] = result.data[p * 4 + 1] = result.data[p * 4 + 2] = v;
+        result.data[p * 4 + 3] = 255;
+      }
+      break;
+    }
+    case EditMode.REPLACE_BG: {
+      const background = options.backgroundImage
+        ? await renderBackgroundImage(options.backgroundImage, src.width, src.height)
+        : options.backgroundPrompt?.trim()
+          ? renderPromptBackground(src.width, src.height, options.backgroundPrompt, options.seed ?? 0)
+          : renderBackground(src.width, src.height, options.backgroundColor || '#10b981');
+      result = fillBackground(src, estimateBackgroundMask(src), background);
+      break;
+    }
+    case EditMode.BACKGROUND:
+      if (!options.backgroundPrompt?.trim()) {
+        throw new Error("Describe the background you want first.");
+      }
+      result = renderPromptBackground(src.width, src.height, options.backgroundPrompt, options.seed ?? 0);
+      break;
+    case EditMode.ENHANCE:
+      result = upscale2x(src);
+      break;
+    case EditMode.CUSTOM:
+    case EditMode.INPAINT:
+      // Inpainting is applied to the whole frame; the caller composites it through the mask
+      if (!options.prompt?.trim()) {
+        throw new Error("Please enter an instruction for the custom edit.");
+      }
+      result = applyCustomPrompt(src, options.prompt);
+      break;
+    case EditMode.CUSTOM_MODE: {
+      // Configured modes are mimicked from their prompt, like custom edits
+      const settings = resolveModeConfig(getAIConfig(), mode, null, options.customModeId);
+      result = applyCustomPrompt(src, renderPrompt(settings.prompt, {
+        prompt: options.prompt,
+        backgroundPrompt: options.backgroundPrompt,
+        backgroundColor: options.backgroundColor,
+      }));
+      break;
+    }
+    default:
+      result = src;
+  }
+
+  // Nothing is billed offline
+  return {
+    image: pixelBufferToDataUrl(result),
+    usage: { model: 'mock', promptTokens: 0, outputTokens: 0, totalTokens: 0 },
+  };
+};
+
+export const mockProvider: ImageEditProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  requiresApiKey: false,
+  edit,
+};
@@ -0,0 +1,232 @@
+import { ArrowOverlay, ImageOverlay, OverlayLayer, ShapeOverlay, TextOverlay } from "../types";
+import { loadImage } from "./imageUtils";
+
+// Overlay layers (text, shapes, arrows, stickers) drawn on top of the rendered
+// image. The viewport preview and export both use drawOverlays.
+
+export const FONT_OPTIONS = [
+  { name: 'Sans', value: 'Helvetica, Arial, sans-serif' },
+  { name: 'Serif', value: 'Georgia, "Times New Roman", serif' },
+  { name: 'Mono', value: '"Courier New", monospace' },
+  { name: 'Impact', value: 'Impact, "Arial Black", sans-serif' },
+  { name: 'Script', value: '"Brush Script MT", cursive' },
+];
+
+const LINE_HEIGHT = 1.2;
+const ARROW_SHAFT = 0.35; // Shaft thickness relative to the head width
+
+const newOverlayId = () => Math.random().toString(36).substr(2, 9);
+
+const base = (x: number, y: number, width: number, height: number) => ({
+  id: newOverlayId(), x, y, width, height, rotation: 0, opacity: 1,
+});
+
+// -- Factories (sizes relative to the output frame) --
+
+export const createTextOverlay = (frameWidth: number, frameHeight: number): TextOverlay => fitTextBox({
+  ...base(0.5, 0.5, 0.5, 0.1),
+  kind: 'text',
+  text: 'Your text',
+  fontFamily: FONT_OPTIONS[0].value,
+  bold: true,
+  italic: false,
+  align: 'center',
+  color: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 0.08,
+  shadowColor: 'rgba(0, 0, 0, 0.6)',
+  shadowBlur: 0.15,
+}, frameWidth, frameHeight);
+
+export const createShapeOverlay = (shape: ShapeOverlay['shape'], frameWidth: number, frameHeight: number): ShapeOverlay => {
+  const side = 0.3 * Math.min(frameWidth, frameHeight);
+  return {
+    ...base(0.5, 0.5, side / frameWidth, side / frameHeight),
+    kind: 'shape',
+    shape,
+    fill: null,
+    stroke: '#facc15',
+    strokeWidth: 0.04,
+  };
+};
+
+export const createArrowOverlay = (frameWidth: number, frameHeight: number): ArrowOverlay => {
+  const length = 0.3 * Math.min(frameWidth, frameHeight);
+  return { ...base(0.5, 0.5, length / frameWidth, length * 0.2 / frameHeight), kind: 'arrow', color: '#ef4444' };
+};
+
+// Stickers start at a quarter of the frame width; watermarks sit bottom-right
+export const createImageOverlay = (
+  src: string,
+  name: string,
+  imageWidth: number,
+  imageHeight: number,
+  frameWidth: number,
+  frameHeight: number,
+  watermark = false
+): ImageOverlay => {
+  const width = watermark ? 0.18 : 0.25;
+  const height = width * frameWidth * imageHeight / imageWidth / frameHeight;
+  const margin = 0.03;
+  const x = watermark ? 1 - margin - width / 2 : 0.5;
+  const y = watermark ? 1 - margin * frameWidth / frameHeight - height / 2 : 0.5;
+  return { ...base(x, y, width, height), kind: 'image', src, name, opacity: watermark ? 0.7 : 1 };
+};
+
+// -- Text layout --
+
+const getFont = (layer: TextOverlay, fontSize: number) =>
+  `${layer.italic ? 'italic ' : ''}${layer.bold ? 'bold ' : ''}${fontSize}px ${layer.fontFamily}`;
+
+const getLines = (layer: TextOverlay) => layer.text.split('\n');
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// Keeps the height (font size) and sets the width to fit the longest line
+export const fitTextBox = (layer: TextOverlay, frameWidth: number, frameHeight: number): TextOverlay => {
+  measureCtx = measureCtx ?? document.createElement('canvas').getContext('2d')!;
+  const lines = getLines(layer);
+  const fontSize = layer.height * frameHeight / (lines.length * LINE_HEIGHT);
+  measureCtx.font = getFont(layer, fontSize);
+  const widest = Math.max(fontSize * 0.5, ...lines.map(line => measureCtx!.measureText(line).width));
+  // Leave room for the stroke on both sides
+  return { ...layer, width: (widest + fontSize * layer.strokeWidth) / frameWidth };
+};
+
+// -- Images --
+
+const images = new Map<string, Promise<HTMLImageElement>>();
+
+export const getOverlayImageUrls = (overlays: OverlayLayer[]): string[] =>
+  overlays.flatMap(layer => (layer.kind === 'image' ? [layer.src] : []));
+
+// Loads every sticker the overlays use; cached per URL
+export const loadOverlayImages = async (overlays: OverlayLayer[]): Promise<Map<string, HTMLImageElement>> => {
+  const loaded = new Map<string, HTMLImageElement>();
+  await Promise.all(getOverlayImageUrls(overlays).map(async src => {
+    if (!images.has(src)) {
+      const promise = loadImage(src);
+      promise.catch(() => images.delete(src));
+      images.set(src, promise);
+    }
+    loaded.set(src, await images.get(src)!);
+  }));
+  return loaded;
+};
+
+// -- Drawing --
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: TextOverlay, w: number, h: number) => {
+  const lines = getLines(layer);
+  const fontSize = h / (lines.length * LINE_HEIGHT);
+  ctx.font = getFont(layer, fontSize);
+  ctx.textAlign = layer.align;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  const x = layer.align === 'left' ? -w / 2 : layer.align === 'right' ? w / 2 : 0;
+  // Inset so the stroke stays inside the box
+  const inset = layer.align === 'center' ? 0 : (layer.align === 'left' ? 1 : -1) * fontSize * layer.strokeWidth / 2;
+
+  lines.forEach((line, i) => {
+    const y = -h / 2 + (i + 0.5) * fontSize * LINE_HEIGHT;
+    if (layer.shadowBlur > 0) {
+      ctx.save();
+      ctx.shadowColor = layer.shadowColor;
+      ctx.shadowBlur = layer.shadowBlur * fontSize;
+      ctx.shadowOffsetY = layer.shadowBlur * fontSize * 0.25;
+      ctx.fillStyle = layer.color;
+      ctx.fillText(line, x + inset, y);
+      ctx.restore();
+    }
+    if (layer.strokeWidth > 0) {
+      ctx.strokeStyle = layer.strokeColor;
+      ctx.lineWidth = layer.strokeWidth * fontSize;
+      ctx.strokeText(line, x + inset, y);
+    }
+    ctx.fillStyle = layer.color;
+    ctx.fillText(line, x + inset, y);
+  });
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, layer: ShapeOverlay, w: number, h: number) => {
+  const lineWidth = layer.strokeWidth * Math.min(w, h);
+  // Stroke inside the box so the handles match what's drawn
+  const iw = Math.max(0, w - lineWidth);
+  const ih = Math.max(0, h - lineWidth);
+  ctx.beginPath();
+  if (layer.shape === 'ellipse') ctx.ellipse(0, 0, iw / 2, ih / 2, 0, 0, Math.PI * 2);
+  else ctx.rect(-iw / 2, -ih / 2, iw, ih);
+  if (layer.fill) {
+    ctx.fillStyle = layer.fill;
+    ctx.fill();
+  }
+  if (lineWidth > 0) {
+    ctx.strokeStyle = layer.stroke;
+    ctx.lineWidth = lineWidth;
+    ctx.stroke();
+  }
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, layer: ArrowOverlay, w: number, h: number) => {
+  const head = Math.min(w, h * 1.2);
+  const shaft = h * ARROW_SHAFT;
+  ctx.fillStyle = layer.color;
+  ctx.beginPath();
+  ctx.moveTo(-w / 2, -shaft / 2);
+  ctx.lineTo(w / 2 - head, -shaft / 2);
+  ctx.lineTo(w / 2 - head, -h / 2);
+  ctx.lineTo(w / 2, 0);
+  ctx.lineTo(w / 2 - head, h / 2);
+  ctx.lineTo(w / 2 - head, shaft / 2);
+  ctx.lineTo(-w / 2, shaft / 2);
+  ctx.closePath();
+  ctx.fill();
+};
+
+// Draws overlays onto a canvas covering the output frame at `width` x `height`
+export const drawOverlays = (
+  ctx: CanvasRenderingContext2D,
+  overlays: OverlayLayer[],
+  width: number,
+  height: number,
+  loadedImages: Map<string, HTMLImageElement>
+) => {
+  overlays.forEach(layer => {
+    const w = layer.width * width;
+    const h = layer.height * height;
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.translate(layer.x * width, layer.y * height);
+    ctx.rotate(layer.rotation * Math.PI / 180);
+    if (layer.kind === 'text') drawText(ctx, layer, w, h);
+    if (layer.kind === 'shape') drawShape(ctx, layer, w, h);
+    if (layer.kind === 'arrow') drawArrow(ctx, layer, w, h);
+    if (layer.kind === 'image') {
+      const img = loadedImages.get(layer.src);
+      if (img) ctx.drawImage(img, -w / 2, -h / 2, w, h);
+    }
+    ctx.restore();
+  });
+};
+
+// -- Hit testing (in frame pixels, so rotation isn't skewed by the aspect) --
+
+export const hitTestOverlays = (overlays: OverlayLayer[], px: number, py: number, width: number, height: number): OverlayLayer | null => {
+  for (let i = overlays.length - 1; i >= 0; i--) {
+    const layer = overlays[i];
+    const angle = -layer.rotation * Math.PI / 180;
+    const dx = px - layer.x * width;
+    const dy = py - layer.y * height;
+    const lx = dx * Math.cos(angle) - dy * Math.sin(angle);
+    const ly = dx * Math.sin(angle) + dy * Math.cos(angle);
+    if (Math.abs(lx) <= layer.width * width / 2 && Math.abs(ly) <= layer.height * height / 2) return layer;
+  }
+  return null;
+};
+
+export const describeOverlay = (layer: OverlayLayer): string => {
+  if (layer.kind === 'text') return layer.text.split('\n')[0] || 'Text';
+  if (layer.kind === 'shape') return layer.shape === 'ellipse' ? 'Ellipse' : 'Rectangle';
+  if (layer.kind === 'arrow') return 'Arrow';
+  return layer.name;
+};
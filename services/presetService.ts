@@ -0,0 +1,110 @@
+import { Adjustments, FilterPreset, FilterType, ImageState } from "../types";
+import { getBlob, putBlob } from "./blobStore";
+import { normalizeAdjustments } from "./adjustments";
+import { parseCubeLut } from "./lutService";
+
+const STORAGE_KEY = 'gemini-lens:filter-presets';
+
+const newPresetId = () => Math.random().toString(36).substr(2, 9);
+
+// Bumped when the file layout changes; files from newer versions are rejected
+export const PRESET_FILE_VERSION = 1;
+
+interface PresetFile {
+  version: number;
+  presets: FilterPreset[];
+}
+
+export const loadPresets = (): FilterPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Throws when the browser's storage quota is exceeded (large LUTs)
+export const savePresets = (presets: FilterPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+// Imports a .cube file into the blob store so projects persist it like images
+export const importLutFile = async (file: File): Promise<{ name: string; src: string }> => {
+  const text = await file.text();
+  parseCubeLut(text); // Validate before storing
+  const src = await putBlob(new Blob([text], { type: 'text/plain' }));
+  return { name: file.name.replace(/\.cube$/i, ''), src };
+};
+
+// Snapshot of an image's look
+export const createPreset = async (name: string, image: ImageState): Promise<FilterPreset> => {
+  const { lut, ...adjustments } = image.adjustments;
+  let embedded: FilterPreset['lut'] = null;
+  if (lut) {
+    const blob = getBlob(lut.src);
+    if (!blob) throw new Error('The LUT file is no longer available.');
+    embedded = { name: lut.name, cube: await blob.text() };
+  }
+  return {
+    id: newPresetId(),
+    name,
+    createdAt: Date.now(),
+    filter: image.filter,
+    adjustments,
+    lut: embedded,
+  };
+};
+
+// The patch that applies a preset to an image
+export const resolvePreset = async (preset: FilterPreset): Promise<{ filter: FilterType; adjustments: Adjustments }> => {
+  const lut = preset.lut
+    ? { name: preset.lut.name, src: await putBlob(new Blob([preset.lut.cube], { type: 'text/plain' })) }
+    : null;
+  return { filter: preset.filter, adjustments: normalizeAdjustments({ ...preset.adjustments, lut }) };
+};
+
+export const exportPresets = (presets: FilterPreset[]): Blob => {
+  const file: PresetFile = { version: PRESET_FILE_VERSION, presets };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+const isFilterType = (value: unknown): value is FilterType => Object.values(FilterType).includes(value as FilterType);
+
+// Validates a shared preset file. Imported presets get fresh ids so they never
+// overwrite local ones.
+export const parsePresetFile = (text: string): FilterPreset[] => {
+  let file: Partial<PresetFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Preset file is not valid JSON.');
+  }
+  if (typeof file.version !== 'number' || !Array.isArray(file.presets)) {
+    throw new Error('Not a Gemini Lens preset file.');
+  }
+  if (file.version > PRESET_FILE_VERSION) {
+    throw new Error('This preset file was made by a newer version of Gemini Lens.');
+  }
+  return file.presets.map((preset, i) => {
+    if (!preset || typeof preset.name !== 'string' || !isFilterType(preset.filter)) {
+      throw new Error(`Preset ${i + 1} is invalid.`);
+    }
+    if (preset.lut) {
+      try {
+        parseCubeLut(preset.lut.cube);
+      } catch (e: any) {
+        throw new Error(`Preset "${preset.name}": ${e.message}`);
+      }
+    }
+    const { lut: _lut, ...adjustments } = normalizeAdjustments(preset.adjustments ?? {});
+    return {
+      id: newPresetId(),
+      name: preset.name,
+      createdAt: typeof preset.createdAt === 'number' ? preset.createdAt : Date.now(),
+      filter: preset.filter,
+      adjustments,
+      lut: preset.lut ? { name: String(preset.lut.name), cube: preset.lut.cube } : null,
+    };
+  });
+};
@@ -0,0 +1,217 @@
+import { ImageState, ProjectData, ProjectSummary } from "../types";
+import { dataUrlToBlob, getBlob, getBlobHash, hashBlob, putBlob } from "./blobStore";
+
+// Projects live in IndexedDB. Image payloads are pulled out of the state tree
+// into a content-addressed blob store, so history snapshots that share pixels
+// are stored once and project records stay small JSON documents. Loaded
+// images come back as object URLs from the in-memory blob store.
+
+const DB_NAME = 'gemini-lens';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const BLOBS = 'blobs';
+
+interface BlobRef {
+  $blob: string;
+}
+
+interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  activeImageId: string | null;
+  images: unknown[]; // ImageState with data URLs replaced by BlobRefs
+  cover: string | null; // Blob key of the first image's thumbnail
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Blob keys already written this session; autosaves only write new pixels
+const persisted = new Set<string>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BLOBS)) db.createObjectStore(BLOBS);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const txDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// -- State tree (de)serialization --
+
+const isBlobRef = (value: unknown): value is BlobRef => {
+  return typeof value === 'object' && value !== null && typeof (value as BlobRef).$blob === 'string';
+};
+
+const isImageUrl = (value: unknown): value is string => {
+  return typeof value === 'string' && (value.startsWith('data:') || value.startsWith('blob:'));
+};
+
+// Replaces every image URL in `value` with a BlobRef, collecting the blobs
+const extractBlobs = async (value: unknown, blobs: Map<string, Blob>): Promise<unknown> => {
+  if (isImageUrl(value)) {
+    const blob = value.startsWith('data:') ? dataUrlToBlob(value) : getBlob(value);
+    if (!blob) throw new Error('Image data is no longer available.');
+    const key = getBlobHash(value) ?? await hashBlob(blob);
+    blobs.set(key, blob);
+    return { $blob: key };
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(v => extractBlobs(v, blobs)));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = await extractBlobs(v, blobs);
+    return out;
+  }
+  return value;
+};
+
+const collectRefs = (value: unknown, refs: Set<string>) => {
+  if (isBlobRef(value)) refs.add(value.$blob);
+  else if (Array.isArray(value)) value.forEach(v => collectRefs(v, refs));
+  else if (typeof value === 'object' && value !== null) Object.values(value).forEach(v => collectRefs(v, refs));
+};
+
+const restoreBlobs = async (value: unknown, load: (key: string) => Promise<string>): Promise<unknown> => {
+  if (isBlobRef(value)) return load(value.$blob);
+  if (Array.isArray(value)) return Promise.all(value.map(v => restoreBlobs(v, load)));
+  if (typeof value === 'object' && value !== null) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = await restoreBlobs(v, load);
+    return out;
+  }
+  return value;
+};
+
+// -- Public API --
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readonly');
+  const records = await promisify(tx.objectStore(PROJECTS).getAll() as IDBRequest<ProjectRecord[]>);
+  const summaries = await Promise.all(records.map(async record => ({
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    imageCount: record.images.length,
+    cover: record.cover ? (await promisify(tx.objectStore(BLOBS).get(record.cover) as IDBRequest<Blob | undefined>)) ?? null : null,
+  })));
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = async (project: ProjectData): Promise<void> => {
+  // Hash and extract outside the transaction: IDB transactions auto-commit
+  // as soon as they are idle across an await.
+  const blobs = new Map<string, Blob>();
+  const images = await Promise.all(project.images.map(img => extractBlobs(img, blobs)));
+  const coverRef = images[0] ? (images[0] as { thumbnail: unknown }).thumbnail : null;
+
+  const record: ProjectRecord = {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: Date.now(),
+    activeImageId: project.activeImageId,
+    images,
+    cover: isBlobRef(coverRef) ? coverRef.$blob : null,
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  const blobStore = tx.objectStore(BLOBS);
+  blobs.forEach((blob, key) => {
+    if (!persisted.has(key)) blobStore.put(blob, key);
+  });
+  tx.objectStore(PROJECTS).put(record);
+  await txDone(tx);
+  blobs.forEach((_, key) => persisted.add(key));
+};
+
+export const loadProject = async (id: string): Promise<ProjectData | null> => {
+  const db = await openDb();
+  const record = await promisify(db.transaction(PROJECTS, 'readonly').objectStore(PROJECTS).get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (!record) return null;
+
+  const cache = new Map<string, Promise<string>>();
+  const load = (key: string) => {
+    if (!cache.has(key)) {
+      cache.set(key, (async () => {
+        const blob = await promisify(db.transaction(BLOBS, 'readonly').objectStore(BLOBS).get(key) as IDBRequest<Blob | undefined>);
+        if (!blob) throw new Error('Project data is incomplete: missing image blob.');
+        persisted.add(key);
+        return putBlob(blob, key);
+      })());
+    }
+    return cache.get(key)!;
+  };
+
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    activeImageId: record.activeImageId,
+    images: (await restoreBlobs(record.images, load)) as ImageState[],
+  };
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const record = await promisify(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+  if (record) store.put({ ...record, name });
+  await txDone(tx);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  await txDone(tx);
+  await collectGarbage();
+};
+
+// Deletes blobs no longer referenced by any project
+export const collectGarbage = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, BLOBS], 'readwrite');
+  const records = await promisify(tx.objectStore(PROJECTS).getAll() as IDBRequest<ProjectRecord[]>);
+  const refs = new Set<string>();
+  records.forEach(record => {
+    collectRefs(record.images, refs);
+    if (record.cover) refs.add(record.cover);
+  });
+  const keys = await promisify(tx.objectStore(BLOBS).getAllKeys());
+  keys.forEach(key => {
+    if (refs.has(key as string)) return;
+    tx.objectStore(BLOBS).delete(key);
+    persisted.delete(key as string);
+  });
+  await txDone(tx);
+};
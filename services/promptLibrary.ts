@@ -0,0 +1,39 @@
+import { SavedPrompt } from "../types";
+
+const STORAGE_KEY = 'gemini-lens:prompt-library';
+
+export const MAX_RECENT_PROMPTS = 10;
+
+export const loadPromptLibrary = (): SavedPrompt[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePromptLibrary = (prompts: SavedPrompt[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prompts));
+};
+
+// "portrait, Studio  ,portrait" -> ['portrait', 'studio']
+export const parseTags = (input: string): string[] => {
+  const tags = input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+};
+
+// Moves `prompt` to the front of the recent list, dropping duplicates and overflow
+export const addRecentPrompt = (recent: string[], prompt: string): string[] => {
+  return [prompt, ...recent.filter(p => p !== prompt)].slice(0, MAX_RECENT_PROMPTS);
+};
+
+export const filterPrompts = (prompts: SavedPrompt[], query: string): SavedPrompt[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return prompts;
+  return prompts.filter(p =>
+    p.name.toLowerCase().includes(q) ||
+    p.prompt.toLowerCase().includes(q) ||
+    p.tags.some(t => t.includes(q))
+  );
+};
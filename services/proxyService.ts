@@ -0,0 +1,41 @@
+import { AIErrorKind, ImageEditProvider, ImageEditRequest, ImageEditResult } from "../types";
+import { AIEditError, toAIEditError } from "./aiErrors";
+import { getConnectionSettings, proxyEndpoint } from "./connectionSettings";
+
+// Sends edits to the Lens proxy's /edit endpoint (see server/). Prompts and
+// models come from the server's AI configuration, and results are cached there.
+
+const ERROR_KINDS: AIErrorKind[] = ['cancelled', 'timeout', 'safety', 'quota', 'auth', 'no-image', 'network', 'server', 'unknown'];
+
+// The server reports the AIEditError it hit; keep its kind so the UI reacts the same way
+const readProxyError = (status: number, body: any): AIEditError => {
+  const error = body?.error;
+  const message = typeof error?.message === 'string' ? error.message : `The proxy responded with ${status}.`;
+  if (ERROR_KINDS.includes(error?.status)) {
+    return new AIEditError(error.status, message, { status, detail: typeof error.detail === 'string' ? error.detail : null });
+  }
+  return toAIEditError(Object.assign(new Error(message), { status }));
+};
+
+const edit = async ({ signal, ...request }: ImageEditRequest): Promise<ImageEditResult> => {
+  const { proxyUrl } = getConnectionSettings();
+  if (!proxyUrl) {
+    throw new AIEditError('auth', 'No proxy server is set. Add one under AI settings → Connection.');
+  }
+  const res = await fetch(proxyEndpoint(proxyUrl, 'edit'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw readProxyError(res.status, body);
+  return body as ImageEditResult;
+};
+
+export const proxyProvider: ImageEditProvider = {
+  id: 'proxy',
+  name: 'Lens Proxy',
+  requiresApiKey: false,
+  edit,
+};
@@ -0,0 +1,102 @@
+import { Adjustments, FilterType, ImageState } from "../types";
+import { createCanvas, hasTransparency, loadImage } from "./imageUtils";
+import { drawTransformed, getOutputSize } from "./cropService";
+import { applyAdjustments, getToneParams, isNeutral, normalizeAdjustments } from "./adjustments";
+import { renderWithWebGL } from "./webglEngine";
+import { Lut3D, loadLut } from "./lutService";
+import { drawOverlays, loadOverlayImages } from "./overlayService";
+
+// The software path is far slower, so its previews are kept smaller
+export const PREVIEW_MAX_SIZE_GL = 4096;
+export const PREVIEW_MAX_SIZE_SOFTWARE = 1024;
+
+// Applies adjustments and the filter preset to an unrotated source image. The
+// preview and the export both go through here so they match. `lut` is the
+// loaded table for adjustments.lut, if any.
+export const renderAdjusted = (
+  source: HTMLImageElement | HTMLCanvasElement,
+  adjustments: Adjustments,
+  filter: FilterType,
+  lut: Lut3D | null,
+  maxSize = Infinity
+): HTMLCanvasElement => {
+  const sourceWidth = source.width;
+  const sourceHeight = source.height;
+  const scale = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const adj = normalizeAdjustments(adjustments);
+  if (isNeutral(adj, filter)) return canvas;
+
+  const params = getToneParams(adj, filter, sourceWidth, sourceHeight, scale, adj.lut ? lut : null);
+  const gpu = renderWithWebGL(canvas, params);
+  if (gpu) return gpu;
+
+  const result = applyAdjustments(ctx.getImageData(0, 0, width, height), params);
+  ctx.putImageData(new ImageData(result.data, width, height), 0, 0);
+  return canvas;
+};
+
+export interface RenderedImage {
+  canvas: HTMLCanvasElement;
+  hasAlpha: boolean;
+}
+
+// Renders an image's current state (AI result + crop + filters + adjustments,
+// with overlays flattened on top) at full resolution. Works for any image, not
+// just the one in the viewport.
+export const renderImage = async (image: ImageState, target?: HTMLCanvasElement): Promise<RenderedImage> => {
+  const img = await loadImage(image.current!);
+  const lut = image.adjustments.lut ? await loadLut(image.adjustments.lut.src) : null;
+  const overlayImages = await loadOverlayImages(image.overlays);
+  const canvas = drawImageState(img, lut, overlayImages, image, 1, target);
+  const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+  return { canvas, hasAlpha: hasTransparency(pixels) };
+};
+
+// Same as renderImage, downscaled so the output's long edge fits `maxSize`.
+// Used for analysis (histogram) where full resolution would be wasted.
+export const renderPreview = async (image: ImageState, maxSize: number): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(image.current!);
+  const lut = image.adjustments.lut ? await loadLut(image.adjustments.lut.src) : null;
+  const overlayImages = await loadOverlayImages(image.overlays);
+  const output = getOutputSize(img.width, img.height, image.crop);
+  return drawImageState(img, lut, overlayImages, image, Math.min(1, maxSize / Math.max(output.width, output.height)));
+};
+
+const drawImageState = (
+  img: HTMLImageElement,
+  lut: Lut3D | null,
+  overlayImages: Map<string, HTMLImageElement>,
+  image: ImageState,
+  scale: number,
+  target?: HTMLCanvasElement
+) => {
+  const adjusted = renderAdjusted(img, image.adjustments, image.filter, lut, Math.max(img.width, img.height) * scale);
+
+  // Output size follows the crop rect within the rotated frame
+  const output = getOutputSize(img.width, img.height, image.crop);
+  const width = Math.max(1, Math.round(output.width * scale));
+  const height = Math.max(1, Math.round(output.height * scale));
+  let canvas: HTMLCanvasElement;
+  let ctx: CanvasRenderingContext2D;
+  if (target) {
+    canvas = target;
+    canvas.width = width;
+    canvas.height = height;
+    ctx = canvas.getContext('2d')!;
+  } else {
+    ({ canvas, ctx } = createCanvas(width, height));
+  }
+
+  // Draw rotated, flipped and straightened with the crop rect at the origin
+  ctx.scale(scale, scale);
+  drawTransformed(ctx, adjusted, img.width, img.height, image.crop);
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  drawOverlays(ctx, image.overlays, width, height, overlayImages);
+  return canvas;
+};
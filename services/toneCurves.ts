@@ -0,0 +1,109 @@
+import { ChannelCurves, ChannelLevels, CurvePoint, LevelsSettings, ToneChannel } from "../types";
+
+// Curves and Levels are baked into one 256-entry lookup table per channel.
+// Per-channel settings apply first, then the master (RGB) ones.
+
+export const TONE_CHANNELS: ToneChannel[] = ['rgb', 'r', 'g', 'b'];
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_LEVELS: LevelsSettings = { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+
+export const DEFAULT_CURVES: ChannelCurves = { rgb: IDENTITY_CURVE, r: IDENTITY_CURVE, g: IDENTITY_CURVE, b: IDENTITY_CURVE };
+
+export const DEFAULT_CHANNEL_LEVELS: ChannelLevels = { rgb: DEFAULT_LEVELS, r: DEFAULT_LEVELS, g: DEFAULT_LEVELS, b: DEFAULT_LEVELS };
+
+// Points on the diagonal spanning both ends interpolate to a straight line
+export const isIdentityCurve = (points: CurvePoint[]) =>
+  points.every(p => p.x === p.y) && points.some(p => p.x === 0) && points.some(p => p.x === 255);
+
+export const isDefaultLevels = (levels: LevelsSettings) =>
+  (Object.keys(DEFAULT_LEVELS) as (keyof LevelsSettings)[]).every(key => levels[key] === DEFAULT_LEVELS[key]);
+
+export const isIdentityTone = (curves: ChannelCurves, levels: ChannelLevels) =>
+  TONE_CHANNELS.every(c => isIdentityCurve(curves[c]) && isDefaultLevels(levels[c]));
+
+// Monotone cubic (Fritsch–Carlson) through the points, so the curve never
+// overshoots between handles. Returns a function on 0-255.
+export const createCurveSampler = (points: CurvePoint[]): ((x: number) => number) => {
+  const sorted = [...points].sort((a, b) => a.x - b.x).filter((p, i, arr) => i === 0 || p.x !== arr[i - 1].x);
+  const n = sorted.length;
+  if (n === 0) return x => x;
+  if (n === 1) return () => sorted[0].y;
+
+  const secants: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    secants.push((sorted[i + 1].y - sorted[i].y) / (sorted[i + 1].x - sorted[i].x));
+  }
+  const tangents = sorted.map((_, i) => {
+    if (i === 0) return secants[0];
+    if (i === n - 1) return secants[n - 2];
+    return secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (secants[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / secants[i];
+    const b = tangents[i + 1] / secants[i];
+    const s = a * a + b * b;
+    if (s > 9) {
+      const t = 3 / Math.sqrt(s);
+      tangents[i] = t * a * secants[i];
+      tangents[i + 1] = t * b * secants[i];
+    }
+  }
+
+  return (x: number) => {
+    if (x <= sorted[0].x) return sorted[0].y;
+    if (x >= sorted[n - 1].x) return sorted[n - 1].y;
+    let i = 0;
+    while (x > sorted[i + 1].x) i++;
+    const p0 = sorted[i];
+    const p1 = sorted[i + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * p0.y
+      + (t3 - 2 * t2 + t) * h * tangents[i]
+      + (-2 * t3 + 3 * t2) * p1.y
+      + (t3 - t2) * h * tangents[i + 1];
+  };
+};
+
+// 0-255 in, 0-255 out
+export const applyLevels = (v: number, levels: LevelsSettings) => {
+  const range = Math.max(1, levels.inputWhite - levels.inputBlack);
+  const normalized = Math.min(1, Math.max(0, (v - levels.inputBlack) / range));
+  return levels.outputBlack + (levels.outputWhite - levels.outputBlack) * Math.pow(normalized, 1 / levels.gamma);
+};
+
+// RGBA table, 256 entries (alpha unused), or null when it would be a no-op
+export const buildToneLut = (curves: ChannelCurves, levels: ChannelLevels): Uint8Array | null => {
+  if (isIdentityTone(curves, levels)) return null;
+  const master = createCurveSampler(curves.rgb);
+  const channels = (['r', 'g', 'b'] as const).map(c => createCurveSampler(curves[c]));
+  const lut = new Uint8Array(256 * 4);
+  for (let i = 0; i < 256; i++) {
+    (['r', 'g', 'b'] as const).forEach((c, k) => {
+      const leveled = applyLevels(applyLevels(i, levels[c]), levels.rgb);
+      const curved = master(channels[k](leveled));
+      lut[i * 4 + k] = Math.round(Math.min(255, Math.max(0, curved)));
+    });
+    lut[i * 4 + 3] = 255;
+  }
+  return lut;
+};
+
+// Linear interpolation between table entries; the shader gets the same from
+// LINEAR texture filtering. `v` and the result are 0-1.
+export const sampleToneLut = (lut: Uint8Array, v: number, channel: number) => {
+  const pos = Math.min(1, Math.max(0, v)) * 255;
+  const i = Math.floor(pos);
+  const j = Math.min(255, i + 1);
+  const f = pos - i;
+  return (lut[i * 4 + channel] * (1 - f) + lut[j * 4 + channel] * f) / 255;
+};
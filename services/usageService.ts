@@ -0,0 +1,162 @@
+import { AIErrorKind, EditMode, TokenUsage, UsageLogEntry } from "../types";
+
+// Token usage and estimated spend for AI requests. Prices are list prices in
+// USD per million tokens and only meant as a guide.
+
+interface ModelPricing {
+  input: number;
+  output: number; // Image output tokens
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120 },
+  mock: { input: 0, output: 0 },
+};
+
+export interface UsageSummary {
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null; // null when no request used a priced model
+}
+
+// null for models without a known price
+export const estimateCost = (usage: TokenUsage): number | null => {
+  const pricing = MODEL_PRICING[usage.model];
+  if (!pricing) return null;
+  return (usage.promptTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+};
+
+// Requests without reported usage are counted but add no tokens
+export const summarizeUsage = (usages: (TokenUsage | null)[]): UsageSummary => {
+  const summary: UsageSummary = { requests: usages.length, promptTokens: 0, outputTokens: 0, totalTokens: 0, cost: null };
+  usages.forEach(usage => {
+    if (!usage) return;
+    summary.promptTokens += usage.promptTokens;
+    summary.outputTokens += usage.outputTokens;
+    summary.totalTokens += usage.totalTokens;
+    const cost = estimateCost(usage);
+    if (cost !== null) summary.cost = (summary.cost ?? 0) + cost;
+  });
+  return summary;
+};
+
+// Adds up the requests behind one result (e.g. tiles); the first model names it
+export const combineUsage = (usages: (TokenUsage | null)[]): TokenUsage | null => {
+  const reported = usages.filter((usage): usage is TokenUsage => usage !== null);
+  if (reported.length === 0) return null;
+  return reported.reduce((sum, usage) => ({
+    model: sum.model,
+    promptTokens: sum.promptTokens + usage.promptTokens,
+    outputTokens: sum.outputTokens + usage.outputTokens,
+    totalTokens: sum.totalTokens + usage.totalTokens,
+  }));
+};
+
+export const formatCost = (cost: number | null): string => {
+  if (cost === null) return 'cost unknown';
+  return cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+};
+
+export const formatUsage = (summary: UsageSummary): string =>
+  `${summary.totalTokens.toLocaleString()} tokens · ${formatCost(summary.cost)}`;
+
+// -- Usage log --
+// Every AI request is logged with its estimated cost, tagged with the open
+// project. Kept in localStorage across sessions, newest first.
+
+const STORAGE_KEY = 'gemini-lens:usage-log';
+const MAX_LOG_ENTRIES = 1000;
+
+export type UsageScope = 'session' | 'project' | 'all';
+
+const SESSION_START = Date.now();
+
+const loadUsageLog = (): UsageLogEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+let usageLog = loadUsageLog();
+let usageProjectId: string | null = null;
+const listeners = new Set<(log: UsageLogEntry[]) => void>();
+
+const setUsageLog = (next: UsageLogEntry[]) => {
+  usageLog = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // The log is a convenience; a full storage quota shouldn't fail the edit
+  }
+  listeners.forEach(listener => listener(next));
+};
+
+// Requests from now on are attributed to this project
+export const setUsageProject = (projectId: string | null) => {
+  usageProjectId = projectId;
+};
+
+export const recordUsage = (mode: EditMode, usage: TokenUsage | null, error: AIErrorKind | null = null) => {
+  const entry: UsageLogEntry = {
+    id: Math.random().toString(36).substr(2, 9),
+    timestamp: Date.now(),
+    projectId: usageProjectId,
+    mode,
+    usage,
+    cost: usage ? estimateCost(usage) : null,
+    error,
+  };
+  setUsageLog([entry, ...usageLog].slice(0, MAX_LOG_ENTRIES));
+};
+
+export const getUsageLog = (): UsageLogEntry[] => usageLog;
+
+export const clearUsageLog = () => setUsageLog([]);
+
+// Returns an unsubscribe function
+export const subscribeUsageLog = (listener: (log: UsageLogEntry[]) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const filterUsageLog = (log: UsageLogEntry[], scope: UsageScope, projectId: string | null): UsageLogEntry[] => {
+  if (scope === 'session') return log.filter(entry => entry.timestamp >= SESSION_START);
+  if (scope === 'project') return log.filter(entry => entry.projectId !== null && entry.projectId === projectId);
+  return log;
+};
+
+// Costs are the estimates stored at the time, not today's prices
+export const summarizeUsageLog = (log: UsageLogEntry[]): UsageSummary => {
+  const summary = summarizeUsage(log.map(entry => entry.usage));
+  const priced = log.filter(entry => entry.cost !== null);
+  return { ...summary, cost: priced.length > 0 ? priced.reduce((sum, entry) => sum + entry.cost!, 0) : null };
+};
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportUsageLog = (log: UsageLogEntry[]): Blob => {
+  const header = ['time', 'project', 'mode', 'model', 'prompt_tokens', 'output_tokens', 'total_tokens', 'cost_usd', 'error'];
+  const rows = log.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    entry.projectId,
+    entry.mode,
+    entry.usage?.model ?? null,
+    entry.usage?.promptTokens ?? null,
+    entry.usage?.outputTokens ?? null,
+    entry.usage?.totalTokens ?? null,
+    entry.cost,
+    entry.error,
+  ].map(csvField).join(','));
+  return new Blob([[header.join(','), ...rows].join('\n')], { type: 'text/csv' });
+};
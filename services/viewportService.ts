@@ -0,0 +1,56 @@
+// Zoom/pan state for the viewport. Content is centered in its container, then
+// translated by (x, y) screen pixels and scaled by `zoom` around its center.
+export interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 32;
+
+export const IDENTITY_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Zooms so the content point under (px, py) stays put. Coordinates are relative
+// to the container center.
+export const zoomAround = (view: ViewTransform, zoom: number, px: number, py: number): ViewTransform => {
+  const next = clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+  const cx = (px - view.x) / view.zoom;
+  const cy = (py - view.y) / view.zoom;
+  return { zoom: next, x: px - cx * next, y: py - cy * next };
+};
+
+export const getViewTransformCss = (view: ViewTransform) => `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`;
+
+// Measured sizes, in untransformed CSS pixels
+export interface ViewportLayout {
+  containerWidth: number;
+  containerHeight: number;
+  contentWidth: number;  // Content size at zoom 1 ("fit")
+  contentHeight: number;
+}
+
+// Zoom at which one image pixel covers `scale` screen pixels
+export const zoomForPixelScale = (scale: number, layout: ViewportLayout, naturalWidth: number): number => {
+  return layout.contentWidth > 0 ? scale * naturalWidth / layout.contentWidth : 1;
+};
+
+// Part of the content currently on screen, in normalized content coordinates
+export const getVisibleRect = (view: ViewTransform, layout: ViewportLayout) => {
+  const { containerWidth: cw, containerHeight: ch, contentWidth: w, contentHeight: h } = layout;
+  if (w <= 0 || h <= 0) return { x: 0, y: 0, width: 1, height: 1 };
+  const left = clamp(((-cw / 2 - view.x) / view.zoom + w / 2) / w, 0, 1);
+  const right = clamp(((cw / 2 - view.x) / view.zoom + w / 2) / w, 0, 1);
+  const top = clamp(((-ch / 2 - view.y) / view.zoom + h / 2) / h, 0, 1);
+  const bottom = clamp(((ch / 2 - view.y) / view.zoom + h / 2) / h, 0, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Pans so the normalized content point (nx, ny) sits in the middle of the container
+export const centerOn = (view: ViewTransform, layout: ViewportLayout, nx: number, ny: number): ViewTransform => ({
+  ...view,
+  x: -(nx - 0.5) * layout.contentWidth * view.zoom,
+  y: -(ny - 0.5) * layout.contentHeight * view.zoom,
+});
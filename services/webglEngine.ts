@@ -0,0 +1,343 @@
+import { ToneParams, MAX_BLUR_RADIUS, getBlurRadius } from "./adjustments";
+import { packLutTexture } from "./lutService";
+
+// GPU implementation of the pipeline in adjustments.ts. One offscreen context is
+// shared by the preview and export; callers fall back to software on null.
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const BLUR_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform vec2 u_texel;
+uniform vec2 u_direction;
+uniform float u_sigma;
+uniform float u_radius;
+varying vec2 v_uv;
+void main() {
+  vec4 sum = vec4(0.0);
+  float total = 0.0;
+  for (int i = -${MAX_BLUR_RADIUS}; i <= ${MAX_BLUR_RADIUS}; i++) {
+    float f = float(i);
+    if (abs(f) > u_radius) continue;
+    float w = exp(-(f * f) / (2.0 * u_sigma * u_sigma));
+    sum += texture2D(u_image, v_uv + u_direction * u_texel * f) * w;
+    total += w;
+  }
+  gl_FragColor = sum / total;
+}`;
+
+const TONE_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform vec2 u_size;
+uniform float u_sharpen;
+uniform float u_clarity;
+uniform float u_clarityRadius;
+uniform float u_gain;
+uniform float u_contrast;
+uniform float u_blackPoint;
+uniform float u_whitePoint;
+uniform float u_shadows;
+uniform float u_highlights;
+uniform float u_temperature;
+uniform float u_tint;
+uniform float u_saturation;
+uniform float u_vibrance;
+uniform mat3 u_colorMatrix;
+uniform float u_postContrast;
+uniform float u_postBrightness;
+uniform sampler2D u_lut;
+uniform float u_useLut;
+uniform float u_lutSize;
+uniform vec3 u_lutMin;
+uniform vec3 u_lutMax;
+uniform sampler2D u_toneLut;
+uniform float u_useToneLut;
+uniform float u_vignette;
+uniform float u_grain;
+uniform float u_scale;
+varying vec2 v_uv;
+
+const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+
+vec4 at(vec2 offset) {
+  return texture2D(u_image, v_uv + offset / u_size);
+}
+
+float grainNoise(vec2 p) {
+  return fract(sin(p.x * 12.9898 + p.y * 78.233) * 43758.5453) - 0.5;
+}
+
+// Trilinear lookup in the packed table (see packLutTexture): bilinear within
+// the two nearest blue slices, then mixed between them
+vec3 sampleLut(vec3 c) {
+  float n = u_lutSize;
+  vec3 f = clamp((c - u_lutMin) / (u_lutMax - u_lutMin), 0.0, 1.0) * (n - 1.0);
+  float b0 = floor(f.b);
+  float b1 = min(b0 + 1.0, n - 1.0);
+  float y = (f.g + 0.5) / n;
+  vec3 c0 = texture2D(u_lut, vec2((b0 * n + f.r + 0.5) / (n * n), y)).rgb;
+  vec3 c1 = texture2D(u_lut, vec2((b1 * n + f.r + 0.5) / (n * n), y)).rgb;
+  return mix(c0, c1, f.b - b0);
+}
+
+void main() {
+  vec4 src = at(vec2(0.0));
+  vec3 c = src.rgb;
+
+  if (u_sharpen > 0.0) {
+    vec3 neighbours = (at(vec2(-1.0, 0.0)).rgb + at(vec2(1.0, 0.0)).rgb + at(vec2(0.0, -1.0)).rgb + at(vec2(0.0, 1.0)).rgb) / 4.0;
+    c += (c - neighbours) * u_sharpen;
+  }
+
+  if (u_clarity != 0.0) {
+    float local = 0.0;
+    for (int k = 0; k < 8; k++) {
+      float angle = float(k) * 0.78539816;
+      vec2 d = vec2(cos(angle), sin(angle)) * u_clarityRadius;
+      local += dot(at(d).rgb, LUMA) + dot(at(d * 0.5).rgb, LUMA);
+    }
+    local /= 16.0;
+    float l = dot(c, LUMA);
+    float midtones = max(0.0, 1.0 - (2.0 * l - 1.0) * (2.0 * l - 1.0));
+    c += (l - local) * u_clarity * midtones;
+  }
+
+  c *= u_gain;
+  c = (c - 0.5) * u_contrast + 0.5;
+  c = (c - u_blackPoint) / (u_whitePoint - u_blackPoint);
+
+  float l = clamp(dot(c, LUMA), 0.0, 1.0);
+  c += u_shadows * (1.0 - l) * (1.0 - l) + u_highlights * l * l;
+
+  c += vec3(u_temperature + u_tint * 0.5, -u_tint, -u_temperature + u_tint * 0.5);
+
+  l = dot(c, LUMA);
+  c = l + (c - l) * u_saturation;
+  float sat = clamp(max(c.r, max(c.g, c.b)) - min(c.r, min(c.g, c.b)), 0.0, 1.0);
+  c = l + (c - l) * (1.0 + u_vibrance * (1.0 - sat));
+
+  c = ((u_colorMatrix * c) - 0.5) * u_postContrast + 0.5;
+  c *= u_postBrightness;
+
+  if (u_useLut > 0.5) {
+    c = sampleLut(c);
+  }
+
+  if (u_useToneLut > 0.5) {
+    vec3 pos = (clamp(c, 0.0, 1.0) * 255.0 + 0.5) / 256.0;
+    c = vec3(texture2D(u_toneLut, vec2(pos.r, 0.5)).r, texture2D(u_toneLut, vec2(pos.g, 0.5)).g, texture2D(u_toneLut, vec2(pos.b, 0.5)).b);
+  }
+
+  // Image-space pixel position (the texture is stored bottom-up)
+  vec2 pixel = vec2(gl_FragCoord.x - 0.5, u_size.y - gl_FragCoord.y - 0.5);
+
+  if (u_vignette != 0.0) {
+    vec2 uv = (pixel + 0.5) / u_size - 0.5;
+    c *= 1.0 - u_vignette * smoothstep(0.25, 1.0, length(uv) * 1.41421356);
+  }
+
+  if (u_grain > 0.0) {
+    c += grainNoise(floor((pixel + 0.5) / u_scale)) * u_grain;
+  }
+
+  gl_FragColor = vec4(clamp(c, 0.0, 1.0), src.a);
+}`;
+
+interface Engine {
+  gl: WebGLRenderingContext;
+  canvas: HTMLCanvasElement;
+  blur: WebGLProgram;
+  tone: WebGLProgram;
+  quad: WebGLBuffer;
+  maxSize: number;
+}
+
+let engine: Engine | null | undefined;
+
+const compile = (gl: WebGLRenderingContext, vertex: string, fragment: string): WebGLProgram => {
+  const program = gl.createProgram()!;
+  for (const [type, source] of [[gl.VERTEX_SHADER, vertex], [gl.FRAGMENT_SHADER, fragment]] as [number, string][]) {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(gl.getShaderInfoLog(shader) || 'Shader compile failed');
+    }
+    gl.attachShader(program, shader);
+  }
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) || 'Program link failed');
+  }
+  return program;
+};
+
+const getEngine = (): Engine | null => {
+  if (engine !== undefined) return engine;
+  engine = null;
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl', { premultipliedAlpha: false, preserveDrawingBuffer: true, antialias: false });
+    if (!gl) return null;
+    const quad = gl.createBuffer()!;
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    engine = {
+      gl,
+      canvas,
+      blur: compile(gl, VERTEX_SHADER, BLUR_SHADER),
+      tone: compile(gl, VERTEX_SHADER, TONE_SHADER),
+      quad,
+      maxSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
+    };
+    canvas.addEventListener('webglcontextlost', () => { engine = undefined; });
+  } catch (e) {
+    console.warn('WebGL adjustments unavailable, using software rendering', e);
+    engine = null;
+  }
+  return engine;
+};
+
+export const isWebGLAvailable = () => getEngine() !== null;
+
+export const getMaxTextureSize = () => getEngine()?.maxSize ?? 0;
+
+const createTexture = (gl: WebGLRenderingContext, width: number, height: number, source?: TexImageSource | Uint8Array, filter: number = gl.NEAREST) => {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  if (source instanceof Uint8Array) {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  } else if (source) {
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+  }
+  return texture;
+};
+
+const draw = (e: Engine, program: WebGLProgram, input: WebGLTexture, output: WebGLFramebuffer | null, setUniforms: (loc: (name: string) => WebGLUniformLocation | null) => void) => {
+  const { gl } = e;
+  gl.useProgram(program);
+  gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+  gl.bindBuffer(gl.ARRAY_BUFFER, e.quad);
+  const position = gl.getAttribLocation(program, 'a_position');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, input);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_image'), 0);
+  setUniforms(name => gl.getUniformLocation(program, name));
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+};
+
+// Renders `source` through the pipeline into a new 2D canvas of the same size
+export const renderWithWebGL = (source: HTMLCanvasElement, params: ToneParams): HTMLCanvasElement | null => {
+  const e = getEngine();
+  const { width, height } = source;
+  if (!e || width > e.maxSize || height > e.maxSize) return null;
+  if (params.lut && params.lut.size * params.lut.size > e.maxSize) return null;
+  const { gl, canvas } = e;
+  const textures: WebGLTexture[] = [];
+  const framebuffers: WebGLFramebuffer[] = [];
+
+  try {
+    canvas.width = width;
+    canvas.height = height;
+    gl.viewport(0, 0, width, height);
+
+    let input = createTexture(gl, width, height, source);
+    textures.push(input);
+
+    // Separable blur, ping-ponging through offscreen targets
+    const radius = getBlurRadius(params.blurSigma);
+    if (params.blurSigma >= 0.3 && radius >= 1) {
+      for (const direction of [[1, 0], [0, 1]]) {
+        const target = createTexture(gl, width, height);
+        const fbo = gl.createFramebuffer()!;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target, 0);
+        textures.push(target);
+        framebuffers.push(fbo);
+        draw(e, e.blur, input, fbo, loc => {
+          gl.uniform2f(loc('u_texel'), 1 / width, 1 / height);
+          gl.uniform2f(loc('u_direction'), direction[0], direction[1]);
+          gl.uniform1f(loc('u_sigma'), params.blurSigma);
+          gl.uniform1f(loc('u_radius'), radius);
+        });
+        input = target;
+      }
+    }
+
+    // Curves/Levels table on unit 1, interpolated like sampleToneLut
+    if (params.toneLut) {
+      gl.activeTexture(gl.TEXTURE1);
+      textures.push(createTexture(gl, 256, 1, params.toneLut, gl.LINEAR));
+    }
+
+    if (params.lut) {
+      gl.activeTexture(gl.TEXTURE2);
+      const size = params.lut.size;
+      textures.push(createTexture(gl, size * size, size, packLutTexture(params.lut), gl.LINEAR));
+    }
+
+    draw(e, e.tone, input, null, loc => {
+      const m = params.colorMatrix;
+      gl.uniform1i(loc('u_lut'), 2);
+      gl.uniform1f(loc('u_useLut'), params.lut ? 1 : 0);
+      if (params.lut) {
+        gl.uniform1f(loc('u_lutSize'), params.lut.size);
+        gl.uniform3fv(loc('u_lutMin'), params.lut.domainMin);
+        gl.uniform3fv(loc('u_lutMax'), params.lut.domainMax);
+      }
+      gl.uniform1i(loc('u_toneLut'), 1);
+      gl.uniform1f(loc('u_useToneLut'), params.toneLut ? 1 : 0);
+      gl.uniform2f(loc('u_size'), width, height);
+      gl.uniform1f(loc('u_sharpen'), params.sharpen);
+      gl.uniform1f(loc('u_clarity'), params.clarity);
+      gl.uniform1f(loc('u_clarityRadius'), Math.max(1, params.clarityRadius * params.scale));
+      gl.uniform1f(loc('u_gain'), params.gain);
+      gl.uniform1f(loc('u_contrast'), params.contrast);
+      gl.uniform1f(loc('u_blackPoint'), params.blackPoint);
+      gl.uniform1f(loc('u_whitePoint'), params.whitePoint);
+      gl.uniform1f(loc('u_shadows'), params.shadows);
+      gl.uniform1f(loc('u_highlights'), params.highlights);
+      gl.uniform1f(loc('u_temperature'), params.temperature);
+      gl.uniform1f(loc('u_tint'), params.tint);
+      gl.uniform1f(loc('u_saturation'), params.saturation);
+      gl.uniform1f(loc('u_vibrance'), params.vibrance);
+      // GLSL matrices are column-major
+      gl.uniformMatrix3fv(loc('u_colorMatrix'), false, [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]]);
+      gl.uniform1f(loc('u_postContrast'), params.postContrast);
+      gl.uniform1f(loc('u_postBrightness'), params.postBrightness);
+      gl.uniform1f(loc('u_vignette'), params.vignette);
+      gl.uniform1f(loc('u_grain'), params.grain);
+      gl.uniform1f(loc('u_scale'), params.scale);
+    });
+
+    const out = document.createElement('canvas');
+    out.width = width;
+    out.height = height;
+    out.getContext('2d')!.drawImage(canvas, 0, 0);
+    return out;
+  } catch (err) {
+    console.warn('WebGL render failed, using software rendering', err);
+    return null;
+  } finally {
+    textures.forEach(t => gl.deleteTexture(t));
+    framebuffers.forEach(f => gl.deleteFramebuffer(f));
+  }
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip, uniqueNames } from "./zipService";
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// Reads entries back through the central directory, as unzip tools do
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let pos = view.getUint32(end + 16, true);
+  const entries: { name: string; data: string; crc: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(pos + 28, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const size = view.getUint32(offset + 18, true);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({ name, data: new TextDecoder().decode(bytes.subarray(start, start + size)), crc: view.getUint32(pos + 16, true) });
+    pos += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('uniqueNames', () => {
+  it('numbers repeated names before the extension', () => {
+    expect(uniqueNames(['a.png', 'a.png', 'b', 'a.png', 'b'])).toEqual(['a.png', 'a (2).png', 'b', 'a (3).png', 'b (2)']);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry so it can be read back', async () => {
+    const blob = createZip([
+      { name: 'one.txt', data: text('first') },
+      { name: 'bild-ü.png', data: text('second entry') },
+    ], new Date(2024, 4, 6, 12, 30, 10));
+    expect(blob.type).toBe('application/zip');
+    const entries = await readZip(blob);
+    expect(entries.map(e => [e.name, e.data])).toEqual([['one.txt', 'first'], ['bild-ü.png', 'second entry']]);
+    expect(entries[0].crc).toBe(crc32(text('first')));
+  });
+
+  it('writes a valid empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([]);
+  });
+});
@@ -4,6 +4,11 @@ export enum EditMode {
   REMOVE_BG = 'Remove Background',
   REPLACE_BG = 'Replace Background',
   ENHANCE = 'AI Enhance',
+  CUSTOM = 'Custom Prompt',
+  INPAINT = 'Inpaint',
+  MATTE = 'Subject Matte', // Internal: black/white segmentation used by REMOVE_BG
+  BACKGROUND = 'Generate Background', // Internal: empty background plate for REPLACE_BG candidates
+  CUSTOM_MODE = 'Custom Mode', // A mode defined in the AI configuration; see EditOptions.customModeId
   NONE = 'None'
 }
 
@@ -16,27 +21,259 @@ export enum FilterType {
 }
 
 export interface Adjustments {
-  brightness: number; // 0-200, default 100
-  contrast: number;   // 0-200, default 100
-  saturation: number; // 0-200, default 100
-  blur: number;       // 0-10, default 0
+  brightness: number;  // 0-200, default 100
+  contrast: number;    // 0-200, default 100
+  saturation: number;  // 0-200, default 100
+  blur: number;        // 0-10, default 0 (source pixels)
+  exposure: number;    // -100-100 (±2 stops), default 0
+  highlights: number;  // -100-100, default 0
+  shadows: number;     // -100-100, default 0
+  whites: number;      // -100-100, default 0
+  blacks: number;      // -100-100, default 0
+  temperature: number; // -100-100, default 0 (+ warmer)
+  tint: number;        // -100-100, default 0 (+ magenta)
+  vibrance: number;    // -100-100, default 0
+  hue: number;         // -180-180 degrees, default 0
+  sharpen: number;     // 0-100, default 0
+  clarity: number;     // -100-100, default 0
+  vignette: number;    // -100-100, default 0 (+ darkens corners)
+  grain: number;       // 0-100, default 0
+  curves: ChannelCurves;
+  levels: ChannelLevels;
+  lut: LutRef | null;
+}
+
+// Adjustments driven by a single slider
+export type NumericAdjustment = Exclude<keyof Adjustments, 'curves' | 'levels' | 'lut'>;
+
+// 3D LUT imported from a .cube file; `src` is the file's blob URL
+export interface LutRef {
+  name: string;
+  src: string;
+}
+
+export type ToneChannel = 'rgb' | 'r' | 'g' | 'b';
+
+// Curve control point, both axes 0-255
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export type ChannelCurves = Record<ToneChannel, CurvePoint[]>;
+
+export interface LevelsSettings {
+  inputBlack: number;  // 0-255, default 0
+  inputWhite: number;  // 0-255, default 255
+  gamma: number;       // 0.1-9.99, default 1
+  outputBlack: number; // 0-255, default 0
+  outputWhite: number; // 0-255, default 255
+}
+
+export type ChannelLevels = Record<ToneChannel, LevelsSettings>;
+
+// A saved look. The LUT travels as .cube text so presets work outside the
+// project they were made in and survive JSON export.
+export interface FilterPreset {
+  id: string;
+  name: string;
+  createdAt: number;
+  filter: FilterType;
+  adjustments: Omit<Adjustments, 'lut'>;
+  lut: { name: string; cube: string } | null;
+}
+
+// Normalized (0-1) rectangle within the rotated frame
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface CropSettings {
   aspectRatio: number | null; // null for free, or 1, 1.77, etc.
-  active: boolean;
+  rect: CropRect | null;      // null for the full frame
+  rotation: number;           // Quarter turns in degrees: 0, 90, 180, 270
+  straighten: number;         // Fine rotation in degrees, -45 to 45
+  flipH: boolean;
+  flipV: boolean;
+}
+
+export interface MatteSettings {
+  feather: number;        // Edge blur radius in px, 0-20
+  choke: number;          // Erode (+) / dilate (-) the matte in px, -10-10
+  decontaminate: boolean; // Un-mix the old background color from soft edges
+}
+
+// How the alpha matte is obtained for background removal
+export type MatteStrategy = 'matte' | 'whiteKey';
+
+// Everything needed to re-render a cut-out when refinement settings change
+export interface MatteState {
+  source: string;                       // Pixels that get cut out
+  matte: string;                        // Grayscale matte, white = subject
+  background: [number, number, number]; // Color to un-mix from edges
+  settings: MatteSettings;
+}
+
+export type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export type ResizeMode = 'original' | 'dimensions' | 'longEdge';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number;          // 1-100, ignored for PNG
+  resizeMode: ResizeMode;
+  width: number;            // Used when resizeMode is 'dimensions'
+  height: number;
+  keepAspect: boolean;
+  longEdge: number;         // Used when resizeMode is 'longEdge'
+  resampling: ImageSmoothingQuality;
+  filenameTemplate: string; // Tokens: {name} {date} {time} {width} {height}
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  imageCount: number;
+  cover: Blob | null;
+}
+
+export interface ProjectData {
+  id: string;
+  name: string;
+  createdAt: number;
+  images: ImageState[];
+  activeImageId: string | null;
+}
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  imageId: string;
+  label: string;
+  status: JobStatus;
+  error: string | null;
+  attempts: number;
 }
 
 export interface ProcessingState {
   isProcessing: boolean;
-  error: string | null;
   mode: EditMode | null;
+  status: string | null; // Progress shown under the spinner, e.g. a pending retry
+}
+
+export type AIErrorKind = 'cancelled' | 'timeout' | 'safety' | 'quota' | 'auth' | 'no-image' | 'network' | 'server' | 'unknown';
+
+export interface NoticeAction {
+  label: string;
+  run: () => void;
+}
+
+// Toast shown until dismissed (errors) or briefly (info)
+export interface Notice {
+  id: string;
+  tone: 'error' | 'info';
+  title: string;
+  message: string | null;
+  detail: string | null; // Quoted under the message, e.g. the model's reply
+  actions: NoticeAction[];
+}
+
+export type OverlayKind = 'text' | 'shape' | 'arrow' | 'image';
+
+// Geometry is in fractions of the output (cropped) frame, so overlays stay put
+// on the final picture when the crop changes. (x, y) is the box center.
+interface OverlayBase {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees, clockwise
+  opacity: number;  // 0-1
+}
+
+// Font size follows the box height; the width is refit when the text changes
+export interface TextOverlay extends OverlayBase {
+  kind: 'text';
+  text: string;
+  fontFamily: string;
+  bold: boolean;
+  italic: boolean;
+  align: 'left' | 'center' | 'right';
+  color: string;
+  strokeColor: string;
+  strokeWidth: number; // Fraction of the font size, 0 for none
+  shadowColor: string;
+  shadowBlur: number;  // Fraction of the font size, 0 for none
+}
+
+export interface ShapeOverlay extends OverlayBase {
+  kind: 'shape';
+  shape: 'rect' | 'ellipse';
+  fill: string | null;
+  stroke: string;
+  strokeWidth: number; // Fraction of the box's short side, 0 for none
+}
+
+// Points along the box width, left to right; the box height is the head width
+export interface ArrowOverlay extends OverlayBase {
+  kind: 'arrow';
+  color: string;
+}
+
+// Sticker or watermark; `src` is a blob URL
+export interface ImageOverlay extends OverlayBase {
+  kind: 'image';
+  src: string;
+  name: string;
+}
+
+export type OverlayLayer = TextOverlay | ShapeOverlay | ArrowOverlay | ImageOverlay;
+
+// Canvas compositing modes; 'normal' maps to source-over
+export type BlendMode =
+  | 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten'
+  | 'color-dodge' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion'
+  | 'hue' | 'saturation' | 'color' | 'luminosity';
+
+// One bitmap in an image's stack (the upload, each AI result). Layers are
+// stretched to the largest visible layer's size when composited.
+export interface PixelLayer {
+  id: string;
+  name: string;
+  src: string;          // Blob URL
+  opacity: number;      // 0-1
+  blendMode: BlendMode;
+  visible: boolean;
+  mask: string | null;  // Grayscale blob URL; white shows the layer, black hides it
+}
+
+export interface HistoryEntry {
+  id: string;
+  parentId: string | null; // Entries form a tree: undo walks to the parent, new edits branch
+  label: string;           // Shown in the history panel, e.g. "Anime Style" or "Contrast 140"
+  current: string | null;  // Snapshot of 'current' (flattened layers)
+  layers: PixelLayer[];
+  adjustments: Adjustments;
+  filter: FilterType;
+  crop: CropSettings;
+  matte: MatteState | null;
+  overlays: OverlayLayer[];
 }
 
 export interface ImageState {
   id: string;
   original: string | null; // The base loaded image
-  current: string | null;  // The result of AI operations
+  current: string | null;  // Visible layers flattened; what adjustments, crop and AI edits work on
+  layers: PixelLayer[];    // Upload and AI results, bottom to top
   thumbnail: string | null;
   mimeType: string;
   name: string;
@@ -44,12 +281,123 @@ export interface ImageState {
   // Client-side edits (non-destructive)
   adjustments: Adjustments;
   filter: FilterType;
-  history: {
-    current: string | null; // Snapshot of 'current' (AI result)
-    adjustments: Adjustments;
-    filter: FilterType;
-  }[];
-  historyIndex: number;
+  crop: CropSettings;
+  matte: MatteState | null; // Set after background removal so edges stay refinable
+  overlays: OverlayLayer[]; // Text, shapes and stickers, bottom to top
+  history: HistoryEntry[]; // In creation order
+  historyIndex: number;    // Entry the image currently shows
+
+  // Most recent custom prompts used on this image, newest first
+  recentPrompts: string[];
+}
+
+// Favorite background in the Replace Background library
+export interface SavedBackground {
+  id: string;
+  name: string;
+  image: string;         // Downscaled JPEG data URL
+  prompt: string | null; // Description it was generated from, if any
+  createdAt: number;
+}
+
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  prompt: string;
+  tags: string[];
+  createdAt: number;
+}
+
+// Output settings passed to the model
+export interface ImageOutputConfig {
+  aspectRatio?: string; // e.g. '16:9'
+  imageSize?: string;   // e.g. '4K'
+}
+
+// How one edit is sent to the model. Prompt templates may use {prompt},
+// {backgroundPrompt} and {backgroundColor}.
+export interface ModePromptConfig {
+  prompt: string;
+  model: string;
+  imageConfig: ImageOutputConfig;
+  requiresPaidKey: boolean; // Ask for a billed API key before sending
+}
+
+export interface ModeConfig extends ModePromptConfig {
+  // Overrides chosen by the request's inputs, e.g. 'image' when Replace
+  // Background is given a background image
+  variants?: Record<string, Partial<ModePromptConfig>>;
+}
+
+// A mode added through configuration rather than code
+export interface CustomModeConfig extends ModePromptConfig {
+  id: string;
+  name: string;
+}
+
+export interface AIConfig {
+  version: number;
+  modes: Partial<Record<EditMode, ModeConfig>>;
+  customModes: CustomModeConfig[];
+}
+
+export interface EditOptions {
+  backgroundColor?: string;
+  backgroundImage?: string | null; // Data URL for custom background
+  backgroundPrompt?: string; // Described background for EditMode.REPLACE_BG and EditMode.BACKGROUND
+  seed?: number; // Varies results between candidates generated from the same request
+  customModeId?: string; // CustomModeConfig to run for EditMode.CUSTOM_MODE
+  aspectRatio?: string; // Model output ratio such as '16:9', for EditMode.ENHANCE
+  prompt?: string; // Free-text instruction for EditMode.CUSTOM and EditMode.INPAINT
+  mask?: string | null; // Black/white data URL for EditMode.INPAINT, white = editable
+}
+
+export interface ImageEditRequest {
+  image: string;    // Data URL of the source image
+  mimeType: string;
+  mode: EditMode;
+  options: EditOptions;
+  signal?: AbortSignal; // Aborts the request when the user cancels
+}
+
+// Token counts reported by the backend for one request
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ImageEditResult {
+  image: string; // Data URL
+  usage: TokenUsage | null; // null when the backend doesn't report usage
+}
+
+// One AI request in the usage log
+export interface UsageLogEntry {
+  id: string;
+  timestamp: number;
+  projectId: string | null;
+  mode: EditMode;
+  usage: TokenUsage | null;   // null when the request failed or reported nothing
+  cost: number | null;        // Estimated when logged, in USD
+  error: AIErrorKind | null;
+}
+
+// How the app reaches the AI backend. Both are entered at runtime and stored
+// in this browser only; empty means unset.
+export interface ConnectionSettings {
+  apiKey: string;
+  proxyUrl: string; // Base URL of the Lens proxy (server/), which adds the key; wins over apiKey
+}
+
+// A backend capable of performing AI edits. Providers return a data URL; the
+// edit pipeline interns it in the blob store before it reaches image state.
+export interface ImageEditProvider {
+  id: string;
+  name: string;
+  requiresApiKey: boolean;
+  edit: (request: ImageEditRequest) => Promise<ImageEditResult>;
 }
 
 // Augment window for AI Studio specific API
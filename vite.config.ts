@@ -2,17 +2,23 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, command, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // Keys are only inlined for the dev server so they never ship in a build;
+    // deployed apps take a key at runtime or go through PROXY_URL
+    const devKey = command === 'serve' ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The proxy server and CLI (SSR builds) and tests read their environment at runtime
+      define: isSsrBuild || mode === 'test' ? {} : {
+        'process.env.API_KEY': JSON.stringify(devKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(devKey),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL)
       },
       resolve: {
         alias: {